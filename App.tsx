@@ -1,49 +1,91 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { WebGPUCanvas } from './components/WebGPUCanvas';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { CaptureActions, TimelineActions, WebGPUCanvas, WebGPUCanvasHandle } from './components/WebGPUCanvas';
 import { Controls } from './components/Controls';
+import { ForceFieldOverlay } from './components/ForceFieldOverlay';
+import { ObstacleOverlay } from './components/ObstacleOverlay';
+import { PerformanceHud } from './components/PerformanceHud';
+import { FALLBACK_PARTICLE_LIMIT } from './engine/CpuParticleEngine';
+import { CompileResult } from './engine/customForce';
+import { PerformanceStats } from './engine/PerformanceMonitor';
+import { decodePresetHash, DEFAULT_PARAMS, encodePresetHash } from './engine/presets';
+import { QUALITY_LEVELS, scaledParticleCount } from './engine/QualityController';
+import { TimelineState } from './engine/timeline';
 import { SimulationParams, WebGPUStatus } from './types';
 
-// Initial Params
-const INITIAL_PARAMS: SimulationParams = {
-  particleCount: 100000, // Reduced default for broader compatibility
-  speed: 1.0,
-  interactionRadius: 0.35,
-  forceStrength: 1.5,
-  colorScheme: 'neon',
+// Scene from a shared link, if the page was opened with one
+const initialParams = (): SimulationParams => {
+  try {
+    return decodePresetHash(window.location.hash)?.params ?? DEFAULT_PARAMS;
+  } catch (error) {
+    console.warn('Ignoring the preset in the URL:', error);
+    return DEFAULT_PARAMS;
+  }
 };
 
 const App: React.FC = () => {
-  const [params, setParams] = useState<SimulationParams>(INITIAL_PARAMS);
+  const [params, setParams] = useState<SimulationParams>(initialParams);
   const [status, setStatus] = useState<WebGPUStatus>(WebGPUStatus.Loading);
   const [errorMsg, setErrorMsg] = useState<string>('');
-  const [fps, setFps] = useState(0);
-  
-  // FPS Counter
-  const frameCountRef = useRef(0);
-  const lastTimeRef = useRef(performance.now());
+  const [stats, setStats] = useState<PerformanceStats | null>(null);
+  const [qualityLevel, setQualityLevel] = useState(0);
+  const [runtimeError, setRuntimeError] = useState('');
+  const [compileResult, setCompileResult] = useState<CompileResult | null>(null);
+  const [timelineState, setTimelineState] = useState<TimelineState | null>(null);
+  const canvasRef = useRef<WebGPUCanvasHandle>(null);
+
+  // Keep the URL hash in step with the scene, so reloading or sharing the link reproduces it
+  const hashRef = useRef(window.location.hash);
 
   useEffect(() => {
-    const loop = () => {
-      const now = performance.now();
-      frameCountRef.current++;
-      
-      if (now - lastTimeRef.current >= 1000) {
-        setFps(frameCountRef.current);
-        frameCountRef.current = 0;
-        lastTimeRef.current = now;
+    const id = window.setTimeout(() => {
+      hashRef.current = `#${encodePresetHash(params)}`;
+      window.history.replaceState(null, '', hashRef.current);
+    }, 300);
+    return () => window.clearTimeout(id);
+  }, [params]);
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      // Only links pasted into the address bar; our own updates don't fire this
+      if (window.location.hash === hashRef.current) return;
+      hashRef.current = window.location.hash;
+      try {
+        const preset = decodePresetHash(window.location.hash);
+        if (preset) setParams(preset.params);
+      } catch (error) {
+        console.warn('Ignoring the preset in the URL:', error);
       }
-      requestAnimationFrame(loop);
     };
-    const id = requestAnimationFrame(loop);
-    return () => cancelAnimationFrame(id);
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
   }, []);
 
+  // Forwards to the canvas, which only exists once WebGPU support is known
+  const capture = useMemo<CaptureActions>(() => ({
+    captureImage: async (width, height) => (await canvasRef.current?.captureImage(width, height)) ?? null,
+    startRecording: (fps, bitsPerSecond) => canvasRef.current?.startRecording(fps, bitsPerSecond),
+    stopRecording: async () => (await canvasRef.current?.stopRecording()) ?? null,
+    renderSequence: async (options, onProgress, signal) =>
+      (await canvasRef.current?.renderSequence(options, onProgress, signal)) ?? null,
+  }), []);
+
+  const timeline = useMemo<TimelineActions>(() => ({
+    setPlaying: (playing) => canvasRef.current?.setPlaying(playing),
+    seek: (time) => canvasRef.current?.seek(time),
+  }), []);
+
   const handleStatusChange = useCallback((newStatus: WebGPUStatus, msg?: string) => {
     setStatus(newStatus);
     if (msg) setErrorMsg(msg);
   }, []);
 
+  const isFallback = status === WebGPUStatus.Fallback;
+  const activeParticles = scaledParticleCount(
+    isFallback ? Math.min(params.particleCount, FALLBACK_PARTICLE_LIMIT) : params.particleCount,
+    QUALITY_LEVELS[qualityLevel]
+  );
+
   return (
     <div className="relative w-screen h-screen overflow-hidden bg-black font-sans">
       
@@ -51,14 +93,57 @@ const App: React.FC = () => {
       {status !== WebGPUStatus.Error && status !== WebGPUStatus.Unsupported && (
         <div className="absolute inset-0 z-0">
           <WebGPUCanvas 
+            ref={canvasRef}
             simParams={params} 
             onStatusChange={handleStatusChange} 
+            onGesture={setParams}
+            onStats={setStats}
+            onQualityChange={setQualityLevel}
+            onRuntimeError={setRuntimeError}
+            onCompile={setCompileResult}
+            onTimeline={setTimelineState}
           />
         </div>
       )}
 
+      {/* Obstacles and force fields are 2D-only, so their handles are hidden in 3D */}
+      {!params.mode3d && (
+        <>
+          {/* Obstacle Outlines */}
+          <ObstacleOverlay
+            obstacles={params.obstacles}
+            onChange={(obstacles) => setParams((p) => ({ ...p, obstacles }))}
+          />
+
+          {/* Force Field Markers */}
+          <ForceFieldOverlay
+            forceFields={params.forceFields}
+            onChange={(forceFields) => setParams((p) => ({ ...p, forceFields }))}
+          />
+        </>
+      )}
+
       {/* UI Overlay */}
-      <Controls params={params} onChange={setParams} fps={fps} />
+      <Controls
+        params={params}
+        onChange={setParams}
+        onStep={() => canvasRef.current?.step()}
+        onReset={() => canvasRef.current?.reset()}
+        onReadSnapshot={async () => (await canvasRef.current?.readSnapshot()) ?? null}
+        onLoadSnapshot={(snapshot) => {
+          canvasRef.current?.loadSnapshot(snapshot);
+          // The engine already holds the snapshot's particles, so this doesn't reseed them
+          setParams((p) => ({ ...p, particleCount: snapshot.count, seed: snapshot.seed }));
+        }}
+        capture={capture}
+        qualityLevel={qualityLevel}
+        compileResult={compileResult}
+        timeline={timeline}
+        timelineState={timelineState}
+      />
+
+      {/* Performance */}
+      {stats && <PerformanceHud stats={stats} />}
 
       {/* Loading / Error States */}
       {(status === WebGPUStatus.Loading) && (
@@ -70,6 +155,28 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {status === WebGPUStatus.Recovering && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/70 z-50">
+          <div className="text-center">
+            <div className="w-12 h-12 border-4 border-amber-400 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+            <h2 className="text-xl text-white font-light tracking-widest">RESTORING GPU</h2>
+            <p className="text-gray-400 text-sm mt-2 max-w-sm">
+              The GPU device was lost{errorMsg ? ` (${errorMsg})` : ''}. Restarting from the last saved state.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Runtime WebGPU errors; the simulation keeps running, but may draw wrongly */}
+      {runtimeError && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 max-w-md flex items-start gap-3 bg-red-900/80 border border-red-700 text-red-100 text-xs p-3 rounded-lg z-20">
+          <p className="font-mono break-words min-w-0">{runtimeError}</p>
+          <button onClick={() => setRuntimeError('')} className="text-red-300 hover:text-white">
+            ✕
+          </button>
+        </div>
+      )}
+
       {(status === WebGPUStatus.Unsupported || status === WebGPUStatus.Error) && (
         <div className="absolute inset-0 flex items-center justify-center bg-gray-900 z-50 p-8">
           <div className="max-w-md text-center border border-red-900 bg-red-900/20 p-8 rounded-lg">
@@ -97,8 +204,13 @@ const App: React.FC = () => {
           PARTICLE<span className="text-cyan-400">FLOW</span>
         </h1>
         <p className="text-gray-400 text-sm mt-1 tracking-widest uppercase">
-          {params.particleCount.toLocaleString()} Entities • Mass Compute
+          {activeParticles.toLocaleString()} Entities • {isFallback ? 'CPU Fallback' : 'Mass Compute'}
         </p>
+        {isFallback && (
+          <p className="text-amber-400/80 text-xs mt-1 max-w-xs">
+            {errorMsg} Running a reduced simulation on the CPU.
+          </p>
+        )}
       </div>
 
     </div>
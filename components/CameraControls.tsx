@@ -0,0 +1,60 @@
+import React from 'react';
+import { DEFAULT_CAMERA, MAX_CAMERA_DISTANCE, MIN_CAMERA_DISTANCE } from '../engine/camera';
+import { CameraParams } from '../types';
+import { RangeControl, ToggleControl } from './FormControls';
+
+interface CameraControlsProps {
+  mode3d: boolean;
+  camera: CameraParams;
+  onChange: (patch: { mode3d?: boolean; camera?: CameraParams }) => void;
+}
+
+export const CameraControls: React.FC<CameraControlsProps> = ({ mode3d, camera, onChange }) => {
+  const update = (patch: Partial<CameraParams>) => {
+    onChange({ camera: { ...camera, ...patch } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <ToggleControl
+        label="3D mode"
+        checked={mode3d}
+        onChange={(v) => onChange({ mode3d: v })}
+      />
+
+      {mode3d && (
+        <>
+          <RangeControl
+            label="Field of View"
+            value={camera.fov}
+            format={(v) => `${v}°`}
+            min={20}
+            max={100}
+            step={1}
+            accent="accent-cyan-500"
+            onChange={(fov) => update({ fov })}
+          />
+          <RangeControl
+            label="Distance"
+            value={camera.distance}
+            min={MIN_CAMERA_DISTANCE}
+            max={MAX_CAMERA_DISTANCE}
+            step={0.1}
+            digits={1}
+            accent="accent-cyan-500"
+            onChange={(distance) => update({ distance })}
+          />
+          <button
+            onClick={() => onChange({ camera: DEFAULT_CAMERA })}
+            className="w-full py-1 px-2 text-xs rounded border border-gray-700 text-gray-400 hover:border-gray-500 transition-all uppercase tracking-wider"
+          >
+            Reset Camera
+          </button>
+          <p className="text-xs text-gray-500">
+            The volume flows along curl noise. Force fields, obstacles and the boids / fluid modes are 2D-only.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
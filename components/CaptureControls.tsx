@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CanvasRecorder, downloadBlob, MAX_CAPTURE_SIZE } from '../engine/capture';
+import { CaptureActions } from './WebGPUCanvas';
+
+interface CaptureControlsProps {
+  capture: CaptureActions;
+}
+
+const buttonClass =
+  'flex-1 py-1 px-2 text-xs text-center rounded border border-gray-700 text-gray-400 hover:border-gray-500 disabled:opacity-40 transition-all uppercase tracking-wider';
+const inputClass = 'w-16 bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-xs text-gray-300 font-mono';
+
+const RECORDING_FPS = 60;
+const RECORDING_BITRATE = 16_000_000;
+
+const timestamp = () => new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+
+// Integer input clamped to [min, max]
+const NumberInput: React.FC<{ value: number; min: number; max: number; onChange: (value: number) => void }> = ({ value, min, max, onChange }) => (
+  <input
+    type="number"
+    min={min}
+    max={max}
+    step={1}
+    value={value}
+    onChange={(e) => {
+      const v = Math.round(Number(e.target.value));
+      if (Number.isFinite(v)) onChange(Math.min(Math.max(v, min), max));
+    }}
+    className={inputClass}
+  />
+);
+
+export const CaptureControls: React.FC<CaptureControlsProps> = ({ capture }) => {
+  const dpr = window.devicePixelRatio || 1;
+  const [width, setWidth] = useState(() => Math.round(window.innerWidth * dpr));
+  const [height, setHeight] = useState(() => Math.round(window.innerHeight * dpr));
+  const [frames, setFrames] = useState(120);
+  const [fps, setFps] = useState(30);
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [progress, setProgress] = useState<number | null>(null); // Frames rendered offline, null when idle
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Recording clock
+  useEffect(() => {
+    if (recordingSince === null) return;
+    const id = window.setInterval(() => setElapsed((performance.now() - recordingSince) / 1000), 250);
+    return () => window.clearInterval(id);
+  }, [recordingSince]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Capture failed.');
+    }
+  };
+
+  const screenshot = () => run(async () => {
+    const png = await capture.captureImage(width, height);
+    if (png) downloadBlob(png, `particles-${timestamp()}.png`);
+  });
+
+  const toggleRecording = () => run(async () => {
+    if (recordingSince === null) {
+      capture.startRecording(RECORDING_FPS, RECORDING_BITRATE);
+      setElapsed(0);
+      setRecordingSince(performance.now());
+    } else {
+      setRecordingSince(null);
+      const video = await capture.stopRecording();
+      if (video) downloadBlob(video, `particles-${timestamp()}.webm`);
+    }
+  });
+
+  const renderOffline = () => run(async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      const zip = await capture.renderSequence({ width, height, frames, fps }, setProgress, controller.signal);
+      if (zip) downloadBlob(zip, `particles-${timestamp()}.zip`);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  });
+
+  const rendering = progress !== null;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <label>Capture</label>
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <NumberInput value={width} min={1} max={MAX_CAPTURE_SIZE} onChange={setWidth} />
+        <span>x</span>
+        <NumberInput value={height} min={1} max={MAX_CAPTURE_SIZE} onChange={setHeight} />
+        <span>px</span>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={screenshot} disabled={rendering} className={buttonClass}>
+          PNG
+        </button>
+        <button
+          onClick={toggleRecording}
+          disabled={rendering || !CanvasRecorder.isSupported}
+          className={`${buttonClass} ${recordingSince !== null ? 'border-red-500 text-red-400' : ''}`}
+        >
+          {recordingSince !== null ? `Stop ${elapsed.toFixed(0)}s` : 'Record'}
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <NumberInput value={frames} min={1} max={10000} onChange={setFrames} />
+        <span>frames at</span>
+        <NumberInput value={fps} min={1} max={120} onChange={setFps} />
+        <span>fps</span>
+      </div>
+      {rendering ? (
+        <button onClick={() => abortRef.current?.abort()} className={buttonClass}>
+          Cancel {progress} / {frames}
+        </button>
+      ) : (
+        <button onClick={renderOffline} disabled={recordingSince !== null} className={`${buttonClass} w-full`}>
+          Render PNG Sequence
+        </button>
+      )}
+      <p className="text-xs text-gray-500">
+        Stills and sequences are drawn at the size above. Sequences step a fixed 1/fps per frame and download as a ZIP.
+      </p>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -1,103 +1,458 @@
-
 import React from 'react';
-import { SimulationParams } from '../types';
+import { CompileResult } from '../engine/customForce';
+import { ParticleSnapshot } from '../engine/snapshot';
+import { TimelineState } from '../engine/timeline';
+import { BoidsParams, ColorScheme, ColorSource, FluidParams, GestureBindings, GestureTarget, SimulationMode, SimulationParams } from '../types';
+import { CameraControls } from './CameraControls';
+import { CaptureControls } from './CaptureControls';
+import { CustomForceEditor } from './CustomForceEditor';
+import { EmitterControls } from './EmitterControls';
+import { FlowFieldControls } from './FlowFieldControls';
+import { GradientEditor } from './GradientEditor';
+import { ForceFieldControls } from './ForceFieldControls';
+import { ObstacleControls } from './ObstacleControls';
+import { ParticleStyleControls } from './ParticleStyleControls';
+import { PresetControls } from './PresetControls';
+import { QualityControls } from './QualityControls';
+import { SnapshotControls } from './SnapshotControls';
+import { PostProcessControls } from './PostProcessControls';
+import { RangeControl, SelectButtons, SelectControl, ToggleControl } from './FormControls';
+import { TimelineEditor } from './TimelineEditor';
+import { CaptureActions, TimelineActions } from './WebGPUCanvas';
+
+const COLOR_SCHEMES: readonly ColorScheme[] = ['neon', 'fire', 'ocean', 'custom'];
+const COLOR_SOURCES: readonly ColorSource[] = ['speed', 'direction', 'age', 'position', 'density'];
+const SIMULATION_MODES: readonly SimulationMode[] = ['flow', 'boids', 'fluid'];
+const GESTURE_TARGETS: Record<GestureTarget, string> = {
+  none: 'Nothing',
+  interactionRadius: 'Vortex Radius',
+  forceStrength: 'Force Strength',
+  speed: 'Fluidity',
+  timeScale: 'Time Scale',
+  neighborRadius: 'Neighbor Radius',
+};
 
 interface ControlsProps {
   params: SimulationParams;
   onChange: (params: SimulationParams) => void;
-  fps: number;
+  onStep: () => void;
+  onReset: () => void;
+  onReadSnapshot: () => Promise<ParticleSnapshot | null>;
+  onLoadSnapshot: (snapshot: ParticleSnapshot) => void;
+  capture: CaptureActions;
+  qualityLevel: number; // Index into QUALITY_LEVELS
+  compileResult: CompileResult | null; // Of the latest custom force
+  timeline: TimelineActions;
+  timelineState: TimelineState | null; // Null until an engine is running
 }
 
-export const Controls: React.FC<ControlsProps> = ({ params, onChange, fps }) => {
-  const handleChange = (key: keyof SimulationParams, value: number | string) => {
+export const Controls: React.FC<ControlsProps> = ({ params, onChange, onStep, onReset, onReadSnapshot, onLoadSnapshot, capture, qualityLevel, compileResult, timeline, timelineState }) => {
+  const handleChange = (key: keyof SimulationParams, value: number | string | boolean) => {
     onChange({ ...params, [key]: value });
   };
 
+  const handleBoidsChange = (key: keyof BoidsParams, value: number) => {
+    onChange({ ...params, boids: { ...params.boids, [key]: value } });
+  };
+
+  const handleFluidChange = (key: keyof FluidParams, value: number) => {
+    onChange({ ...params, fluid: { ...params.fluid, [key]: value } });
+  };
+
+  const handleGestureChange = (key: keyof GestureBindings, value: GestureTarget) => {
+    onChange({ ...params, gestures: { ...params.gestures, [key]: value } });
+  };
+
   return (
-    <div className="absolute top-4 right-4 w-72 bg-black/80 backdrop-blur-md border border-gray-800 text-white p-6 rounded-xl shadow-2xl z-10">
-      <div className="flex justify-between items-center mb-6">
-        <h2 className="text-lg font-bold bg-gradient-to-r from-cyan-400 to-purple-500 bg-clip-text text-transparent">
-          Control Panel
-        </h2>
-        <span className="text-xs font-mono text-green-400">{Math.round(fps)} FPS</span>
-      </div>
+    <div className="absolute top-4 right-4 w-72 max-h-[calc(100vh-2rem)] overflow-y-auto bg-black/80 backdrop-blur-md border border-gray-800 text-white p-6 rounded-xl shadow-2xl z-10">
+      <h2 className="mb-6 text-lg font-bold bg-gradient-to-r from-cyan-400 to-purple-500 bg-clip-text text-transparent">
+        Control Panel
+      </h2>
 
       <div className="space-y-5">
-        
-        {/* Particle Count Info */}
-        <div className="flex justify-between text-xs text-gray-400">
-          <span>Particles</span>
-          <span>{params.particleCount.toLocaleString()}</span>
+
+        {/* Presets */}
+        <div className="pb-4 border-b border-gray-800">
+          <PresetControls params={params} onChange={onChange} />
+        </div>
+
+        {/* Capture */}
+        <div className="pb-4 border-b border-gray-800">
+          <CaptureControls capture={capture} />
+        </div>
+
+        <RangeControl
+          label="Particles"
+          value={params.particleCount}
+          format={(v) => v.toLocaleString()}
+          min={1000}
+          max={1000000}
+          step={1000}
+          accent="accent-green-500"
+          onChange={(v) => handleChange('particleCount', v)}
+        />
+
+        {/* Adaptive Quality */}
+        <div className="pt-4 border-t border-gray-800">
+          <QualityControls
+            adaptiveQuality={params.adaptiveQuality}
+            level={qualityLevel}
+            onChange={(adaptiveQuality) => onChange({ ...params, adaptiveQuality })}
+          />
         </div>
 
         {/* Color Scheme */}
         <div className="space-y-2">
           <label className="text-sm">Color Theme</label>
-          <div className="flex gap-2">
-            {['neon', 'fire', 'ocean'].map((scheme) => (
-              <button
-                key={scheme}
-                onClick={() => handleChange('colorScheme', scheme)}
-                className={`flex-1 py-1 px-2 text-xs rounded border transition-all ${
-                  params.colorScheme === scheme
-                    ? 'bg-gray-700 border-cyan-500 text-cyan-400 shadow-[0_0_10px_rgba(34,211,238,0.2)]'
-                    : 'bg-transparent border-gray-700 text-gray-400 hover:border-gray-500'
-                } uppercase tracking-wider`}
-              >
-                {scheme}
-              </button>
-            ))}
-          </div>
+          <SelectButtons
+            options={COLOR_SCHEMES}
+            value={params.colorScheme}
+            onChange={(scheme) => handleChange('colorScheme', scheme)}
+          />
+          {params.colorScheme === 'custom' && (
+            <GradientEditor
+              stops={params.customGradient}
+              onChange={(customGradient) => onChange({ ...params, customGradient })}
+            />
+          )}
         </div>
 
-        {/* Speed */}
         <div className="space-y-2">
-          <div className="flex justify-between text-sm">
-            <label>Fluidity</label>
-            <span className="text-gray-400">{params.speed.toFixed(1)}</span>
-          </div>
-          <input
-            type="range"
-            min="0.1"
-            max="3.0"
-            step="0.1"
-            value={params.speed}
-            onChange={(e) => handleChange('speed', parseFloat(e.target.value))}
-            className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+          <label className="text-sm">Color By</label>
+          <SelectButtons
+            options={COLOR_SOURCES}
+            value={params.colorSource}
+            onChange={(source) => handleChange('colorSource', source)}
           />
+          {params.colorSource === 'direction' && (
+            <p className="text-xs text-gray-500">Hue follows the direction of travel; the theme is not used.</p>
+          )}
         </div>
 
-        {/* Interaction Radius */}
-        <div className="space-y-2">
-          <div className="flex justify-between text-sm">
-            <label>Vortex Radius</label>
-            <span className="text-gray-400">{params.interactionRadius.toFixed(2)}</span>
+        <RangeControl
+          label="Fluidity"
+          value={params.speed}
+          min={0.1}
+          max={3.0}
+          step={0.1}
+          digits={1}
+          accent="accent-cyan-500"
+          onChange={(v) => handleChange('speed', v)}
+        />
+
+        <RangeControl
+          label="Vortex Radius"
+          value={params.interactionRadius}
+          min={0.05}
+          max={0.8}
+          step={0.01}
+          digits={2}
+          accent="accent-purple-500"
+          onChange={(v) => handleChange('interactionRadius', v)}
+        />
+
+        <RangeControl
+          label="Force Strength"
+          value={params.forceStrength}
+          min={0.1}
+          max={5.0}
+          step={0.1}
+          digits={2}
+          accent="accent-pink-500"
+          onChange={(v) => handleChange('forceStrength', v)}
+        />
+
+        {/* Particle Style */}
+        <div className="pt-4 border-t border-gray-800">
+          <ParticleStyleControls
+            particleStyle={params.particleStyle}
+            onChange={(particleStyle) => onChange({ ...params, particleStyle })}
+          />
+        </div>
+
+        {/* Post-processing */}
+        <div className="pt-4 border-t border-gray-800">
+          <PostProcessControls
+            postProcess={params.postProcess}
+            onChange={(postProcess) => onChange({ ...params, postProcess })}
+          />
+        </div>
+
+        {/* Flow Field */}
+        <div className="pt-4 border-t border-gray-800">
+          <FlowFieldControls
+            flowField={params.flowField}
+            onChange={(flowField) => onChange({ ...params, flowField })}
+          />
+        </div>
+
+        {/* 3D */}
+        <div className="pt-4 border-t border-gray-800">
+          <CameraControls
+            mode3d={params.mode3d}
+            camera={params.camera}
+            onChange={(patch) => onChange({ ...params, ...patch })}
+          />
+        </div>
+
+        {/* Time */}
+        <div className="pt-4 border-t border-gray-800 space-y-5">
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleChange('paused', !params.paused)}
+              className={`flex-1 py-1 px-2 text-xs rounded border transition-all uppercase tracking-wider ${
+                params.paused
+                  ? 'bg-gray-700 border-cyan-500 text-cyan-400'
+                  : 'bg-transparent border-gray-700 text-gray-400 hover:border-gray-500'
+              }`}
+            >
+              {params.paused ? 'Resume' : 'Pause'}
+            </button>
+            <button
+              onClick={onStep}
+              disabled={!params.paused}
+              className="flex-1 py-1 px-2 text-xs rounded border border-gray-700 text-gray-400 hover:border-gray-500 disabled:opacity-40 disabled:hover:border-gray-700 transition-all uppercase tracking-wider"
+            >
+              Step
+            </button>
           </div>
-          <input
-            type="range"
-            min="0.05"
-            max="0.8"
-            step="0.01"
-            value={params.interactionRadius}
-            onChange={(e) => handleChange('interactionRadius', parseFloat(e.target.value))}
-            className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+
+          <RangeControl
+            label="Time Scale"
+            value={params.timeScale}
+            min={0.1}
+            max={3.0}
+            step={0.1}
+            digits={1}
+            accent="accent-cyan-500"
+            onChange={(v) => handleChange('timeScale', v)}
+          />
+
+          <RangeControl
+            label="Substeps"
+            value={params.substeps}
+            min={1}
+            max={8}
+            step={1}
+            digits={0}
+            accent="accent-purple-500"
+            onChange={(v) => handleChange('substeps', v)}
           />
         </div>
 
-        {/* Force Strength */}
-        <div className="space-y-2">
-          <div className="flex justify-between text-sm">
-            <label>Force Strength</label>
-            <span className="text-gray-400">{params.forceStrength.toFixed(2)}</span>
+        {/* Seed & Snapshots */}
+        <div className="pt-4 border-t border-gray-800">
+          <SnapshotControls
+            seed={params.seed}
+            onSeedChange={(seed) => handleChange('seed', seed)}
+            onReset={onReset}
+            onReadSnapshot={onReadSnapshot}
+            onLoadSnapshot={onLoadSnapshot}
+          />
+        </div>
+
+        {/* Simulation Mode */}
+        <div className="pt-4 border-t border-gray-800 space-y-5">
+          <div className="space-y-2">
+            <label className="text-sm">Simulation Mode</label>
+            <SelectButtons
+              options={SIMULATION_MODES}
+              value={params.simulationMode}
+              onChange={(mode) => handleChange('simulationMode', mode)}
+            />
           </div>
-          <input
-            type="range"
-            min="0.1"
-            max="5.0"
-            step="0.1"
-            value={params.forceStrength}
-            onChange={(e) => handleChange('forceStrength', parseFloat(e.target.value))}
-            className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
+
+          <RangeControl
+            label="Neighbor Radius"
+            value={params.neighborRadius}
+            min={0.01}
+            max={0.1}
+            step={0.005}
+            digits={3}
+            accent="accent-green-500"
+            onChange={(v) => handleChange('neighborRadius', v)}
+          />
+
+          {params.simulationMode === 'flow' && (
+            <>
+              <RangeControl
+                label="Separation"
+                value={params.separation}
+                min={0}
+                max={2}
+                step={0.05}
+                accent="accent-green-500"
+                onChange={(v) => handleChange('separation', v)}
+              />
+              <RangeControl
+                label="Cohesion"
+                value={params.cohesion}
+                min={0}
+                max={2}
+                step={0.05}
+                accent="accent-green-500"
+                onChange={(v) => handleChange('cohesion', v)}
+              />
+            </>
+          )}
+
+          {params.simulationMode === 'boids' && (
+            <>
+              <RangeControl
+                label="Separation"
+                value={params.boids.separation}
+                min={0}
+                max={3}
+                step={0.05}
+                accent="accent-green-500"
+                onChange={(v) => handleBoidsChange('separation', v)}
+              />
+              <RangeControl
+                label="Alignment"
+                value={params.boids.alignment}
+                min={0}
+                max={2}
+                step={0.05}
+                accent="accent-green-500"
+                onChange={(v) => handleBoidsChange('alignment', v)}
+              />
+              <RangeControl
+                label="Cohesion"
+                value={params.boids.cohesion}
+                min={0}
+                max={2}
+                step={0.05}
+                accent="accent-green-500"
+                onChange={(v) => handleBoidsChange('cohesion', v)}
+              />
+              <RangeControl
+                label="Max Speed"
+                value={params.boids.maxSpeed}
+                min={0.001}
+                max={0.02}
+                step={0.001}
+                digits={3}
+                accent="accent-cyan-500"
+                onChange={(v) => handleBoidsChange('maxSpeed', v)}
+              />
+            </>
+          )}
+
+          {params.simulationMode === 'fluid' && (
+            <>
+              <RangeControl
+                label="Rest Density"
+                value={params.fluid.restDensity}
+                min={1}
+                max={30}
+                step={0.5}
+                digits={1}
+                accent="accent-cyan-500"
+                onChange={(v) => handleFluidChange('restDensity', v)}
+              />
+              <RangeControl
+                label="Stiffness"
+                value={params.fluid.stiffness}
+                min={0}
+                max={5}
+                step={0.1}
+                digits={1}
+                accent="accent-cyan-500"
+                onChange={(v) => handleFluidChange('stiffness', v)}
+              />
+              <RangeControl
+                label="Viscosity"
+                value={params.fluid.viscosity}
+                min={0}
+                max={1}
+                step={0.01}
+                accent="accent-purple-500"
+                onChange={(v) => handleFluidChange('viscosity', v)}
+              />
+              <RangeControl
+                label="Gravity"
+                value={params.fluid.gravity}
+                min={0}
+                max={3}
+                step={0.1}
+                digits={1}
+                accent="accent-pink-500"
+                onChange={(v) => handleFluidChange('gravity', v)}
+              />
+            </>
+          )}
+        </div>
+
+        {/* Force Fields */}
+        <div className="pt-4 border-t border-gray-800 space-y-4">
+          <ForceFieldControls
+            forceFields={params.forceFields}
+            onChange={(forceFields) => onChange({ ...params, forceFields })}
+          />
+        </div>
+
+        {/* Custom Force */}
+        <div className="pt-4 border-t border-gray-800">
+          <CustomForceEditor
+            customForce={params.customForce}
+            result={compileResult}
+            onChange={(customForce) => onChange({ ...params, customForce })}
+          />
+        </div>
+
+        {/* Boundaries & Obstacles */}
+        <div className="pt-4 border-t border-gray-800">
+          <ObstacleControls
+            boundaryMode={params.boundaryMode}
+            restitution={params.restitution}
+            obstacles={params.obstacles}
+            obstacleMask={params.obstacleMask}
+            onChange={(patch) => onChange({ ...params, ...patch })}
+          />
+        </div>
+
+        {/* Emitters */}
+        <div className="pt-4 border-t border-gray-800 space-y-4">
+          <EmitterControls
+            emitters={params.emitters}
+            onChange={(emitters) => onChange({ ...params, emitters })}
+          />
+          <ToggleControl
+            label="Fade by age"
+            checked={params.fadeByAge}
+            onChange={(v) => handleChange('fadeByAge', v)}
+          />
+          <ToggleControl
+            label="Shrink by age"
+            checked={params.shrinkByAge}
+            onChange={(v) => handleChange('shrinkByAge', v)}
+          />
+        </div>
+
+        {/* Timeline */}
+        <div className="pt-4 border-t border-gray-800">
+          <TimelineEditor
+            params={params}
+            state={timelineState}
+            actions={timeline}
+            onChange={(value) => onChange({ ...params, timeline: value })}
+          />
+        </div>
+
+        {/* Touch Gestures */}
+        <div className="pt-4 border-t border-gray-800 space-y-3">
+          <label className="text-sm">Touch Gestures</label>
+          <SelectControl
+            label="Pinch"
+            options={GESTURE_TARGETS}
+            value={params.gestures.pinch}
+            onChange={(v) => handleGestureChange('pinch', v)}
+          />
+          <SelectControl
+            label="Two-finger drag"
+            options={GESTURE_TARGETS}
+            value={params.gestures.twoFingerDrag}
+            onChange={(v) => handleGestureChange('twoFingerDrag', v)}
           />
         </div>
       </div>
@@ -105,6 +460,8 @@ export const Controls: React.FC<ControlsProps> = ({ params, onChange, fps }) =>
       <div className="mt-6 pt-4 border-t border-gray-800 text-xs text-gray-500">
         <p>• Hover to create vortex</p>
         <p>• Click to repel/explode</p>
+        <p>• Touch to swirl, pen pressure sets strength</p>
+        <p>• 3D: drag to orbit, wheel to zoom, right-click to repel</p>
       </div>
     </div>
   );
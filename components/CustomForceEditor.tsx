@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CompileResult, DEFAULT_CUSTOM_FORCE, ShaderDiagnostic } from '../engine/customForce';
+import { CustomForceParams } from '../types';
+import { ToggleControl } from './FormControls';
+
+interface CustomForceEditorProps {
+  customForce: CustomForceParams;
+  result: CompileResult | null; // Of the latest compile, which may be of older code
+  onChange: (customForce: CustomForceParams) => void;
+}
+
+// Typing pauses this long, in ms, before the snippet is recompiled
+const COMPILE_DELAY = 500;
+
+const DIAGNOSTIC_COLORS: Record<GPUCompilationMessageType, string> = {
+  error: 'text-red-400',
+  warning: 'text-amber-400',
+  info: 'text-gray-400',
+};
+
+export const CustomForceEditor: React.FC<CustomForceEditorProps> = ({ customForce, result, onChange }) => {
+  const [code, setCode] = useState(customForce.code);
+  const committedRef = useRef(customForce.code);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // The panel re-renders often; the pending compile shouldn't restart each time
+  const latestRef = useRef({ customForce, onChange });
+  latestRef.current = { customForce, onChange };
+
+  // Code from elsewhere, e.g. a loaded preset, replaces the text; our own commits don't
+  useEffect(() => {
+    if (customForce.code === committedRef.current) return;
+    committedRef.current = customForce.code;
+    setCode(customForce.code);
+  }, [customForce.code]);
+
+  useEffect(() => {
+    if (code === committedRef.current) return;
+    const id = window.setTimeout(() => {
+      committedRef.current = code;
+      latestRef.current.onChange({ ...latestRef.current.customForce, code });
+    }, COMPILE_DELAY);
+    return () => window.clearTimeout(id);
+  }, [code]);
+
+  // Selects the line a diagnostic points at
+  const jumpTo = (diagnostic: ShaderDiagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea || diagnostic.line === null) return;
+    const lines = code.split('\n');
+    const start = lines.slice(0, diagnostic.line - 1).reduce((sum, line) => sum + line.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (lines[diagnostic.line - 1]?.length ?? 0));
+  };
+
+  const current = result && result.code === code ? result : null;
+  const failed = current?.diagnostics.some((d) => d.type === 'error') ?? false;
+
+  return (
+    <div className="space-y-3">
+      <ToggleControl
+        label="Custom force (WGSL)"
+        checked={customForce.enabled}
+        onChange={(enabled) => onChange({ ...customForce, enabled })}
+      />
+
+      {/* Shared presets arrive switched off, so their code can be read before it runs */}
+      {!customForce.enabled && customForce.code !== DEFAULT_CUSTOM_FORCE && (
+        <>
+          <pre className="w-full max-h-48 overflow-auto bg-gray-900 border border-gray-700 rounded px-2 py-1 font-mono text-xs text-gray-400 leading-snug">
+            {customForce.code}
+          </pre>
+          <p className="text-xs text-gray-500">
+            This preset brings its own force code. Review it, then switch it on to run it.
+          </p>
+        </>
+      )}
+
+      {customForce.enabled && (
+        <>
+          <textarea
+            ref={textareaRef}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            spellCheck={false}
+            rows={12}
+            wrap="off"
+            className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 font-mono text-xs text-gray-300 leading-snug resize-y"
+          />
+
+          <div className="flex items-center justify-between text-xs">
+            {!current && <span className="text-gray-500">Compiling…</span>}
+            {current && !failed && <span className="text-green-400">Compiled</span>}
+            {current && failed && <span className="text-red-400">Not compiled, the previous force keeps running</span>}
+            <button
+              onClick={() => setCode(DEFAULT_CUSTOM_FORCE)}
+              className="py-1 px-2 rounded border border-gray-700 text-gray-400 hover:border-gray-500 transition-all uppercase tracking-wider"
+            >
+              Example
+            </button>
+          </div>
+
+          {current && current.diagnostics.length > 0 && (
+            <ul className="space-y-1 font-mono text-xs max-h-40 overflow-y-auto">
+              {current.diagnostics.map((diagnostic, i) => (
+                <li
+                  key={i}
+                  onClick={() => jumpTo(diagnostic)}
+                  className={`${DIAGNOSTIC_COLORS[diagnostic.type]} ${diagnostic.line !== null ? 'cursor-pointer hover:underline' : ''}`}
+                >
+                  {diagnostic.line !== null ? `${diagnostic.line}:${diagnostic.column} ` : ''}
+                  {diagnostic.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Define <code>customForce(particle, params) -&gt; vec2f</code>; the result is added to each particle's forces in 2D mode. Needs WebGPU.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
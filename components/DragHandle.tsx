@@ -0,0 +1,52 @@
+import React, { useRef } from 'react';
+
+interface DragHandleProps {
+  position: [number, number]; // Clip space
+  onMove: (position: [number, number]) => void;
+  title?: string;
+  className: string;
+  children?: React.ReactNode;
+}
+
+// A marker positioned in clip space over a full-screen parent, draggable with any pointer
+export const DragHandle: React.FC<DragHandleProps> = ({ position, onMove, title, className, children }) => {
+  const draggingRef = useRef(false);
+
+  const toClipSpace = (e: React.PointerEvent<HTMLDivElement>): [number, number] => {
+    const rect = e.currentTarget.parentElement!.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
+    const y = -(((e.clientY - rect.top) / rect.height) * 2 - 1);
+    const clamp = (v: number) => Math.round(Math.min(Math.max(v, -1), 1) * 1000) / 1000;
+    return [clamp(x), clamp(y)];
+  };
+
+  const handleDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Keeps the drag from selecting text on the page
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggingRef.current = true;
+  };
+
+  const handleMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (draggingRef.current) onMove(toClipSpace(e));
+  };
+
+  const handleUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    draggingRef.current = false;
+  };
+
+  return (
+    <div
+      onPointerDown={handleDown}
+      onPointerMove={handleMove}
+      onPointerUp={handleUp}
+      onPointerCancel={handleUp}
+      title={title}
+      className={`absolute -translate-x-1/2 -translate-y-1/2 pointer-events-auto cursor-move touch-none ${className}`}
+      style={{ left: `${(position[0] + 1) * 50}%`, top: `${(1 - position[1]) * 50}%` }}
+    >
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React from 'react';
+import { createEmitter, MAX_EMITTERS } from '../engine/emitters';
+import { EmitterConfig, EmitterShape } from '../types';
+import { RangeControl, SelectButtons, ToggleControl } from './FormControls';
+
+interface EmitterControlsProps {
+  emitters: EmitterConfig[];
+  onChange: (emitters: EmitterConfig[]) => void;
+}
+
+const SHAPES: readonly EmitterShape[] = ['point', 'line', 'circle', 'rectangle'];
+
+export const EmitterControls: React.FC<EmitterControlsProps> = ({ emitters, onChange }) => {
+  const update = (index: number, patch: Partial<EmitterConfig>) => {
+    onChange(emitters.map((e, i) => (i === index ? { ...e, ...patch } : e)));
+  };
+
+  const remove = (index: number) => {
+    onChange(emitters.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center text-sm">
+        <label>Emitters</label>
+        <button
+          onClick={() => onChange([...emitters, createEmitter('point')])}
+          disabled={emitters.length >= MAX_EMITTERS}
+          className="py-0.5 px-2 text-xs rounded border border-gray-700 text-gray-400 hover:border-gray-500 disabled:opacity-40 transition-all uppercase tracking-wider"
+        >
+          + Add
+        </button>
+      </div>
+
+      {emitters.map((emitter, i) => (
+        <div key={i} className="space-y-3 p-3 rounded border border-gray-800">
+          <div className="flex justify-between items-center">
+            <ToggleControl
+              label={`Emitter ${i + 1}`}
+              checked={emitter.enabled}
+              onChange={(enabled) => update(i, { enabled })}
+            />
+            <button onClick={() => remove(i)} className="text-xs text-gray-500 hover:text-red-400">
+              Remove
+            </button>
+          </div>
+
+          <SelectButtons
+            options={SHAPES}
+            value={emitter.shape}
+            onChange={(shape) => update(i, { shape, size: createEmitter(shape).size })}
+          />
+
+          <RangeControl
+            label="Position X"
+            value={emitter.position[0]}
+            min={-1}
+            max={1}
+            step={0.01}
+            accent="accent-cyan-500"
+            onChange={(x) => update(i, { position: [x, emitter.position[1]] })}
+          />
+          <RangeControl
+            label="Position Y"
+            value={emitter.position[1]}
+            min={-1}
+            max={1}
+            step={0.01}
+            accent="accent-cyan-500"
+            onChange={(y) => update(i, { position: [emitter.position[0], y] })}
+          />
+          {emitter.shape !== 'point' && (
+            <RangeControl
+              label={emitter.shape === 'circle' ? 'Radius' : 'Width'}
+              value={emitter.size[0]}
+              min={0}
+              max={1}
+              step={0.01}
+              accent="accent-cyan-500"
+              onChange={(w) => update(i, { size: [w, emitter.size[1]] })}
+            />
+          )}
+          {(emitter.shape === 'line' || emitter.shape === 'rectangle') && (
+            <RangeControl
+              label="Height"
+              value={emitter.size[1]}
+              min={0}
+              max={1}
+              step={0.01}
+              accent="accent-cyan-500"
+              onChange={(h) => update(i, { size: [emitter.size[0], h] })}
+            />
+          )}
+          <RangeControl
+            label="Rate"
+            value={emitter.rate}
+            format={(v) => `${v.toLocaleString()}/s`}
+            min={0}
+            max={20000}
+            step={100}
+            accent="accent-green-500"
+            onChange={(rate) => update(i, { rate })}
+          />
+          <RangeControl
+            label="Direction"
+            value={emitter.direction}
+            format={(v) => `${v}°`}
+            min={0}
+            max={360}
+            step={1}
+            accent="accent-purple-500"
+            onChange={(direction) => update(i, { direction })}
+          />
+          <RangeControl
+            label="Spread"
+            value={emitter.spread}
+            format={(v) => `${v}°`}
+            min={0}
+            max={180}
+            step={1}
+            accent="accent-purple-500"
+            onChange={(spread) => update(i, { spread })}
+          />
+          <RangeControl
+            label="Speed"
+            value={emitter.speed[1]}
+            digits={3}
+            min={0}
+            max={0.05}
+            step={0.001}
+            accent="accent-pink-500"
+            onChange={(max) => update(i, { speed: [max / 3, max] })}
+          />
+          <RangeControl
+            label="Lifetime"
+            value={emitter.lifetime}
+            format={(v) => `${v.toFixed(1)}s`}
+            min={0.1}
+            max={10}
+            step={0.1}
+            accent="accent-pink-500"
+            onChange={(lifetime) => update(i, { lifetime })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
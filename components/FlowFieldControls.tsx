@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { parseVectorFieldJson, vectorFieldFromImage } from '../engine/vectorField';
+import { FlowFieldParams, FlowFieldType } from '../types';
+import { RangeControl, SelectButtons } from './FormControls';
+
+interface FlowFieldControlsProps {
+  flowField: FlowFieldParams;
+  onChange: (flowField: FlowFieldParams) => void;
+}
+
+const TYPES: readonly FlowFieldType[] = ['classic', 'curl', 'simplex', 'texture'];
+
+export const FlowFieldControls: React.FC<FlowFieldControlsProps> = ({ flowField, onChange }) => {
+  const [loadError, setLoadError] = useState('');
+
+  const update = (patch: Partial<FlowFieldParams>) => {
+    onChange({ ...flowField, ...patch });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const texture = file.type === 'application/json' || file.name.endsWith('.json')
+        ? parseVectorFieldJson(await file.text())
+        : await vectorFieldFromImage(file);
+      setLoadError('');
+      update({ texture });
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Could not load the vector field.');
+    }
+  };
+
+  const isNoise = flowField.type === 'curl' || flowField.type === 'simplex';
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <label className="text-sm">Flow Field</label>
+        <SelectButtons
+          options={TYPES}
+          value={flowField.type}
+          onChange={(type) => update({ type })}
+        />
+      </div>
+
+      {flowField.type !== 'texture' && (
+        <RangeControl
+          label="Frequency"
+          value={flowField.frequency}
+          min={0.5}
+          max={10}
+          step={0.1}
+          digits={1}
+          accent="accent-cyan-500"
+          onChange={(frequency) => update({ frequency })}
+        />
+      )}
+
+      {isNoise && (
+        <RangeControl
+          label="Octaves"
+          value={flowField.octaves}
+          min={1}
+          max={6}
+          step={1}
+          digits={0}
+          accent="accent-cyan-500"
+          onChange={(octaves) => update({ octaves })}
+        />
+      )}
+
+      {flowField.type !== 'texture' && (
+        <RangeControl
+          label="Evolution"
+          value={flowField.evolution}
+          min={0}
+          max={2}
+          step={0.05}
+          accent="accent-purple-500"
+          onChange={(evolution) => update({ evolution })}
+        />
+      )}
+
+      {flowField.type === 'texture' && (
+        <div className="space-y-2 text-sm">
+          <label className="block py-1 px-2 text-xs text-center rounded border border-gray-700 text-gray-400 hover:border-gray-500 cursor-pointer uppercase tracking-wider">
+            Load image / JSON
+            <input type="file" accept="image/*,.json,application/json" onChange={handleFile} className="hidden" />
+          </label>
+          <p className="text-xs text-gray-500">
+            {flowField.texture
+              ? `${flowField.texture.width}x${flowField.texture.height} field loaded`
+              : 'No field loaded, using the classic pattern. Images map red to x and green to y.'}
+          </p>
+          {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
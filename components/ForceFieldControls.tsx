@@ -0,0 +1,102 @@
+import React from 'react';
+import { createForceField, MAX_FORCE_FIELDS } from '../engine/forceFields';
+import { ForceFalloff, ForceFieldConfig, ForceFieldType } from '../types';
+import { RangeControl, SelectButtons, ToggleControl } from './FormControls';
+
+interface ForceFieldControlsProps {
+  forceFields: ForceFieldConfig[];
+  onChange: (forceFields: ForceFieldConfig[]) => void;
+}
+
+const TYPES: readonly ForceFieldType[] = ['attractor', 'repeller', 'vortex', 'wind', 'drag'];
+const FALLOFFS: readonly ForceFalloff[] = ['constant', 'linear', 'smooth'];
+
+export const ForceFieldControls: React.FC<ForceFieldControlsProps> = ({ forceFields, onChange }) => {
+  const update = (index: number, patch: Partial<ForceFieldConfig>) => {
+    onChange(forceFields.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+  };
+
+  const remove = (index: number) => {
+    onChange(forceFields.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center text-sm">
+        <label>Force Fields</label>
+        <button
+          onClick={() => onChange([...forceFields, createForceField('attractor')])}
+          disabled={forceFields.length >= MAX_FORCE_FIELDS}
+          className="py-0.5 px-2 text-xs rounded border border-gray-700 text-gray-400 hover:border-gray-500 disabled:opacity-40 transition-all uppercase tracking-wider"
+        >
+          + Add
+        </button>
+      </div>
+      {forceFields.length > 0 && (
+        <p className="text-xs text-gray-500">Drag the markers on the canvas to move fields.</p>
+      )}
+
+      {forceFields.map((field, i) => (
+        <div key={i} className="space-y-3 p-3 rounded border border-gray-800">
+          <div className="flex justify-between items-center">
+            <ToggleControl
+              label={`Field ${i + 1}`}
+              checked={field.enabled}
+              onChange={(enabled) => update(i, { enabled })}
+            />
+            <button onClick={() => remove(i)} className="text-xs text-gray-500 hover:text-red-400">
+              Remove
+            </button>
+          </div>
+
+          <SelectButtons
+            options={TYPES}
+            value={field.type}
+            onChange={(type) => update(i, { ...createForceField(type), enabled: field.enabled, position: field.position })}
+          />
+
+          <RangeControl
+            label="Radius"
+            value={field.radius}
+            min={0.05}
+            max={2}
+            step={0.01}
+            accent="accent-purple-500"
+            onChange={(radius) => update(i, { radius })}
+          />
+          <RangeControl
+            label="Strength"
+            value={field.strength}
+            digits={1}
+            min={0}
+            max={10}
+            step={0.1}
+            accent="accent-pink-500"
+            onChange={(strength) => update(i, { strength })}
+          />
+          {field.type === 'wind' && (
+            <RangeControl
+              label="Direction"
+              value={field.direction}
+              format={(v) => `${v}°`}
+              min={0}
+              max={360}
+              step={1}
+              accent="accent-purple-500"
+              onChange={(direction) => update(i, { direction })}
+            />
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm">Falloff</label>
+            <SelectButtons
+              options={FALLOFFS}
+              value={field.falloff}
+              onChange={(falloff) => update(i, { falloff })}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { ForceFieldConfig, ForceFieldType } from '../types';
+import { DragHandle } from './DragHandle';
+
+interface ForceFieldOverlayProps {
+  forceFields: ForceFieldConfig[];
+  onChange: (forceFields: ForceFieldConfig[]) => void;
+}
+
+const TYPE_COLORS: Record<ForceFieldType, string> = {
+  attractor: 'border-cyan-400 text-cyan-400',
+  repeller: 'border-pink-400 text-pink-400',
+  vortex: 'border-purple-400 text-purple-400',
+  wind: 'border-green-400 text-green-400',
+  drag: 'border-amber-400 text-amber-400',
+};
+
+// Draggable markers for the force fields, laid over the canvas in clip space
+export const ForceFieldOverlay: React.FC<ForceFieldOverlayProps> = ({ forceFields, onChange }) => {
+  const move = (index: number, position: [number, number]) => {
+    onChange(forceFields.map((f, i) => (i === index ? { ...f, position } : f)));
+  };
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-[1]">
+      {forceFields.map((field, i) => {
+        // The radius is aspect-corrected, so it is measured in viewport heights
+        const diameter = `${field.radius * 100}vh`;
+
+        return (
+          <React.Fragment key={i}>
+            <div
+              className={`absolute rounded-full border border-dashed -translate-x-1/2 -translate-y-1/2 ${TYPE_COLORS[field.type]} ${
+                field.enabled ? 'opacity-30' : 'opacity-10'
+              }`}
+              style={{
+                left: `${(field.position[0] + 1) * 50}%`,
+                top: `${(1 - field.position[1]) * 50}%`,
+                width: diameter,
+                height: diameter,
+              }}
+            />
+            <DragHandle
+              position={field.position}
+              onMove={(position) => move(i, position)}
+              title={`${field.type} ${i + 1}`}
+              className={`w-5 h-5 rounded-full border-2 bg-black/60 flex items-center justify-center text-[9px] font-bold ${
+                TYPE_COLORS[field.type]
+              } ${field.enabled ? '' : 'opacity-40'}`}
+            >
+              {field.type === 'wind' ? (
+                <span style={{ transform: `rotate(${-field.direction}deg)` }}>→</span>
+              ) : (
+                i + 1
+              )}
+            </DragHandle>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+
+export interface RangeControlProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  digits?: number;
+  format?: (value: number) => string;
+  accent: string;
+  onChange: (value: number) => void;
+}
+
+export const RangeControl: React.FC<RangeControlProps> = ({ label, value, min, max, step, digits = 2, format, accent, onChange }) => (
+  <div className="space-y-2">
+    <div className="flex justify-between text-sm">
+      <label>{label}</label>
+      <span className="text-gray-400">{format ? format(value) : value.toFixed(digits)}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className={`w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer ${accent}`}
+    />
+  </div>
+);
+
+interface ToggleControlProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+export const ToggleControl: React.FC<ToggleControlProps> = ({ label, checked, onChange }) => (
+  <label className="flex justify-between items-center text-sm cursor-pointer">
+    <span>{label}</span>
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="accent-cyan-500"
+    />
+  </label>
+);
+
+interface SelectButtonsProps<T extends string> {
+  options: readonly T[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+export const SelectButtons = <T extends string>({ options, value, onChange }: SelectButtonsProps<T>) => (
+  <div className="flex flex-wrap gap-2">
+    {options.map((option) => (
+      <button
+        key={option}
+        onClick={() => onChange(option)}
+        className={`flex-1 py-1 px-2 text-xs rounded border transition-all ${
+          value === option
+            ? 'bg-gray-700 border-cyan-500 text-cyan-400 shadow-[0_0_10px_rgba(34,211,238,0.2)]'
+            : 'bg-transparent border-gray-700 text-gray-400 hover:border-gray-500'
+        } uppercase tracking-wider`}
+      >
+        {option}
+      </button>
+    ))}
+  </div>
+);
+
+interface SelectControlProps<T extends string> {
+  label: string;
+  options: Record<T, string>; // Value to display name
+  value: T;
+  onChange: (value: T) => void;
+}
+
+export const SelectControl = <T extends string>({ label, options, value, onChange }: SelectControlProps<T>) => (
+  <label className="flex justify-between items-center gap-2 text-sm">
+    <span>{label}</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as T)}
+      className="bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-xs text-gray-300"
+    >
+      {(Object.keys(options) as T[]).map((option) => (
+        <option key={option} value={option}>
+          {options[option]}
+        </option>
+      ))}
+    </select>
+  </label>
+);
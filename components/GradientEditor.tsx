@@ -0,0 +1,80 @@
+import React from 'react';
+import { MAX_GRADIENT_STOPS, rgbToHex, sampleGradient } from '../engine/colorSchemes';
+import { GradientStop } from '../types';
+
+interface GradientEditorProps {
+  stops: GradientStop[];
+  onChange: (stops: GradientStop[]) => void;
+}
+
+// Middle of the widest gap between neighboring stops
+const nextStopPosition = (stops: GradientStop[]): number => {
+  const positions = [0, ...stops.map((s) => s.position).sort((a, b) => a - b), 1];
+  let best = 0.5;
+  let widest = -1;
+  for (let i = 1; i < positions.length; i++) {
+    if (positions[i] - positions[i - 1] > widest) {
+      widest = positions[i] - positions[i - 1];
+      best = (positions[i] + positions[i - 1]) / 2;
+    }
+  }
+  return Math.round(best * 100) / 100;
+};
+
+export const GradientEditor: React.FC<GradientEditorProps> = ({ stops, onChange }) => {
+  const update = (index: number, patch: Partial<GradientStop>) => {
+    onChange(stops.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  const add = () => {
+    const position = nextStopPosition(stops);
+    onChange([...stops, { position, color: rgbToHex(sampleGradient(stops, position)) }]);
+  };
+
+  const preview = [...stops]
+    .sort((a, b) => a.position - b.position)
+    .map((s) => `${s.color} ${s.position * 100}%`)
+    .join(', ');
+
+  return (
+    <div className="space-y-2">
+      <div className="h-3 rounded border border-gray-700" style={{ background: `linear-gradient(to right, ${preview})` }} />
+
+      {stops.map((stop, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <input
+            type="color"
+            value={stop.color}
+            onChange={(e) => update(i, { color: e.target.value })}
+            className="w-6 h-6 p-0 bg-transparent border-0 cursor-pointer"
+          />
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={stop.position}
+            onChange={(e) => update(i, { position: parseFloat(e.target.value) })}
+            className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+          />
+          <span className="w-8 text-right text-xs text-gray-400">{stop.position.toFixed(2)}</span>
+          <button
+            onClick={() => onChange(stops.filter((_, j) => j !== i))}
+            disabled={stops.length <= 2}
+            className="text-xs text-gray-500 hover:text-red-400 disabled:opacity-40 disabled:hover:text-gray-500"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={add}
+        disabled={stops.length >= MAX_GRADIENT_STOPS}
+        className="w-full py-1 px-2 text-xs rounded border border-gray-700 text-gray-400 hover:border-gray-500 disabled:opacity-40 transition-all uppercase tracking-wider"
+      >
+        + Stop
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { distanceFieldFromImage } from '../engine/distanceField';
+import { createObstacle, MAX_OBSTACLES } from '../engine/obstacles';
+import { BoundaryMode, DistanceFieldGrid, ObstacleConfig, ObstacleShape } from '../types';
+import { RangeControl, SelectButtons, ToggleControl } from './FormControls';
+
+interface ObstacleControlsProps {
+  boundaryMode: BoundaryMode;
+  restitution: number;
+  obstacles: ObstacleConfig[];
+  obstacleMask: DistanceFieldGrid | null;
+  onChange: (patch: {
+    boundaryMode?: BoundaryMode;
+    restitution?: number;
+    obstacles?: ObstacleConfig[];
+    obstacleMask?: DistanceFieldGrid | null;
+  }) => void;
+}
+
+const BOUNDARY_MODES: readonly BoundaryMode[] = ['wrap', 'bounce', 'kill', 'open'];
+const SHAPES: readonly ObstacleShape[] = ['circle', 'box', 'polyline'];
+
+export const ObstacleControls: React.FC<ObstacleControlsProps> = ({ boundaryMode, restitution, obstacles, obstacleMask, onChange }) => {
+  const [loadError, setLoadError] = useState('');
+
+  const update = (index: number, patch: Partial<ObstacleConfig>) => {
+    onChange({ obstacles: obstacles.map((o, i) => (i === index ? { ...o, ...patch } : o)) });
+  };
+
+  const remove = (index: number) => {
+    onChange({ obstacles: obstacles.filter((_, i) => i !== index) });
+  };
+
+  const handleMask = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onChange({ obstacleMask: await distanceFieldFromImage(file) });
+      setLoadError('');
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Could not load the mask.');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm">Boundary</label>
+        <SelectButtons
+          options={BOUNDARY_MODES}
+          value={boundaryMode}
+          onChange={(mode) => onChange({ boundaryMode: mode })}
+        />
+      </div>
+
+      <RangeControl
+        label="Restitution"
+        value={restitution}
+        min={0}
+        max={1}
+        step={0.05}
+        accent="accent-pink-500"
+        onChange={(v) => onChange({ restitution: v })}
+      />
+
+      <div className="flex justify-between items-center text-sm">
+        <label>Obstacles</label>
+        <button
+          onClick={() => onChange({ obstacles: [...obstacles, createObstacle('circle')] })}
+          disabled={obstacles.length >= MAX_OBSTACLES}
+          className="py-0.5 px-2 text-xs rounded border border-gray-700 text-gray-400 hover:border-gray-500 disabled:opacity-40 transition-all uppercase tracking-wider"
+        >
+          + Add
+        </button>
+      </div>
+
+      {obstacles.map((obstacle, i) => (
+        <div key={i} className="space-y-3 p-3 rounded border border-gray-800">
+          <div className="flex justify-between items-center">
+            <ToggleControl
+              label={`Obstacle ${i + 1}`}
+              checked={obstacle.enabled}
+              onChange={(enabled) => update(i, { enabled })}
+            />
+            <button onClick={() => remove(i)} className="text-xs text-gray-500 hover:text-red-400">
+              Remove
+            </button>
+          </div>
+
+          <SelectButtons
+            options={SHAPES}
+            value={obstacle.shape}
+            onChange={(shape) => update(i, { ...createObstacle(shape), enabled: obstacle.enabled, position: obstacle.position })}
+          />
+
+          <RangeControl
+            label={obstacle.shape === 'circle' ? 'Radius' : obstacle.shape === 'box' ? 'Width' : 'Thickness'}
+            value={obstacle.size[0]}
+            min={obstacle.shape === 'polyline' ? 0 : 0.01}
+            max={obstacle.shape === 'polyline' ? 0.1 : 1}
+            step={0.005}
+            digits={3}
+            accent="accent-purple-500"
+            onChange={(v) => update(i, { size: [v, obstacle.size[1]] })}
+          />
+          {obstacle.shape === 'box' && (
+            <>
+              <RangeControl
+                label="Height"
+                value={obstacle.size[1]}
+                min={0.01}
+                max={1}
+                step={0.005}
+                digits={3}
+                accent="accent-purple-500"
+                onChange={(v) => update(i, { size: [obstacle.size[0], v] })}
+              />
+              <RangeControl
+                label="Rotation"
+                value={obstacle.rotation}
+                format={(v) => `${v}°`}
+                min={0}
+                max={180}
+                step={1}
+                accent="accent-purple-500"
+                onChange={(rotation) => update(i, { rotation })}
+              />
+            </>
+          )}
+          {obstacle.shape === 'polyline' && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  const [x, y] = obstacle.points[obstacle.points.length - 1] ?? [0, 0];
+                  update(i, { points: [...obstacle.points, [x + 0.1, y]] });
+                }}
+                className="flex-1 py-1 px-2 text-xs rounded border border-gray-700 text-gray-400 hover:border-gray-500 transition-all uppercase tracking-wider"
+              >
+                + Point
+              </button>
+              <button
+                onClick={() => update(i, { points: obstacle.points.slice(0, -1) })}
+                disabled={obstacle.points.length <= 2}
+                className="flex-1 py-1 px-2 text-xs rounded border border-gray-700 text-gray-400 hover:border-gray-500 disabled:opacity-40 transition-all uppercase tracking-wider"
+              >
+                − Point
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="space-y-2 text-sm">
+        <div className="flex gap-2">
+          <label className="flex-1 py-1 px-2 text-xs text-center rounded border border-gray-700 text-gray-400 hover:border-gray-500 cursor-pointer uppercase tracking-wider">
+            Load mask
+            <input type="file" accept="image/*" onChange={handleMask} className="hidden" />
+          </label>
+          {obstacleMask && (
+            <button
+              onClick={() => onChange({ obstacleMask: null })}
+              className="py-1 px-2 text-xs rounded border border-gray-700 text-gray-400 hover:border-gray-500 transition-all uppercase tracking-wider"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">
+          {obstacleMask
+            ? `${obstacleMask.width}x${obstacleMask.height} mask loaded`
+            : 'Bright, opaque pixels of the image become solid.'}
+        </p>
+        {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+      </div>
+    </div>
+  );
+};
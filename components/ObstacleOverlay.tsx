@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { ObstacleConfig } from '../types';
+import { DragHandle } from './DragHandle';
+
+interface ObstacleOverlayProps {
+  obstacles: ObstacleConfig[];
+  onChange: (obstacles: ObstacleConfig[]) => void;
+}
+
+const useViewportAspect = () => {
+  const [aspect, setAspect] = useState(() => window.innerWidth / Math.max(window.innerHeight, 1));
+  useEffect(() => {
+    const handleResize = () => setAspect(window.innerWidth / Math.max(window.innerHeight, 1));
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+  return aspect;
+};
+
+// Box corners in clip space; size and rotation live in aspect-corrected space
+const boxCorners = (o: ObstacleConfig, aspect: number): [number, number][] => {
+  const a = (o.rotation * Math.PI) / 180;
+  const c = Math.cos(a);
+  const s = Math.sin(a);
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => {
+    const lx = sx * o.size[0];
+    const ly = sy * o.size[1];
+    return [o.position[0] + (c * lx - s * ly) / aspect, o.position[1] + s * lx + c * ly];
+  });
+};
+
+// Obstacle outlines with draggable centers and polyline vertices, laid over the canvas
+export const ObstacleOverlay: React.FC<ObstacleOverlayProps> = ({ obstacles, onChange }) => {
+  const aspect = useViewportAspect();
+
+  const update = (index: number, patch: Partial<ObstacleConfig>) => {
+    onChange(obstacles.map((o, i) => (i === index ? { ...o, ...patch } : o)));
+  };
+
+  const movePoint = (index: number, point: number, [x, y]: [number, number]) => {
+    const o = obstacles[index];
+    const points = o.points.map((p, i): [number, number] => (i === point ? [x - o.position[0], y - o.position[1]] : p));
+    update(index, { points });
+  };
+
+  const stroke = (o: ObstacleConfig) => ({
+    fill: 'rgba(255,255,255,0.04)',
+    stroke: o.enabled ? 'rgba(255,255,255,0.5)' : 'rgba(255,255,255,0.15)',
+    strokeWidth: 1.5,
+    vectorEffect: 'non-scaling-stroke' as const,
+  });
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-[1]">
+      {/* Clip space, y up */}
+      <svg className="absolute inset-0 w-full h-full" viewBox="-1 -1 2 2" preserveAspectRatio="none">
+        <g transform="scale(1,-1)">
+          {obstacles.map((o, i) => {
+            if (o.shape === 'circle') {
+              return <ellipse key={i} cx={o.position[0]} cy={o.position[1]} rx={o.size[0] / aspect} ry={o.size[0]} {...stroke(o)} />;
+            }
+            if (o.shape === 'box') {
+              return <polygon key={i} points={boxCorners(o, aspect).map((p) => p.join(',')).join(' ')} {...stroke(o)} />;
+            }
+            const points = o.points.map(([x, y]) => `${o.position[0] + x},${o.position[1] + y}`).join(' ');
+            return <polyline key={i} points={points} {...stroke(o)} fill="none" />;
+          })}
+        </g>
+      </svg>
+
+      {obstacles.map((o, i) => (
+        <React.Fragment key={i}>
+          <DragHandle
+            position={o.position}
+            onMove={(position) => update(i, { position })}
+            title={`${o.shape} ${i + 1}`}
+            className={`w-4 h-4 rounded-sm border-2 border-white/70 bg-black/60 ${o.enabled ? '' : 'opacity-40'}`}
+          />
+          {o.shape === 'polyline' && o.points.map(([x, y], p) => (
+            <DragHandle
+              key={p}
+              position={[o.position[0] + x, o.position[1] + y]}
+              onMove={(position) => movePoint(i, p, position)}
+              className="w-2.5 h-2.5 rounded-full bg-white/70"
+            />
+          ))}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { spriteAtlasFromImage } from '../engine/spriteAtlas';
+import { ParticleShape, ParticleStyle, SpriteFrameMode } from '../types';
+import { RangeControl, SelectButtons } from './FormControls';
+
+interface ParticleStyleControlsProps {
+  particleStyle: ParticleStyle;
+  onChange: (particleStyle: ParticleStyle) => void;
+}
+
+const SHAPES: readonly ParticleShape[] = ['disc', 'streak', 'sprite'];
+const FRAME_MODES: readonly SpriteFrameMode[] = ['random', 'age'];
+
+export const ParticleStyleControls: React.FC<ParticleStyleControlsProps> = ({ particleStyle, onChange }) => {
+  const [loadError, setLoadError] = useState('');
+
+  const update = (patch: Partial<ParticleStyle>) => {
+    onChange({ ...particleStyle, ...patch });
+  };
+
+  const handleAtlas = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const atlas = await spriteAtlasFromImage(file);
+      setLoadError('');
+      update({ atlas });
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Could not load the atlas.');
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <label className="text-sm">Particle Shape</label>
+        <SelectButtons
+          options={SHAPES}
+          value={particleStyle.shape}
+          onChange={(shape) => update({ shape })}
+        />
+      </div>
+
+      <RangeControl
+        label="Size"
+        value={particleStyle.size}
+        format={(v) => `${v.toFixed(1)}px`}
+        min={0.5}
+        max={32}
+        step={0.5}
+        accent="accent-green-500"
+        onChange={(size) => update({ size })}
+      />
+
+      <RangeControl
+        label="Size by Speed"
+        value={particleStyle.sizeBySpeed}
+        min={0}
+        max={1}
+        step={0.05}
+        accent="accent-green-500"
+        onChange={(sizeBySpeed) => update({ sizeBySpeed })}
+      />
+
+      {particleStyle.shape === 'streak' && (
+        <RangeControl
+          label="Streak Length"
+          value={particleStyle.streakLength}
+          format={(v) => `${v.toFixed(1)} frames`}
+          min={0.5}
+          max={20}
+          step={0.5}
+          accent="accent-cyan-500"
+          onChange={(streakLength) => update({ streakLength })}
+        />
+      )}
+
+      {particleStyle.shape === 'sprite' && (
+        <div className="space-y-4 text-sm">
+          <div className="flex gap-2">
+            <label className="flex-1 py-1 px-2 text-xs text-center rounded border border-gray-700 text-gray-400 hover:border-gray-500 cursor-pointer uppercase tracking-wider">
+              Load atlas
+              <input type="file" accept="image/*" onChange={handleAtlas} className="hidden" />
+            </label>
+            {particleStyle.atlas && (
+              <button
+                onClick={() => update({ atlas: null })}
+                className="py-1 px-2 text-xs rounded border border-gray-700 text-gray-400 hover:border-gray-500 transition-all uppercase tracking-wider"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            {particleStyle.atlas
+              ? `${particleStyle.atlas.width}x${particleStyle.atlas.height} atlas loaded`
+              : 'No atlas loaded, drawing discs. Sprites are tinted by the particle color.'}
+          </p>
+          {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+
+          <RangeControl
+            label="Columns"
+            value={particleStyle.atlasColumns}
+            min={1}
+            max={16}
+            step={1}
+            digits={0}
+            accent="accent-purple-500"
+            onChange={(atlasColumns) => update({ atlasColumns })}
+          />
+          <RangeControl
+            label="Rows"
+            value={particleStyle.atlasRows}
+            min={1}
+            max={16}
+            step={1}
+            digits={0}
+            accent="accent-purple-500"
+            onChange={(atlasRows) => update({ atlasRows })}
+          />
+
+          <div className="space-y-2">
+            <label className="text-sm">Frame</label>
+            <SelectButtons
+              options={FRAME_MODES}
+              value={particleStyle.frameMode}
+              onChange={(frameMode) => update({ frameMode })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { FRAME_HISTORY, PerformanceStats } from '../engine/PerformanceMonitor';
+
+interface PerformanceHudProps {
+  stats: PerformanceStats;
+}
+
+const GRAPH_WIDTH = 160;
+const GRAPH_HEIGHT = 40;
+// Frame time of a 60 Hz display, drawn as a reference line
+const TARGET_FRAME_TIME = 1000 / 60;
+
+const formatMs = (ms: number | null) => (ms === null ? 'n/a' : `${ms.toFixed(2)} ms`);
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+
+export const PerformanceHud: React.FC<PerformanceHudProps> = ({ stats }) => {
+  // The scale grows with spikes but always shows two 60 Hz frames
+  const maxTime = Math.max(TARGET_FRAME_TIME * 2, ...stats.frameTimes);
+  const y = (ms: number) => GRAPH_HEIGHT - (ms / maxTime) * GRAPH_HEIGHT;
+  const points = stats.frameTimes
+    .map((ms, i) => `${((i + FRAME_HISTORY - stats.frameTimes.length) / (FRAME_HISTORY - 1)) * GRAPH_WIDTH},${y(ms)}`)
+    .join(' ');
+
+  const rows: [string, string][] = [
+    ['p50 / p95 / p99', `${stats.p50.toFixed(1)} / ${stats.p95.toFixed(1)} / ${stats.p99.toFixed(1)} ms`],
+    ['CPU', formatMs(stats.cpuTime)],
+    ['GPU compute', formatMs(stats.gpuCompute)],
+    ['GPU render', formatMs(stats.gpuRender)],
+    ['Buffers', formatBytes(stats.memory.buffers)],
+    ['Textures', formatBytes(stats.memory.textures)],
+  ];
+
+  return (
+    <div className="absolute bottom-4 left-4 w-48 bg-black/70 border border-gray-800 rounded-lg p-3 font-mono text-xs text-gray-400 pointer-events-none z-10">
+      <div className="flex justify-between items-baseline mb-2">
+        <span className="text-green-400">{Math.round(stats.fps)} FPS</span>
+        <span>{stats.particleCount.toLocaleString()}</span>
+      </div>
+
+      <svg width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className="block mb-2">
+        <line
+          x1={0}
+          x2={GRAPH_WIDTH}
+          y1={y(TARGET_FRAME_TIME)}
+          y2={y(TARGET_FRAME_TIME)}
+          className="stroke-gray-700"
+          strokeDasharray="2 2"
+        />
+        <polyline points={points} fill="none" className="stroke-cyan-400" strokeWidth={1} />
+      </svg>
+
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-2">
+          <span className="text-gray-500">{label}</span>
+          <span>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { PostProcessParams, TonemapMode } from '../types';
+import { RangeControl, SelectButtons, ToggleControl } from './FormControls';
+
+interface PostProcessControlsProps {
+  postProcess: PostProcessParams;
+  onChange: (postProcess: PostProcessParams) => void;
+}
+
+const TONEMAPS: readonly TonemapMode[] = ['none', 'reinhard', 'aces'];
+
+export const PostProcessControls: React.FC<PostProcessControlsProps> = ({ postProcess, onChange }) => {
+  const update = (patch: Partial<PostProcessParams>) => {
+    onChange({ ...postProcess, ...patch });
+  };
+
+  return (
+    <div className="space-y-4">
+      <ToggleControl
+        label="Trails"
+        checked={postProcess.trails}
+        onChange={(trails) => update({ trails })}
+      />
+      {postProcess.trails && (
+        <RangeControl
+          label="Trail Decay"
+          value={postProcess.trailDecay}
+          min={0.5}
+          max={0.99}
+          step={0.01}
+          accent="accent-cyan-500"
+          onChange={(trailDecay) => update({ trailDecay })}
+        />
+      )}
+
+      <ToggleControl
+        label="Bloom"
+        checked={postProcess.bloom}
+        onChange={(bloom) => update({ bloom })}
+      />
+      {postProcess.bloom && (
+        <>
+          <RangeControl
+            label="Threshold"
+            value={postProcess.bloomThreshold}
+            min={0}
+            max={3}
+            step={0.05}
+            accent="accent-purple-500"
+            onChange={(bloomThreshold) => update({ bloomThreshold })}
+          />
+          <RangeControl
+            label="Intensity"
+            value={postProcess.bloomIntensity}
+            min={0}
+            max={3}
+            step={0.05}
+            accent="accent-purple-500"
+            onChange={(bloomIntensity) => update({ bloomIntensity })}
+          />
+        </>
+      )}
+
+      <div className="space-y-2">
+        <label className="text-sm">Tonemapping</label>
+        <SelectButtons
+          options={TONEMAPS}
+          value={postProcess.tonemap}
+          onChange={(tonemap) => update({ tonemap })}
+        />
+      </div>
+
+      <RangeControl
+        label="Exposure"
+        value={postProcess.exposure}
+        min={0.1}
+        max={4}
+        step={0.05}
+        accent="accent-pink-500"
+        onChange={(exposure) => update({ exposure })}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { downloadBlob } from '../engine/capture';
+import {
+  BUILT_IN_PRESETS,
+  encodePresetHash,
+  exportPresetJson,
+  importPresetJson,
+  loadSavedPresets,
+  Preset,
+  storeSavedPresets,
+} from '../engine/presets';
+import { SimulationParams } from '../types';
+
+interface PresetControlsProps {
+  params: SimulationParams;
+  onChange: (params: SimulationParams) => void;
+}
+
+const buttonClass =
+  'flex-1 py-1 px-2 text-xs text-center rounded border border-gray-700 text-gray-400 hover:border-gray-500 disabled:opacity-40 transition-all uppercase tracking-wider';
+
+// Select values: `b:<index>` for built-in presets, `s:<index>` for saved ones
+const presetKey = (saved: boolean, index: number) => `${saved ? 's' : 'b'}:${index}`;
+
+export const PresetControls: React.FC<PresetControlsProps> = ({ params, onChange }) => {
+  const [saved, setSaved] = useState<Preset[]>(loadSavedPresets);
+  const [selected, setSelected] = useState(presetKey(false, 0));
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const report = (text: string, failed = false) => {
+    setMessage(failed ? '' : text);
+    setError(failed ? text : '');
+  };
+
+  const [group, index] = selected.split(':');
+  const selectedPreset = group === 's' ? saved[Number(index)] : BUILT_IN_PRESETS[Number(index)];
+
+  const updateSaved = (presets: Preset[]) => {
+    try {
+      storeSavedPresets(presets);
+      setSaved(presets);
+      return true;
+    } catch (error) {
+      report(error instanceof Error ? `Could not save: ${error.message}` : 'Could not save.', true);
+      return false;
+    }
+  };
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    // Saving under an existing name overwrites that preset
+    const existing = saved.findIndex((p) => p.name === trimmed);
+    const presets = existing >= 0
+      ? saved.map((p, i) => (i === existing ? { name: trimmed, params } : p))
+      : [...saved, { name: trimmed, params }];
+    if (updateSaved(presets)) {
+      setSelected(presetKey(true, existing >= 0 ? existing : presets.length - 1));
+      setName('');
+      report(`Saved "${trimmed}"`);
+    }
+  };
+
+  const remove = () => {
+    if (group !== 's') return;
+    if (updateSaved(saved.filter((_, i) => i !== Number(index)))) {
+      setSelected(presetKey(false, 0));
+      report('');
+    }
+  };
+
+  const handleExport = () => {
+    const fileName = selectedPreset?.name ?? 'particleflow';
+    const blob = new Blob([exportPresetJson(fileName, params)], { type: 'application/json' });
+    downloadBlob(blob, `${fileName.replace(/[^\w-]+/g, '_')}.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const preset = importPresetJson(await file.text());
+      onChange(preset.params);
+      setName(preset.name);
+      report(`Loaded "${preset.name}"`);
+    } catch (error) {
+      report(error instanceof Error ? error.message : 'Could not load the preset.', true);
+    }
+  };
+
+  const copyLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}#${encodePresetHash(params)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      report('Link copied');
+    } catch {
+      report('Could not copy the link.', true);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <label>Presets</label>
+      <div className="flex gap-2">
+        <select
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-xs text-gray-300"
+        >
+          <optgroup label="Built-in">
+            {BUILT_IN_PRESETS.map((p, i) => (
+              <option key={i} value={presetKey(false, i)}>{p.name}</option>
+            ))}
+          </optgroup>
+          {saved.length > 0 && (
+            <optgroup label="Saved">
+              {saved.map((p, i) => (
+                <option key={i} value={presetKey(true, i)}>{p.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button onClick={() => selectedPreset && onChange(selectedPreset.params)} className={buttonClass}>
+          Load
+        </button>
+        {group === 's' && (
+          <button onClick={remove} className="text-xs text-gray-500 hover:text-red-400">
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          placeholder="Preset name"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-xs text-gray-300"
+        />
+        <button onClick={save} disabled={!name.trim()} className={buttonClass}>
+          Save
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={handleExport} className={buttonClass}>
+          Export
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Import
+          <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </label>
+        <button onClick={copyLink} className={buttonClass}>
+          Link
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500">Loaded images are not part of presets or links.</p>
+      {message && <p className="text-xs text-green-400">{message}</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
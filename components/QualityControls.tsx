@@ -0,0 +1,62 @@
+import React from 'react';
+import { QUALITY_LEVELS } from '../engine/QualityController';
+import { AdaptiveQualityParams } from '../types';
+import { RangeControl, ToggleControl } from './FormControls';
+
+interface QualityControlsProps {
+  adaptiveQuality: AdaptiveQualityParams;
+  level: number; // Index into QUALITY_LEVELS
+  onChange: (adaptiveQuality: AdaptiveQualityParams) => void;
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+export const QualityControls: React.FC<QualityControlsProps> = ({ adaptiveQuality, level, onChange }) => {
+  const update = (patch: Partial<AdaptiveQualityParams>) => {
+    onChange({ ...adaptiveQuality, ...patch });
+  };
+
+  const quality = QUALITY_LEVELS[level];
+  const rows: [string, string][] = [
+    ['Level', `${QUALITY_LEVELS.length - level} / ${QUALITY_LEVELS.length}`],
+    ['Particles', percent(quality.particles)],
+    ['Resolution', percent(quality.resolution)],
+    ['Bloom', quality.bloomLevels > 0 ? `${quality.bloomLevels} levels` : 'off'],
+  ];
+
+  return (
+    <div className="space-y-4">
+      <ToggleControl
+        label="Adaptive quality"
+        checked={adaptiveQuality.enabled}
+        onChange={(enabled) => update({ enabled })}
+      />
+
+      {adaptiveQuality.enabled && (
+        <>
+          <RangeControl
+            label="Target FPS"
+            value={adaptiveQuality.targetFps}
+            format={(v) => `${v}`}
+            min={15}
+            max={240}
+            step={5}
+            accent="accent-green-500"
+            onChange={(targetFps) => update({ targetFps })}
+          />
+          <div className="text-xs space-y-1">
+            {rows.map(([label, value]) => (
+              <div key={label} className="flex justify-between">
+                <span className="text-gray-500">{label}</span>
+                <span className="text-gray-300">{value}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Lowers the particle count, resolution and bloom while frames run over budget, and restores them once there is room again.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { downloadBlob } from '../engine/capture';
+import { randomSeed } from '../engine/random';
+import { decodeSnapshot, encodeSnapshot, ParticleSnapshot, SNAPSHOT_EXTENSION } from '../engine/snapshot';
+
+interface SnapshotControlsProps {
+  seed: number;
+  onSeedChange: (seed: number) => void;
+  onReset: () => void;
+  onReadSnapshot: () => Promise<ParticleSnapshot | null>;
+  onLoadSnapshot: (snapshot: ParticleSnapshot) => void;
+}
+
+const buttonClass =
+  'flex-1 py-1 px-2 text-xs text-center rounded border border-gray-700 text-gray-400 hover:border-gray-500 disabled:opacity-40 transition-all uppercase tracking-wider';
+
+export const SnapshotControls: React.FC<SnapshotControlsProps> = ({ seed, onSeedChange, onReset, onReadSnapshot, onLoadSnapshot }) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async () => {
+    setBusy(true);
+    try {
+      const snapshot = await onReadSnapshot();
+      if (!snapshot) return;
+      const blob = new Blob([encodeSnapshot(snapshot)], { type: 'application/octet-stream' });
+      downloadBlob(blob, `particles-${snapshot.count}${SNAPSHOT_EXTENSION}`);
+      setError('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not read the particles.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onLoadSnapshot(decodeSnapshot(await file.arrayBuffer()));
+      setError('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not load the snapshot.');
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <label>Seed</label>
+        <input
+          type="number"
+          min={0}
+          max={4294967295}
+          step={1}
+          value={seed}
+          onChange={(e) => {
+            const value = Math.floor(Number(e.target.value));
+            if (Number.isFinite(value)) onSeedChange(Math.min(Math.max(value, 0), 4294967295));
+          }}
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-xs text-gray-300 font-mono"
+        />
+        <button onClick={() => onSeedChange(randomSeed())} className="text-xs text-gray-400 hover:text-white uppercase tracking-wider">
+          Random
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={onReset} className={buttonClass}>
+          Reset
+        </button>
+        <button onClick={handleSave} disabled={busy} className={buttonClass}>
+          Save State
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Load State
+          <input type="file" accept={SNAPSHOT_EXTENSION} onChange={handleLoad} className="hidden" />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">States hold every particle; load them with the same settings to replay exactly.</p>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
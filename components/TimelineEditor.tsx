@@ -0,0 +1,258 @@
+import React from 'react';
+import { MAX_KEYFRAMES, MAX_TIMELINE_DURATION, readParam, TIMELINE_PARAMS, TimelineState } from '../engine/timeline';
+import { ColorScheme, Easing, Keyframe, SimulationParams, TimelineParam, TimelineParams, TimelineTrack } from '../types';
+import { ToggleControl } from './FormControls';
+import { TimelineActions } from './WebGPUCanvas';
+
+interface TimelineEditorProps {
+  params: SimulationParams;
+  state: TimelineState | null; // Playhead of the running engine
+  actions: TimelineActions;
+  onChange: (timeline: TimelineParams) => void;
+}
+
+const EASINGS: Record<Easing, string> = {
+  linear: 'Linear',
+  easeIn: 'Ease in',
+  easeOut: 'Ease out',
+  easeInOut: 'Ease in-out',
+  step: 'Hold',
+};
+const COLOR_SCHEMES: readonly ColorScheme[] = ['neon', 'fire', 'ocean', 'custom'];
+const PARAMS = Object.keys(TIMELINE_PARAMS) as TimelineParam[];
+
+const buttonClass =
+  'py-1 px-2 text-xs rounded border border-gray-700 text-gray-400 hover:border-gray-500 disabled:opacity-40 transition-all uppercase tracking-wider';
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300';
+
+// Keyframes with `keyframe` added, replacing one at the same time
+const withKeyframe = <T,>(keyframes: Keyframe<T>[], keyframe: Keyframe<T>): Keyframe<T>[] =>
+  [...keyframes.filter((k) => k.time !== keyframe.time), keyframe].sort((a, b) => a.time - b.time);
+
+const parseNumber = (text: string, min: number, max: number): number | null => {
+  const value = Number(text);
+  return text !== '' && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : null;
+};
+
+interface KeyframeRowProps {
+  keyframe: Keyframe<unknown>;
+  duration: number;
+  onChange: (patch: Partial<Pick<Keyframe<unknown>, 'time' | 'easing'>>) => void;
+  onRemove: () => void;
+  children: React.ReactNode; // Editor of the value
+}
+
+const KeyframeRow: React.FC<KeyframeRowProps> = ({ keyframe, duration, onChange, onRemove, children }) => (
+  <div className="flex items-center gap-1">
+    <input
+      type="number"
+      min={0}
+      max={duration}
+      step={0.1}
+      value={keyframe.time}
+      title="Time (s)"
+      onChange={(e) => {
+        const time = parseNumber(e.target.value, 0, duration);
+        if (time !== null) onChange({ time });
+      }}
+      className={`w-14 ${inputClass}`}
+    />
+    {children}
+    <select
+      value={keyframe.easing}
+      title="Easing towards the next keyframe"
+      onChange={(e) => onChange({ easing: e.target.value as Easing })}
+      className={`flex-1 min-w-0 ${inputClass}`}
+    >
+      {(Object.keys(EASINGS) as Easing[]).map((easing) => (
+        <option key={easing} value={easing}>{EASINGS[easing]}</option>
+      ))}
+    </select>
+    <button onClick={onRemove} className="text-xs text-gray-500 hover:text-red-400">
+      ✕
+    </button>
+  </div>
+);
+
+export const TimelineEditor: React.FC<TimelineEditorProps> = ({ params, state, actions, onChange }) => {
+  const { timeline } = params;
+  const time = Math.min(state?.time ?? 0, timeline.duration);
+  // Keyframes are added at the playhead, rounded so they stay easy to edit
+  const keyTime = Math.round(time * 10) / 10;
+
+  const update = (patch: Partial<TimelineParams>) => onChange({ ...timeline, ...patch });
+
+  const updateTrack = (index: number, track: TimelineTrack) => {
+    update({ tracks: timeline.tracks.map((t, i) => (i === index ? track : t)) });
+  };
+
+  const unused = PARAMS.filter((param) => !timeline.tracks.some((track) => track.param === param));
+
+  return (
+    <div className="space-y-3">
+      <ToggleControl label="Timeline" checked={timeline.enabled} onChange={(enabled) => update({ enabled })} />
+
+      {timeline.enabled && (
+        <>
+          <div className="flex items-center gap-2">
+            <button onClick={() => actions.setPlaying(!state?.playing)} disabled={!state} className={buttonClass}>
+              {state?.playing ? 'Pause' : 'Play'}
+            </button>
+            <button onClick={() => actions.seek(0)} disabled={!state} className={buttonClass}>
+              Start
+            </button>
+            <span className="flex-1 text-right text-xs text-gray-400 tabular-nums">
+              {time.toFixed(1)} / {timeline.duration.toFixed(1)} s
+            </span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={timeline.duration}
+            step={0.01}
+            value={time}
+            disabled={!state}
+            onChange={(e) => actions.seek(parseFloat(e.target.value))}
+            className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+          />
+
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <label className="flex items-center gap-2">
+              Duration
+              <input
+                type="number"
+                min={1}
+                max={MAX_TIMELINE_DURATION}
+                step={1}
+                value={timeline.duration}
+                onChange={(e) => {
+                  const duration = parseNumber(e.target.value, 1, MAX_TIMELINE_DURATION);
+                  if (duration !== null) update({ duration });
+                }}
+                className={`w-16 ${inputClass}`}
+              />
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              Loop
+              <input
+                type="checkbox"
+                checked={timeline.loop}
+                onChange={(e) => update({ loop: e.target.checked })}
+                className="accent-cyan-500"
+              />
+            </label>
+          </div>
+
+          {timeline.tracks.map((track, i) => {
+            const range = TIMELINE_PARAMS[track.param];
+            return (
+              <div key={i} className="space-y-2 p-3 rounded border border-gray-800">
+                <div className="flex justify-between items-center gap-2">
+                  <select
+                    value={track.param}
+                    onChange={(e) => updateTrack(i, { ...track, param: e.target.value as TimelineParam })}
+                    className={`flex-1 min-w-0 ${inputClass}`}
+                  >
+                    {[track.param, ...unused].map((param) => (
+                      <option key={param} value={param}>{TIMELINE_PARAMS[param].label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => update({ tracks: timeline.tracks.filter((_, j) => j !== i) })}
+                    className="text-xs text-gray-500 hover:text-red-400"
+                  >
+                    Remove
+                  </button>
+                </div>
+
+                {track.keyframes.map((keyframe, k) => (
+                  <KeyframeRow
+                    key={k}
+                    keyframe={keyframe}
+                    duration={timeline.duration}
+                    onChange={(patch) => updateTrack(i, { ...track, keyframes: track.keyframes.map((kf, j) => (j === k ? { ...kf, ...patch } : kf)) })}
+                    onRemove={() => updateTrack(i, { ...track, keyframes: track.keyframes.filter((_, j) => j !== k) })}
+                  >
+                    <input
+                      type="number"
+                      min={range.min}
+                      max={range.max}
+                      step={0.01}
+                      value={keyframe.value}
+                      title="Value"
+                      onChange={(e) => {
+                        const value = parseNumber(e.target.value, range.min, range.max);
+                        if (value !== null) {
+                          updateTrack(i, { ...track, keyframes: track.keyframes.map((kf, j) => (j === k ? { ...kf, value } : kf)) });
+                        }
+                      }}
+                      className={`w-16 ${inputClass}`}
+                    />
+                  </KeyframeRow>
+                ))}
+
+                <button
+                  onClick={() => updateTrack(i, {
+                    ...track,
+                    keyframes: withKeyframe(track.keyframes, { time: keyTime, value: readParam(params, track.param), easing: 'easeInOut' }),
+                  })}
+                  disabled={track.keyframes.length >= MAX_KEYFRAMES}
+                  className={`w-full ${buttonClass}`}
+                >
+                  + Key at {keyTime.toFixed(1)} s
+                </button>
+              </div>
+            );
+          })}
+
+          <div className="space-y-2 p-3 rounded border border-gray-800">
+            <label className="text-sm">Color Scheme</label>
+            {timeline.colorKeyframes.map((keyframe, k) => (
+              <KeyframeRow
+                key={k}
+                keyframe={keyframe}
+                duration={timeline.duration}
+                onChange={(patch) => update({ colorKeyframes: timeline.colorKeyframes.map((kf, j) => (j === k ? { ...kf, ...patch } : kf)) })}
+                onRemove={() => update({ colorKeyframes: timeline.colorKeyframes.filter((_, j) => j !== k) })}
+              >
+                <select
+                  value={keyframe.value}
+                  title="Scheme"
+                  onChange={(e) => update({
+                    colorKeyframes: timeline.colorKeyframes.map((kf, j) => (j === k ? { ...kf, value: e.target.value as ColorScheme } : kf)),
+                  })}
+                  className={`w-16 ${inputClass}`}
+                >
+                  {COLOR_SCHEMES.map((scheme) => (
+                    <option key={scheme} value={scheme}>{scheme}</option>
+                  ))}
+                </select>
+              </KeyframeRow>
+            ))}
+            <button
+              onClick={() => update({
+                colorKeyframes: withKeyframe(timeline.colorKeyframes, { time: keyTime, value: params.colorScheme, easing: 'easeInOut' }),
+              })}
+              disabled={timeline.colorKeyframes.length >= MAX_KEYFRAMES}
+              className={`w-full ${buttonClass}`}
+            >
+              + Key at {keyTime.toFixed(1)} s
+            </button>
+          </div>
+
+          <button
+            onClick={() => update({ tracks: [...timeline.tracks, { param: unused[0], keyframes: [] }] })}
+            disabled={unused.length === 0}
+            className={`w-full ${buttonClass}`}
+          >
+            + Track
+          </button>
+
+          <p className="text-xs text-gray-500">
+            Keys take the current slider value. Tracks override their sliders while the timeline is on, and only play while the simulation runs.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,270 +1,326 @@
-
-import React, { useRef, useEffect, useCallback } from 'react';
-import { COMPUTE_SHADER, RENDER_SHADER } from '../constants';
+import React, { useRef, useEffect, useImperativeHandle, forwardRef, useCallback } from 'react';
+import { orbitCamera, zoomCamera } from '../engine/camera';
+import { CanvasRecorder, captureImage, renderSequence, SequenceOptions } from '../engine/capture';
+import { CpuParticleEngine } from '../engine/CpuParticleEngine';
+import { CompileResult } from '../engine/customForce';
+import { ParticleEngine } from '../engine/ParticleEngine';
+import { PerformanceStats } from '../engine/PerformanceMonitor';
+import { QUALITY_LEVELS, QualityController } from '../engine/QualityController';
+import { applyGesture, PointerTracker } from '../engine/pointerInput';
+import { SimulationEngine } from '../engine/SimulationEngine';
+import { ParticleSnapshot } from '../engine/snapshot';
+import { TimelineState } from '../engine/timeline';
 import { SimulationParams, WebGPUStatus } from '../types';
 
 interface WebGPUCanvasProps {
   simParams: SimulationParams;
   onStatusChange: (status: WebGPUStatus, error?: string) => void;
+  // Receives parameter updates from touch gestures and the 3D camera controls
+  onGesture: (update: (params: SimulationParams) => SimulationParams) => void;
+  onStats: (stats: PerformanceStats) => void;
+  // Index into QUALITY_LEVELS picked by the adaptive quality controller
+  onQualityChange: (level: number) => void;
+  // WebGPU errors raised while running, which no error scope caught
+  onRuntimeError: (message: string) => void;
+  onCompile: (result: CompileResult) => void;
+  onTimeline: (state: TimelineState) => void;
 }
 
-// Polyfill for missing types
-const GPUShaderStage = {
-  VERTEX: 0x1,
-  FRAGMENT: 0x2,
-  COMPUTE: 0x4
-};
+// Stills and videos of the canvas; the promises resolve with null while no engine is running
+export interface CaptureActions {
+  captureImage: (width: number, height: number) => Promise<Blob | null>;
+  startRecording: (fps: number, bitsPerSecond: number) => void;
+  stopRecording: () => Promise<Blob | null>;
+  // Also null when cancelled through `signal`
+  renderSequence: (options: SequenceOptions, onProgress: (frame: number) => void, signal?: AbortSignal) => Promise<Blob | null>;
+}
 
-const GPUBufferUsage = {
-  MAP_READ: 0x0001,
-  MAP_WRITE: 0x0002,
-  COPY_SRC: 0x0004,
-  COPY_DST: 0x0008,
-  INDEX: 0x0010,
-  VERTEX: 0x0020,
-  UNIFORM: 0x0040,
-  STORAGE: 0x0080,
-  INDIRECT: 0x0100,
-  QUERY_RESOLVE: 0x0200
-};
+// Transport of the keyframe timeline in `params.timeline`
+export interface TimelineActions {
+  setPlaying: (playing: boolean) => void;
+  seek: (time: number) => void;
+}
 
-// Map color scheme string to float for shader
-const getColorSchemeValue = (scheme: string): number => {
-  switch (scheme) {
-    case 'fire': return 1.0;
-    case 'ocean': return 2.0;
-    default: return 0.0; // neon
-  }
+// Imperative controls for the running engine
+export interface WebGPUCanvasHandle extends CaptureActions, TimelineActions {
+  step: () => void;
+  reset: () => void;
+  // Null until an engine is running
+  readSnapshot: () => Promise<ParticleSnapshot | null>;
+  loadSnapshot: (snapshot: ParticleSnapshot) => void;
+}
+
+// Particle state saved this often, to restore it should the device be lost
+const CHECKPOINT_INTERVAL = 10000;
+// Losing the device this many times within LOSS_WINDOW ms gives up on recovering
+const MAX_DEVICE_LOSSES = 3;
+const LOSS_WINDOW = 60000;
+
+// Drawing buffer size matching the viewport & DPR, lowered by the adaptive quality level
+const getCanvasSize = (canvas: HTMLCanvasElement, resolution: number) => {
+  const dpr = (window.devicePixelRatio || 1) * resolution;
+  const width = canvas.clientWidth || window.innerWidth;
+  const height = canvas.clientHeight || window.innerHeight;
+  return { width: width * dpr, height: height * dpr };
 };
 
-export const WebGPUCanvas: React.FC<WebGPUCanvasProps> = ({ simParams, onStatusChange }) => {
+export const WebGPUCanvas = forwardRef<WebGPUCanvasHandle, WebGPUCanvasProps>(({ simParams, onStatusChange, onGesture, onStats, onQualityChange, onRuntimeError, onCompile, onTimeline }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  
-  // Ref to hold params so we don't restart animation loop on slider change
+  const engineRef = useRef<SimulationEngine | null>(null);
+  const recorderRef = useRef(new CanvasRecorder());
+  const pointersRef = useRef(new PointerTracker());
+  const qualityRef = useRef(new QualityController());
+
+  useImperativeHandle(ref, () => ({
+    step: () => engineRef.current?.step(),
+    reset: () => engineRef.current?.reset(),
+    readSnapshot: async () => (engineRef.current ? engineRef.current.readSnapshot() : null),
+    loadSnapshot: (snapshot) => {
+      if (!engineRef.current) return;
+      // The engine drops back to full quality on load; the controller and resolution follow
+      qualityRef.current.reset();
+      applyQuality();
+      engineRef.current.loadSnapshot(snapshot);
+    },
+    setPlaying: (playing) => engineRef.current?.setTimelinePlaying(playing),
+    seek: (time) => engineRef.current?.seekTimeline(time),
+    captureImage: async (width, height) => {
+      const engine = engineRef.current;
+      const canvas = canvasRef.current;
+      return engine && canvas ? captureImage(engine, canvas, width, height) : null;
+    },
+    startRecording: (fps, bitsPerSecond) => {
+      if (canvasRef.current) recorderRef.current.start(canvasRef.current, fps, bitsPerSecond);
+    },
+    stopRecording: () => recorderRef.current.stop(),
+    renderSequence: async (options, onProgress, signal) => {
+      const engine = engineRef.current;
+      const canvas = canvasRef.current;
+      if (!engine || !canvas) return null;
+      // Live pointers would stir the offline frames
+      engine.setPointers([]);
+      try {
+        return await renderSequence(engine, canvas, options, onProgress, signal);
+      } finally {
+        engine.setPointers(pointersRef.current.states);
+      }
+    },
+  }), []);
+
+  // Ref to hold params so we don't restart the engine on slider change
   const paramsRef = useRef(simParams);
-  
+
+  const onGestureRef = useRef(onGesture);
+  onGestureRef.current = onGesture;
+  const onStatsRef = useRef(onStats);
+  onStatsRef.current = onStats;
+  const onQualityChangeRef = useRef(onQualityChange);
+  onQualityChangeRef.current = onQualityChange;
+  const onRuntimeErrorRef = useRef(onRuntimeError);
+  onRuntimeErrorRef.current = onRuntimeError;
+  const onCompileRef = useRef(onCompile);
+  onCompileRef.current = onCompile;
+  const onTimelineRef = useRef(onTimeline);
+  onTimelineRef.current = onTimeline;
+  // Latest playhead, so an engine recreated after a device loss carries on from it
+  const timelineRef = useRef<TimelineState | null>(null);
+
+  // Hands the controller's level to the engine; the resolution share goes through the drawing buffer size
+  const applyQuality = useCallback(() => {
+    const engine = engineRef.current;
+    const canvas = canvasRef.current;
+    const quality = QUALITY_LEVELS[qualityRef.current.level];
+    if (engine && canvas) {
+      const { width, height } = getCanvasSize(canvas, quality.resolution);
+      engine.setQuality(quality);
+      engine.resize(width, height);
+    }
+    onQualityChangeRef.current(qualityRef.current.level);
+  }, []);
+
   useEffect(() => {
     paramsRef.current = simParams;
-  }, [simParams]);
-
-  const contextRef = useRef<{
-    device: any;
-    context: any;
-    computePipeline: any;
-    renderPipeline: any;
-    particleBuffers: any[];
-    uniformBuffer: any;
-    bindGroups: any[];
-    step: number;
-    presentationFormat: any;
-  } | null>(null);
-
-  const requestRef = useRef<number>(0);
-  const mouseRef = useRef<{ x: number; y: number; isDown: boolean }>({ x: 0, y: 0, isDown: false });
-
-  // Initialize WebGPU - Only depends on particleCount to resize buffers
-  const initWebGPU = useCallback(async () => {
-    const navigatorAny = navigator as any;
-    if (!navigatorAny.gpu) {
-      onStatusChange(WebGPUStatus.Unsupported);
-      return;
+    engineRef.current?.setParams(simParams);
+    // Switching adaptive quality off restores everything
+    if (!simParams.adaptiveQuality.enabled && qualityRef.current.level !== 0) {
+      qualityRef.current.reset();
+      applyQuality();
     }
+  }, [simParams, applyQuality]);
 
-    try {
-      onStatusChange(WebGPUStatus.Loading);
-      const adapter = await navigatorAny.gpu.requestAdapter({
-        powerPreference: 'high-performance'
+  // Initialize once; particle count changes are applied in place by the engine
+  useEffect(() => {
+    let cancelled = false;
+    let device: GPUDevice | null = null;
+
+    const startEngine = (engine: SimulationEngine) => {
+      const canvas = canvasRef.current!;
+      const { width, height } = getCanvasSize(canvas, QUALITY_LEVELS[qualityRef.current.level].resolution);
+      engine.resize(width, height);
+      engine.setPointers(pointersRef.current.states);
+      engine.setQuality(QUALITY_LEVELS[qualityRef.current.level]);
+      engine.setCompileListener((result) => onCompileRef.current(result));
+      // Params may have changed while the engine was initializing
+      engine.setParams(paramsRef.current);
+      if (timelineRef.current) {
+        engine.seekTimeline(timelineRef.current.time);
+        engine.setTimelinePlaying(timelineRef.current.playing);
+      }
+      engine.setTimelineListener((state) => {
+        timelineRef.current = state;
+        onTimelineRef.current(state);
+      });
+      engine.setStatsListener((stats) => {
+        onStatsRef.current(stats);
+        const { adaptiveQuality, paused } = paramsRef.current;
+        const now = performance.now();
+        if (!adaptiveQuality.enabled || paused) {
+          qualityRef.current.hold(now);
+        } else if (qualityRef.current.update(stats, adaptiveQuality.targetFps, now)) {
+          applyQuality();
+        }
       });
+      // A device lost during initialization leaves an engine behind that the recovery replaces
+      engineRef.current?.dispose();
+      engineRef.current = engine;
+      engine.start();
+    };
 
-      if (!adapter) {
-        onStatusChange(WebGPUStatus.Error, "No GPU adapter found.");
+    // CPU simulation + Canvas2D, used whenever no WebGPU device can be had
+    const startFallback = (reason: string) => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) {
+        onStatusChange(WebGPUStatus.Unsupported);
         return;
       }
+      console.warn(`WebGPU unavailable (${reason}), using CPU fallback.`);
+      startEngine(new CpuParticleEngine(canvas, ctx, paramsRef.current));
+      onStatusChange(WebGPUStatus.Fallback, reason);
+    };
 
-      const device = await adapter.requestDevice();
-      
-      // Error logging
-      device.pushErrorScope('validation');
-
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-
-      const context = canvas.getContext('webgpu') as any;
-      if (!context) {
-        onStatusChange(WebGPUStatus.Error, "Could not get WebGPU context.");
+    // Latest particle state of the WebGPU engine; GPU buffers can't be read once the device is lost
+    let checkpoint: ParticleSnapshot | null = null;
+    const saveCheckpoint = () => {
+      const engine = engineRef.current;
+      if (!(engine instanceof ParticleEngine)) return;
+      engine.readSnapshot()
+        .then((snapshot) => { checkpoint = snapshot; })
+        // Fails while the device is being lost; the previous checkpoint stays
+        .catch(() => {});
+    };
+    const losses: number[] = [];
+
+    // The device can be lost to driver resets, GPU switches or the browser reclaiming a background tab
+    const handleDeviceLost = (info: GPUDeviceLostInfo) => {
+      // Destroyed by our own cleanup
+      if (cancelled || info.reason === 'destroyed') return;
+      console.warn('WebGPU device lost:', info.message);
+
+      engineRef.current?.dispose();
+      engineRef.current = null;
+
+      const now = performance.now();
+      losses.push(now);
+      while (losses.length > 0 && now - losses[0] > LOSS_WINDOW) losses.shift();
+      if (losses.length >= MAX_DEVICE_LOSSES) {
+        onStatusChange(WebGPUStatus.Error, `The GPU device keeps getting lost: ${info.message || 'no reason given'}`);
         return;
       }
 
-      // Initial canvas sizing to match viewport & DPR
-      const dpr = window.devicePixelRatio || 1;
-      const width = canvas.clientWidth || window.innerWidth;
-      const height = canvas.clientHeight || window.innerHeight;
-      canvas.width = width * dpr;
-      canvas.height = height * dpr;
-
-      const presentationFormat = navigatorAny.gpu.getPreferredCanvasFormat();
-      context.configure({
-        device,
-        format: presentationFormat,
-        alphaMode: 'opaque', 
-      });
-
-      // --- Create Pipelines ---
+      onStatusChange(WebGPUStatus.Recovering, info.message);
+      initWebGPU(checkpoint);
+    };
 
-      const computeModule = device.createShaderModule({ 
-        label: 'Compute Module',
-        code: COMPUTE_SHADER 
-      });
-      
-      // Combined Render Module
-      const renderModule = device.createShaderModule({ 
-        label: 'Render Module',
-        code: RENDER_SHADER 
-      });
+    // `restore` is the particle state to continue from after a device loss
+    const initWebGPU = async (restore: ParticleSnapshot | null = null) => {
+      if (!navigator.gpu) {
+        startFallback("WebGPU is not supported by this browser.");
+        return;
+      }
 
-      // Compute Pipeline
-      const computeBindGroupLayout = device.createBindGroupLayout({
-        entries: [
-          { binding: 0, visibility: GPUShaderStage.COMPUTE | GPUShaderStage.VERTEX, buffer: { type: 'uniform' } },
-          { binding: 1, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } },
-          { binding: 2, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } },
-        ]
-      });
+      const recovering = losses.length > 0;
+      let context: GPUCanvasContext | null = null;
+      try {
+        if (!recovering) onStatusChange(WebGPUStatus.Loading);
+        const adapter = await navigator.gpu.requestAdapter({
+          powerPreference: 'high-performance'
+        });
+        if (cancelled) return;
 
-      const computePipeline = device.createComputePipeline({
-        layout: device.createPipelineLayout({ bindGroupLayouts: [computeBindGroupLayout] }),
-        compute: { module: computeModule, entryPoint: 'main' },
-      });
+        if (!adapter) {
+          throw new Error("No GPU adapter found.");
+        }
 
-      // Render Pipeline
-      const renderBindGroupLayout = device.createBindGroupLayout({
-        entries: [
-          { binding: 0, visibility: GPUShaderStage.VERTEX, buffer: { type: 'uniform' } },
-          { binding: 1, visibility: GPUShaderStage.VERTEX, buffer: { type: 'read-only-storage' } },
-        ]
-      });
+        // GPU pass timings for the performance overlay, where the adapter offers them
+        device = await adapter.requestDevice({
+          requiredFeatures: adapter.features.has('timestamp-query') ? ['timestamp-query'] : [],
+        });
+        device.lost.then(handleDeviceLost);
+        device.addEventListener('uncapturederror', (e) => {
+          const { message } = (e as GPUUncapturedErrorEvent).error;
+          console.error('WebGPU error:', message);
+          onRuntimeErrorRef.current(message);
+        });
 
-      const renderPipeline = device.createRenderPipeline({
-        layout: device.createPipelineLayout({ bindGroupLayouts: [renderBindGroupLayout] }),
-        vertex: {
-          module: renderModule,
-          entryPoint: 'vs_main', // New Entry Point
-        },
-        fragment: {
-          module: renderModule,
-          entryPoint: 'fs_main', // New Entry Point
-          targets: [{ 
-            format: presentationFormat,
-            blend: { 
-               // Additive blending for glowing effect
-               color: { srcFactor: 'src-alpha', dstFactor: 'one', operation: 'add' },
-               alpha: { srcFactor: 'zero', dstFactor: 'one', operation: 'add' }
-            }
-          }],
-        },
-        primitive: {
-          topology: 'triangle-list',
-        },
-      });
+        const canvas = canvasRef.current;
+        if (!canvas || cancelled) return;
 
-      // --- Create Buffers ---
-      const numParticles = paramsRef.current.particleCount; 
-      const particleData = new Float32Array(numParticles * 4); 
+        context = canvas.getContext('webgpu');
+        if (!context) {
+          throw new Error("Could not get WebGPU context.");
+        }
 
-      // Initialize random positions
-      for (let i = 0; i < numParticles; i++) {
-        particleData[i * 4] = (Math.random() * 2 - 1); // x
-        particleData[i * 4 + 1] = (Math.random() * 2 - 1); // y
-        particleData[i * 4 + 2] = (Math.random() - 0.5) * 0.05; // vx
-        particleData[i * 4 + 3] = (Math.random() - 0.5) * 0.05; // vy
+        const engine = new ParticleEngine({
+          device,
+          context,
+          format: navigator.gpu.getPreferredCanvasFormat(),
+          params: paramsRef.current,
+        });
+        const { width, height } = getCanvasSize(canvas, QUALITY_LEVELS[qualityRef.current.level].resolution);
+        engine.resize(width, height);
+        await engine.init();
+
+        if (cancelled) {
+          engine.dispose();
+          return;
+        }
+
+        // startEngine then applies the current params on top, e.g. a changed particle count
+        if (restore) engine.loadSnapshot(restore);
+        startEngine(engine);
+        onStatusChange(WebGPUStatus.Supported);
+      } catch (error) {
+        console.error(error);
+        const message = error instanceof Error ? error.message : "Unknown WebGPU error";
+        // Once the canvas holds a WebGPU context it can't switch to 2D
+        if (context || cancelled || recovering) {
+          onStatusChange(WebGPUStatus.Error, recovering ? `The GPU device was lost and could not be recreated: ${message}` : message);
+        } else {
+          startFallback(message);
+        }
       }
+    };
 
-      const particleBuffers = [
-        device.createBuffer({
-          size: particleData.byteLength,
-          usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
-        }),
-        device.createBuffer({
-          size: particleData.byteLength,
-          usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
-        }),
-      ];
-
-      device.queue.writeBuffer(particleBuffers[0], 0, particleData);
-      device.queue.writeBuffer(particleBuffers[1], 0, particleData);
-
-      // Uniform Buffer
-      const uniformBufferSize = 48; 
-      const uniformBuffer = device.createBuffer({
-        size: uniformBufferSize,
-        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-      });
-
-      // --- Create Bind Groups ---
-
-      const bindGroups: any[] = [];
-      
-      bindGroups[0] = device.createBindGroup({
-        layout: computeBindGroupLayout,
-        entries: [
-          { binding: 0, resource: { buffer: uniformBuffer } },
-          { binding: 1, resource: { buffer: particleBuffers[0] } },
-          { binding: 2, resource: { buffer: particleBuffers[1] } },
-        ],
-      });
-
-      bindGroups[1] = device.createBindGroup({
-        layout: computeBindGroupLayout,
-        entries: [
-          { binding: 0, resource: { buffer: uniformBuffer } },
-          { binding: 1, resource: { buffer: particleBuffers[1] } },
-          { binding: 2, resource: { buffer: particleBuffers[0] } },
-        ],
-      });
-      
-      bindGroups[2] = device.createBindGroup({
-        layout: renderBindGroupLayout,
-        entries: [
-          { binding: 0, resource: { buffer: uniformBuffer } },
-          { binding: 1, resource: { buffer: particleBuffers[0] } },
-        ],
-      });
-
-      bindGroups[3] = device.createBindGroup({
-        layout: renderBindGroupLayout,
-        entries: [
-          { binding: 0, resource: { buffer: uniformBuffer } },
-          { binding: 1, resource: { buffer: particleBuffers[1] } },
-        ],
-      });
+    initWebGPU();
 
-      contextRef.current = {
-        device,
-        context,
-        computePipeline,
-        renderPipeline,
-        particleBuffers,
-        uniformBuffer,
-        bindGroups,
-        step: 0,
-        presentationFormat
-      };
-      
-      // Check for validation errors
-      device.popErrorScope().then((error: any) => {
-          if (error) {
-              console.error("WebGPU Validation Error during init:", error.message);
-              onStatusChange(WebGPUStatus.Error, "Validation Error: " + error.message);
-          } else {
-             onStatusChange(WebGPUStatus.Supported);
-          }
-      });
+    // Hidden tabs are the likeliest to lose their device, so save the state on the way out too
+    const checkpointTimer = window.setInterval(saveCheckpoint, CHECKPOINT_INTERVAL);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveCheckpoint();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
 
-    } catch (error) {
-      console.error(error);
-      onStatusChange(WebGPUStatus.Error, error instanceof Error ? error.message : "Unknown WebGPU error");
-    }
-  }, [simParams.particleCount, onStatusChange]);
+    return () => {
+      cancelled = true;
+      window.clearInterval(checkpointTimer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      recorderRef.current.stop();
+      engineRef.current?.dispose();
+      engineRef.current = null;
+      device?.destroy();
+    };
+  }, [onStatusChange]);
 
   // Handle Resize
   useEffect(() => {
@@ -272,145 +328,115 @@ export const WebGPUCanvas: React.FC<WebGPUCanvasProps> = ({ simParams, onStatusC
       const canvas = canvasRef.current;
       if (!canvas) return;
 
-      const dpr = window.devicePixelRatio || 1;
-      const width = canvas.clientWidth || window.innerWidth;
-      const height = canvas.clientHeight || window.innerHeight;
-      canvas.width = width * dpr;
-      canvas.height = height * dpr;
-
-      if (contextRef.current) {
-        contextRef.current.context.configure({
-          device: contextRef.current.device,
-          format: contextRef.current.presentationFormat,
-          alphaMode: 'opaque',
-        });
+      const { width, height } = getCanvasSize(canvas, QUALITY_LEVELS[qualityRef.current.level].resolution);
+      if (engineRef.current) {
+        engineRef.current.resize(width, height);
+      } else {
+        canvas.width = width;
+        canvas.height = height;
       }
     };
     window.addEventListener('resize', handleResize);
-    handleResize(); 
+    handleResize();
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Event Listeners for Mouse
+  // Pointer Events on the canvas only, so the overlays and Controls don't stir the particles
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
+    const pointers = pointersRef.current;
 
-    const updateMouse = (e: MouseEvent) => {
-      const rect = canvas.getBoundingClientRect();
-      const x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
-      const y = -(((e.clientY - rect.top) / rect.height) * 2 - 1); 
-      mouseRef.current = { x, y, isDown: (e.buttons & 1) === 1 };
-    };
+    // Last client position of each pointer dragging the 3D camera
+    const orbits = new Map<number, [number, number]>();
 
-    const handleDown = () => { mouseRef.current.isDown = true; };
-    const handleUp = () => { mouseRef.current.isDown = false; };
+    const publish = () => engineRef.current?.setPointers(pointers.states);
 
-    window.addEventListener('mousemove', updateMouse);
-    window.addEventListener('mousedown', handleDown);
-    window.addEventListener('mouseup', handleUp);
-
-    return () => {
-      window.removeEventListener('mousemove', updateMouse);
-      window.removeEventListener('mousedown', handleDown);
-      window.removeEventListener('mouseup', handleUp);
+    const orbit = (e: PointerEvent, height: number) => {
+      if ((e.buttons & 1) === 0) {
+        orbits.delete(e.pointerId);
+        return;
+      }
+      const last = orbits.get(e.pointerId);
+      orbits.set(e.pointerId, [e.clientX, e.clientY]);
+      // Two fingers pinch and pan instead
+      if (!last || orbits.size > 1) return;
+      const dx = e.clientX - last[0];
+      const dy = e.clientY - last[1];
+      onGestureRef.current((params) => ({ ...params, camera: orbitCamera(params.camera, dx, dy, height) }));
     };
-  }, []);
 
-  // Main Loop
-  const animate = useCallback((time: number) => {
-    if (!contextRef.current) {
-      requestRef.current = requestAnimationFrame(animate);
-      return;
-    }
+    const track = (e: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      // In 3D the primary button orbits the camera, so the secondary one repels
+      const mode3d = paramsRef.current.mode3d;
+      if (mode3d) orbit(e, rect.height);
+      const gesture = pointers.update({
+        id: e.pointerId,
+        type: e.pointerType,
+        x: ((e.clientX - rect.left) / rect.width) * 2 - 1,
+        y: -(((e.clientY - rect.top) / rect.height) * 2 - 1),
+        pressed: mode3d ? (e.buttons & 2) === 2 : (e.buttons & 1) === 1,
+        pressure: e.pressure,
+      });
+      publish();
+      if (gesture) onGestureRef.current((params) => applyGesture(params, gesture));
+    };
 
-    const { 
-      device, context, computePipeline, renderPipeline, 
-      uniformBuffer, bindGroups, step 
-    } = contextRef.current;
+    const handleDown = (e: PointerEvent) => {
+      // Keep receiving moves when a drag leaves the canvas
+      canvas.setPointerCapture(e.pointerId);
+      track(e);
+    };
 
-    const canvas = canvasRef.current;
-    
-    // Safety check for canvas dimensions
-    if (!canvas || canvas.width === 0 || canvas.height === 0) {
-      requestRef.current = requestAnimationFrame(animate);
-      return;
-    }
+    const handleUp = (e: PointerEvent) => {
+      orbits.delete(e.pointerId);
+      // A mouse keeps hovering after its button is released; touches and pens lift off
+      if (e.pointerType === 'mouse') {
+        track(e);
+      } else {
+        pointers.remove(e.pointerId);
+        publish();
+      }
+    };
 
-    const currentParams = paramsRef.current;
-    
-    // Safety check for particle count
-    if (currentParams.particleCount <= 0) {
-        requestRef.current = requestAnimationFrame(animate);
-        return;
-    }
+    const handleLeave = (e: PointerEvent) => {
+      orbits.delete(e.pointerId);
+      pointers.remove(e.pointerId);
+      publish();
+    };
 
-    // 1. Update Uniforms
-    const uniformData = new Float32Array([
-      mouseRef.current.x, mouseRef.current.y, // 0-8
-      canvas.width, canvas.height,            // 8-16
-      0.016,                                  // 16-20 (dt)
-      currentParams.speed,                    // 20-24
-      currentParams.interactionRadius,        // 24-28
-      currentParams.forceStrength,            // 28-32
-      mouseRef.current.isDown ? 1.0 : 0.0,    // 32-36
-      getColorSchemeValue(currentParams.colorScheme), // 36-40
-      0.0, 0.0 // Padding
-    ]);
-    device.queue.writeBuffer(uniformBuffer, 0, uniformData);
-
-    // 2. Encode Commands
-    const commandEncoder = device.createCommandEncoder();
-
-    // Compute Pass
-    const computePass = commandEncoder.beginComputePass();
-    computePass.setPipeline(computePipeline);
-    computePass.setBindGroup(0, bindGroups[step % 2]); 
-    const workgroupSize = 64;
-    const workgroupCount = Math.ceil(currentParams.particleCount / workgroupSize);
-    computePass.dispatchWorkgroups(workgroupCount);
-    computePass.end();
-
-    // Render Pass
-    const textureView = context.getCurrentTexture().createView();
-    const renderPass = commandEncoder.beginRenderPass({
-      colorAttachments: [{
-        view: textureView,
-        clearValue: { r: 0.0, g: 0.0, b: 0.0, a: 1.0 }, // Pure black, opaque
-        loadOp: 'clear',
-        storeOp: 'store',
-      }],
-    });
-
-    renderPass.setPipeline(renderPipeline);
-    const renderBindGroupIndex = (step % 2 === 0) ? 3 : 2;
-    renderPass.setBindGroup(0, bindGroups[renderBindGroupIndex]);
-    
-    // Draw Instanced Quads: 6 vertices per quad, N instances (particles)
-    renderPass.draw(6, currentParams.particleCount);
-    renderPass.end();
-
-    device.queue.submit([commandEncoder.finish()]);
-
-    contextRef.current.step++;
-    requestRef.current = requestAnimationFrame(animate);
-  }, []);
+    const handleWheel = (e: WheelEvent) => {
+      if (!paramsRef.current.mode3d) return;
+      e.preventDefault();
+      const factor = Math.exp(e.deltaY * 0.001);
+      onGestureRef.current((params) => ({ ...params, camera: zoomCamera(params.camera, factor) }));
+    };
 
-  // Init and Start Loop
-  useEffect(() => {
-    let cancelled = false;
+    const handleContextMenu = (e: MouseEvent) => {
+      if (paramsRef.current.mode3d) e.preventDefault();
+    };
 
-    initWebGPU().then(() => {
-      if (!cancelled) {
-        requestRef.current = requestAnimationFrame(animate);
-      }
-    });
+    canvas.addEventListener('pointerdown', handleDown);
+    canvas.addEventListener('pointermove', track);
+    canvas.addEventListener('pointerup', handleUp);
+    canvas.addEventListener('pointercancel', handleLeave);
+    canvas.addEventListener('pointerleave', handleLeave);
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    canvas.addEventListener('contextmenu', handleContextMenu);
 
     return () => {
-      cancelled = true;
-      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+      canvas.removeEventListener('pointerdown', handleDown);
+      canvas.removeEventListener('pointermove', track);
+      canvas.removeEventListener('pointerup', handleUp);
+      canvas.removeEventListener('pointercancel', handleLeave);
+      canvas.removeEventListener('pointerleave', handleLeave);
+      canvas.removeEventListener('wheel', handleWheel);
+      canvas.removeEventListener('contextmenu', handleContextMenu);
+      orbits.clear();
+      pointers.clear();
     };
-  }, [initWebGPU, animate]);
+  }, []);
 
-  return <canvas ref={canvasRef} className="w-full h-full block bg-black" />;
-};
+  return <canvas ref={canvasRef} className="w-full h-full block bg-black touch-none" />;
+});
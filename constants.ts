@@ -1,26 +1,94 @@
+import { NEIGHBOR_PARAMS } from './engine/spatialGrid';
+import { SIM_PARAMS } from './engine/uniforms';
 
+// Stands in for the user's custom force while there is none (engine/customForce.ts)
+export const NO_CUSTOM_FORCE = `fn customForce(particle : Particle, params : SimParams) -> vec2f {
+  return vec2f(0.0, 0.0);
+}`;
 
-// Physics Compute Shader
-export const COMPUTE_SHADER = `
+// Physics Compute Shader (mirrored on the CPU by engine/cpuSimulator.ts, apart from the custom force)
+export const buildComputeShader = (customForce: string): string => `
 struct Particle {
   pos : vec2f,
   vel : vec2f,
+  age : f32,
+  lifetime : f32, // <= 0: lives forever
+  z : f32, // Depth and its velocity, simulated in 3D mode only
+  vz : f32,
 };
 
-struct SimParams {
-  mousePos : vec2f,
-  resolution : vec2f,
-  deltaTime : f32,
-  speed : f32,
-  radius : f32,
-  force : f32,
-  isClicking : f32,
-  colorScheme : f32,
+${SIM_PARAMS.wgsl}
+
+struct Emitter {
+  @align(16) center : vec2f, // 64-byte stride, as uniform arrays require
+  size : vec2f, // Line / rectangle half extents, circle radius in x
+  direction : f32,
+  spread : f32,
+  speedMin : f32,
+  speedMax : f32,
+  lifetime : f32,
+  lifetimeVariance : f32,
+  shape : u32, // 0 point, 1 line, 2 circle, 3 rectangle
+  spawnStart : u32,
+  spawnCount : u32,
+};
+
+struct SpawnState {
+  count : atomic<u32>, // Spawn slots claimed this frame
+  budget : u32, // Particles to spawn this frame, across all emitters
+  emitterCount : u32,
+  seed : u32,
 };
 
 @group(0) @binding(0) var<uniform> params : SimParams;
 @group(0) @binding(1) var<storage, read> inputParticles : array<Particle>;
 @group(0) @binding(2) var<storage, read_write> outputParticles : array<Particle>;
+@group(0) @binding(3) var<uniform> emitters : array<Emitter, 8>; // MAX_EMITTERS
+struct ForceField {
+  position : vec2f,
+  radius : f32, // Aspect-corrected
+  strength : f32,
+  direction : f32, // Wind direction, radians
+  kind : u32, // 0 attractor, 1 repeller, 2 vortex, 3 wind, 4 drag
+  falloff : u32, // 0 constant, 1 linear, 2 smooth
+};
+
+struct ForceFieldList {
+  count : u32,
+  @align(16) fields : array<ForceField, 16>, // MAX_FORCE_FIELDS
+};
+
+@group(0) @binding(4) var<storage, read_write> spawnState : SpawnState;
+@group(0) @binding(5) var<uniform> forceFields : ForceFieldList;
+@group(0) @binding(6) var flowTexture : texture_2d<f32>; // rg32float vector field
+
+struct Obstacle {
+  @align(16) center : vec2f,
+  size : vec2f, // Box half extents, circle radius / polyline thickness in x
+  rotation : f32,
+  shape : u32, // 0 circle, 1 box, 2 polyline
+  segmentStart : u32,
+  segmentCount : u32,
+};
+
+struct ObstacleList {
+  count : u32,
+  maskEnabled : u32,
+  @align(16) items : array<Obstacle, 16>, // MAX_OBSTACLES
+  segments : array<vec4f, 128>, // MAX_OBSTACLE_SEGMENTS, clip space end points
+};
+
+@group(0) @binding(7) var<uniform> obstacles : ObstacleList;
+@group(0) @binding(8) var obstacleMask : texture_2d<f32>; // r32float signed distances
+
+${NEIGHBOR_PARAMS.wgsl}
+
+@group(1) @binding(0) var<uniform> neighbors : NeighborParams;
+@group(1) @binding(1) var<storage, read_write> cellCounts : array<atomic<u32>>;
+@group(1) @binding(2) var<storage, read_write> cellStart : array<u32>;
+@group(1) @binding(3) var<storage, read_write> particleCells : array<vec2u>; // (cell, rank in cell)
+@group(1) @binding(4) var<storage, read_write> sortedIndices : array<u32>; // Particle indices ordered by cell
+@group(1) @binding(5) var<storage, read_write> densities : array<vec2f>; // Fluid (density, pressure)
 
 // Hash function for randomness
 fn hash(value: u32) -> f32 {
@@ -34,6 +102,638 @@ fn hash(value: u32) -> f32 {
   return f32(state) / 4294967295.0;
 }
 
+// Next value of a per-particle random sequence
+fn random(rng : ptr<function, u32>) -> f32 {
+  *rng = *rng + 0x9E3779B9u;
+  return hash(*rng);
+}
+
+// Free-flowing particle anywhere on screen, as seeded at startup
+fn ambientParticle(rng : ptr<function, u32>) -> Particle {
+  var p : Particle;
+  p.pos = vec2f(random(rng), random(rng)) * 2.0 - 1.0;
+  p.vel = (vec2f(random(rng), random(rng)) - 0.5) * 0.05;
+  p.age = 0.0;
+  p.lifetime = 0.0;
+  p.z = random(rng) * 2.0 - 1.0;
+  p.vz = (random(rng) - 0.5) * 0.05;
+  return p;
+}
+
+fn spawnParticle(emitter : Emitter, rng : ptr<function, u32>, aspect : f32) -> Particle {
+  var p : Particle;
+  let r = random(rng);
+  if (emitter.shape == 1u) {
+    p.pos = mix(emitter.center - emitter.size, emitter.center + emitter.size, r);
+  } else if (emitter.shape == 2u) {
+    let a = r * 6.2831853;
+    p.pos = emitter.center + vec2f(cos(a) / aspect, sin(a)) * emitter.size.x;
+  } else if (emitter.shape == 3u) {
+    let r2 = random(rng);
+    p.pos = emitter.center + (vec2f(r, r2) * 2.0 - 1.0) * emitter.size;
+  } else {
+    p.pos = emitter.center;
+  }
+
+  // Velocity cone, corrected so the angle holds on screen
+  let angle = emitter.direction + (random(rng) * 2.0 - 1.0) * emitter.spread;
+  let speed = mix(emitter.speedMin, emitter.speedMax, random(rng));
+  p.vel = vec2f(cos(angle) / aspect, sin(angle)) * speed;
+
+  p.age = 0.0;
+  let variance = (random(rng) * 2.0 - 1.0) * emitter.lifetimeVariance;
+  p.lifetime = max(emitter.lifetime * (1.0 + variance), 0.01);
+  return p;
+}
+
+// Index of the emitter owning a spawn slot
+fn findEmitter(slot : u32) -> u32 {
+  for (var i = 0u; i < spawnState.emitterCount; i++) {
+    if (slot < emitters[i].spawnStart + emitters[i].spawnCount) {
+      return i;
+    }
+  }
+  return spawnState.emitterCount - 1u;
+}
+
+// --- Spatial Grid ---
+
+fn cellCoord(pos : vec2f) -> vec2i {
+  let c = vec2i(floor((pos + 1.0) / neighbors.cellSize));
+  return clamp(c, vec2i(0), vec2i(neighbors.dims) - 1);
+}
+
+fn cellIndex(c : vec2i) -> u32 {
+  return u32(c.y) * neighbors.dims.x + u32(c.x);
+}
+
+fn isDead(p : Particle) -> bool {
+  return p.lifetime > 0.0 && p.age >= p.lifetime;
+}
+
+@compute @workgroup_size(64)
+fn clearCells(@builtin(global_invocation_id) id : vec3u) {
+  if (id.x < neighbors.cellCount) {
+    atomicStore(&cellCounts[id.x], 0u);
+  }
+}
+
+@compute @workgroup_size(64)
+fn countCells(@builtin(global_invocation_id) id : vec3u) {
+  let i = id.x;
+  if (i >= arrayLength(&inputParticles)) {
+    return;
+  }
+  let cell = cellIndex(cellCoord(inputParticles[i].pos));
+  particleCells[i] = vec2u(cell, atomicAdd(&cellCounts[cell], 1u));
+}
+
+// Exclusive prefix sum of cellCounts into cellStart, in a single workgroup:
+// each thread sums a contiguous chunk of cells, the chunk totals are scanned
+// in workgroup memory, then each thread writes the offsets of its chunk.
+var<workgroup> chunkSums : array<u32, 256>;
+
+@compute @workgroup_size(256)
+fn prefixSum(@builtin(local_invocation_index) lid : u32) {
+  let n = neighbors.cellCount;
+  let chunk = (n + 255u) / 256u;
+  let begin = min(lid * chunk, n);
+  let end = min(begin + chunk, n);
+
+  var total = 0u;
+  for (var i = begin; i < end; i++) {
+    total += atomicLoad(&cellCounts[i]);
+  }
+  chunkSums[lid] = total;
+  workgroupBarrier();
+
+  // Hillis-Steele inclusive scan over the chunk totals
+  for (var offset = 1u; offset < 256u; offset *= 2u) {
+    var value = 0u;
+    if (lid >= offset) {
+      value = chunkSums[lid - offset];
+    }
+    workgroupBarrier();
+    chunkSums[lid] += value;
+    workgroupBarrier();
+  }
+
+  var running = chunkSums[lid] - total;
+  for (var i = begin; i < end; i++) {
+    cellStart[i] = running;
+    running += atomicLoad(&cellCounts[i]);
+  }
+}
+
+@compute @workgroup_size(64)
+fn scatterParticles(@builtin(global_invocation_id) id : vec3u) {
+  let i = id.x;
+  if (i >= arrayLength(&inputParticles)) {
+    return;
+  }
+  let cell = particleCells[i];
+  sortedIndices[cellStart[cell.x] + cell.y] = i;
+}
+
+// Integer lattice hash for the noise gradients
+fn latticeHash(c : vec3i) -> u32 {
+  var h = (u32(c.x) * 73856093u) ^ (u32(c.y) * 19349663u) ^ (u32(c.z) * 83492791u);
+  h = h ^ (h >> 13u);
+  h = h * 1274126177u;
+  h = h ^ (h >> 16u);
+  return h;
+}
+
+// Dot product with one of 12 edge gradients, picked by the hash
+fn gradient(h : u32, x : vec3f) -> f32 {
+  let k = h & 15u;
+  let u = select(x.y, x.x, k < 8u);
+  let v = select(select(x.z, x.x, k == 12u || k == 14u), x.y, k < 4u);
+  return select(-u, u, (k & 1u) == 0u) + select(-v, v, (k & 2u) == 0u);
+}
+
+fn simplexCorner(c : vec3i, x : vec3f) -> f32 {
+  let t = 0.6 - dot(x, x);
+  if (t < 0.0) {
+    return 0.0;
+  }
+  let t2 = t * t;
+  return t2 * t2 * gradient(latticeHash(c), x);
+}
+
+// 3D simplex noise, roughly in [-1, 1]
+fn simplex3(p : vec3f) -> f32 {
+  let G3 = 1.0 / 6.0;
+  let i = floor(p + (p.x + p.y + p.z) / 3.0);
+  let x0 = p - i + (i.x + i.y + i.z) * G3;
+
+  // Corners of the simplex containing p, by the ordering of x0's components
+  var i1 = vec3f(0.0, 0.0, 1.0);
+  var i2 = vec3f(1.0, 0.0, 1.0);
+  if (x0.x >= x0.y) {
+    if (x0.y >= x0.z) {
+      i1 = vec3f(1.0, 0.0, 0.0);
+      i2 = vec3f(1.0, 1.0, 0.0);
+    } else if (x0.x >= x0.z) {
+      i1 = vec3f(1.0, 0.0, 0.0);
+    }
+  } else {
+    if (x0.y < x0.z) {
+      i2 = vec3f(0.0, 1.0, 1.0);
+    } else if (x0.x < x0.z) {
+      i1 = vec3f(0.0, 1.0, 0.0);
+      i2 = vec3f(0.0, 1.0, 1.0);
+    } else {
+      i1 = vec3f(0.0, 1.0, 0.0);
+      i2 = vec3f(1.0, 1.0, 0.0);
+    }
+  }
+
+  let c = vec3i(i);
+  let n = simplexCorner(c, x0)
+    + simplexCorner(c + vec3i(i1), x0 - i1 + G3)
+    + simplexCorner(c + vec3i(i2), x0 - i2 + 2.0 * G3)
+    + simplexCorner(c + vec3i(1), x0 - 1.0 + 3.0 * G3);
+  return 32.0 * n;
+}
+
+// Fractal sum of simplex octaves, normalized to the simplex range
+fn fbm(p : vec2f, time : f32) -> f32 {
+  var sum = 0.0;
+  var amplitude = 1.0;
+  var total = 0.0;
+  var frequency = 1.0;
+  let octaves = u32(clamp(params.flowOctaves, 1.0, 8.0));
+  for (var o = 0u; o < octaves; o++) {
+    sum += simplex3(vec3f(p * frequency, time)) * amplitude;
+    total += amplitude;
+    amplitude *= 0.5;
+    frequency *= 2.0;
+  }
+  return sum / total;
+}
+
+// Bilinear sample of the loaded vector field, clamped at the screen edges
+fn sampleFlowTexture(pos : vec2f) -> vec2f {
+  let size = vec2i(textureDimensions(flowTexture));
+  let texel = vec2f((pos.x + 1.0) * 0.5, (1.0 - pos.y) * 0.5) * vec2f(size) - 0.5;
+  let base = floor(texel);
+  let t = texel - base;
+  let maxCoord = size - vec2i(1);
+  let c0 = clamp(vec2i(base), vec2i(0), maxCoord);
+  let c1 = clamp(vec2i(base) + vec2i(1), vec2i(0), maxCoord);
+  let top = mix(textureLoad(flowTexture, c0, 0).xy, textureLoad(flowTexture, vec2i(c1.x, c0.y), 0).xy, t.x);
+  let bottom = mix(textureLoad(flowTexture, vec2i(c0.x, c1.y), 0).xy, textureLoad(flowTexture, c1, 0).xy, t.x);
+  return mix(top, bottom, t.y);
+}
+
+// Flow field velocity at a position, from the selected generator
+fn flowField(pos : vec2f, aspect : f32) -> vec2f {
+  let scale = params.flowFrequency;
+  let time = params.time * params.flowEvolution;
+  let flowType = u32(params.flowType);
+
+  if (flowType == 1u) {
+    // Curl of the noise potential: divergence-free, so particles swirl instead of clumping
+    let p = vec2f(pos.x * aspect, pos.y) * scale;
+    let e = 0.01;
+    let dx = fbm(p + vec2f(e, 0.0), time) - fbm(p - vec2f(e, 0.0), time);
+    let dy = fbm(p + vec2f(0.0, e), time) - fbm(p - vec2f(0.0, e), time);
+    return vec2f(dy, -dx) / (2.0 * e) * 0.5;
+  }
+  if (flowType == 2u) {
+    let p = vec2f(pos.x * aspect, pos.y) * scale;
+    return vec2f(fbm(p, time), fbm(p + vec2f(31.4, 17.7), time)) * 2.0;
+  }
+  if (flowType == 3u) {
+    return sampleFlowTexture(pos);
+  }
+  // Classic sin / cos pattern, drifting over time
+  return vec2f(
+    sin(pos.y * scale * 3.14 + pos.x + time),
+    cos(pos.x * scale * 3.14 + pos.y * 0.5 + time)
+  );
+}
+
+// Swirl around a hovering pointer, repel from a pressed one
+fn pointerForce(pointer : vec4f, pos : vec2f, aspect : f32) -> vec2f {
+  // Vector from particle to pointer
+  let distVec = pointer.xy - pos;
+  let distVecCorrected = vec2f(distVec.x * aspect, distVec.y);
+  let dist = length(distVecCorrected);
+  if (dist >= params.radius) {
+    return vec2f(0.0, 0.0);
+  }
+
+  let t = 1.0 - dist / params.radius;
+  let strength = t * params.force * pointer.w;
+  let dir = normalize(distVec);
+  let tangent = vec2f(-dir.y, dir.x);
+
+  if (pointer.z > 0.5) {
+    // Click: Repel
+    return -dir * strength * 10.0;
+  }
+  // Hover: Swirl
+  return (dir * 0.5 + tangent * 8.0) * strength;
+}
+
+// --- Obstacles: signed distances in aspect-corrected space, negative inside ---
+
+fn segmentDistance(p : vec2f, a : vec2f, b : vec2f) -> f32 {
+  let ab = b - a;
+  let t = clamp(dot(p - a, ab) / max(dot(ab, ab), 1e-12), 0.0, 1.0);
+  return length(p - a - ab * t);
+}
+
+fn obstacleDistance(o : Obstacle, q : vec2f, aspect : f32) -> f32 {
+  let d = q - vec2f(o.center.x * aspect, o.center.y);
+  if (o.shape == 0u) {
+    return length(d) - o.size.x;
+  }
+  if (o.shape == 1u) {
+    let c = cos(o.rotation);
+    let s = sin(o.rotation);
+    let local = abs(vec2f(c * d.x + s * d.y, -s * d.x + c * d.y)) - o.size;
+    return length(max(local, vec2f(0.0))) + min(max(local.x, local.y), 0.0);
+  }
+  var dist = 1e9;
+  for (var i = o.segmentStart; i < o.segmentStart + o.segmentCount; i++) {
+    let seg = obstacles.segments[i];
+    dist = min(dist, segmentDistance(q, vec2f(seg.x * aspect, seg.y), vec2f(seg.z * aspect, seg.w)));
+  }
+  return dist - o.size.x;
+}
+
+// Bilinear sample of the baked mask, clamped at the screen edges
+fn sampleObstacleMask(pos : vec2f) -> f32 {
+  let size = vec2i(textureDimensions(obstacleMask));
+  let texel = vec2f((pos.x + 1.0) * 0.5, (1.0 - pos.y) * 0.5) * vec2f(size) - 0.5;
+  let base = floor(texel);
+  let t = texel - base;
+  let maxCoord = size - vec2i(1);
+  let c0 = clamp(vec2i(base), vec2i(0), maxCoord);
+  let c1 = clamp(vec2i(base) + vec2i(1), vec2i(0), maxCoord);
+  let top = mix(textureLoad(obstacleMask, c0, 0).x, textureLoad(obstacleMask, vec2i(c1.x, c0.y), 0).x, t.x);
+  let bottom = mix(textureLoad(obstacleMask, vec2i(c0.x, c1.y), 0).x, textureLoad(obstacleMask, c1, 0).x, t.x);
+  return mix(top, bottom, t.y);
+}
+
+fn sceneDistance(pos : vec2f, aspect : f32) -> f32 {
+  var d = 1e9;
+  let q = vec2f(pos.x * aspect, pos.y);
+  for (var i = 0u; i < obstacles.count; i++) {
+    d = min(d, obstacleDistance(obstacles.items[i], q, aspect));
+  }
+  if (obstacles.maskEnabled != 0u) {
+    d = min(d, sampleObstacleMask(pos));
+  }
+  return d;
+}
+
+// Pushes a particle out of any obstacle it entered and removes the velocity
+// into the surface, so it bounces by the restitution and slides along
+fn collideObstacles(particle : ptr<function, Particle>, aspect : f32) {
+  let pos = (*particle).pos;
+  let d = sceneDistance(pos, aspect);
+  if (d >= 0.0) {
+    return;
+  }
+
+  let e = 0.002;
+  let grad = vec2f(
+    sceneDistance(pos + vec2f(e / aspect, 0.0), aspect) - sceneDistance(pos - vec2f(e / aspect, 0.0), aspect),
+    sceneDistance(pos + vec2f(0.0, e), aspect) - sceneDistance(pos - vec2f(0.0, e), aspect)
+  );
+  if (dot(grad, grad) <= 0.0) {
+    return;
+  }
+  let n = normalize(grad);
+  (*particle).pos = pos + vec2f(n.x / aspect, n.y) * -d;
+
+  var v = vec2f((*particle).vel.x * aspect, (*particle).vel.y);
+  let vn = dot(v, n);
+  if (vn < 0.0) {
+    v -= n * vn * (1.0 + params.restitution);
+    (*particle).vel = vec2f(v.x / aspect, v.y);
+  }
+}
+
+// Force of one placed force field on a particle. Fields act continuously, so
+// they are scaled far below the momentary mouse force.
+fn fieldForce(field : ForceField, particle : Particle, aspect : f32) -> vec2f {
+  let toCenter = field.position - particle.pos;
+  let dist = length(vec2f(toCenter.x * aspect, toCenter.y));
+  if (dist >= field.radius) {
+    return vec2f(0.0, 0.0);
+  }
+
+  let q = dist / field.radius;
+  var weight = 1.0;
+  if (field.falloff == 1u) {
+    weight = 1.0 - q;
+  } else if (field.falloff == 2u) {
+    weight = (1.0 - q * q) * (1.0 - q * q);
+  }
+  let strength = field.strength * weight * 0.02;
+
+  var dir = vec2f(0.0, 0.0);
+  if (dist > 0.0) {
+    dir = normalize(toCenter);
+  }
+  switch (field.kind) {
+    case 0u: { return dir * strength; }
+    case 1u: { return -dir * strength; }
+    case 2u: { return vec2f(-dir.y, dir.x) * strength; }
+    case 3u: { return vec2f(cos(field.direction) / aspect, sin(field.direction)) * strength; }
+    // Drag: capped so a step can at most stop the particle, never reverse it
+    default: { return -particle.vel * min(strength * 30.0, 1.0 / (params.deltaTime * 5.0)); }
+  }
+}
+
+// SPH smoothing kernel on the normalized distance q = r / h, without the
+// usual dimensional constants so the densities stay in a friendly range
+fn densityKernel(q : f32) -> f32 {
+  let v = 1.0 - q * q;
+  return v * v * v;
+}
+
+// Fluid density and pressure of every particle, needed by its neighbors in \`main\`
+@compute @workgroup_size(64)
+fn computeDensity(@builtin(global_invocation_id) id : vec3u) {
+  let index = id.x;
+  if (index >= arrayLength(&inputParticles)) {
+    return;
+  }
+  let particle = inputParticles[index];
+  let aspect = max(params.resolution.x, 1.0) / max(params.resolution.y, 1.0);
+  let home = cellCoord(particle.pos);
+  var density = 0.0;
+  var count = 0u;
+
+  for (var dy = -1; dy <= 1; dy++) {
+    for (var dx = -1; dx <= 1; dx++) {
+      let c = home + vec2i(dx, dy);
+      if (any(c < vec2i(0)) || any(c >= vec2i(neighbors.dims))) {
+        continue;
+      }
+      let cell = cellIndex(c);
+      let start = cellStart[cell];
+      let end = start + atomicLoad(&cellCounts[cell]);
+      for (var j = start; j < end && count < neighbors.maxNeighbors; j++) {
+        let other = inputParticles[sortedIndices[j]];
+        if (isDead(other)) {
+          continue;
+        }
+        let d = other.pos - particle.pos;
+        let dist = length(vec2f(d.x * aspect, d.y));
+        if (dist < neighbors.radius) {
+          density += densityKernel(dist / neighbors.radius);
+          count++;
+        }
+      }
+    }
+  }
+
+  let pressure = neighbors.stiffness * (density - neighbors.restDensity);
+  densities[index] = vec2f(density, pressure);
+}
+
+struct NeighborSums {
+  count : u32,
+  separation : vec2f, // Sum of falloff-weighted directions away from neighbors
+  center : vec2f, // Sum of neighbor positions
+  velocity : vec2f, // Sum of neighbor velocities
+  pressure : vec2f, // Fluid pressure force
+  viscosity : vec2f, // Fluid velocity diffusion
+};
+
+// Accumulates what the current mode needs from the particles in the surrounding 3x3 cells
+fn gatherNeighbors(index : u32, particle : Particle, aspect : f32) -> NeighborSums {
+  var sums : NeighborSums;
+  let home = cellCoord(particle.pos);
+  let fluid = neighbors.mode == 2u;
+  var own = vec2f(1.0, 0.0);
+  if (fluid) {
+    own = densities[index];
+  }
+
+  for (var dy = -1; dy <= 1; dy++) {
+    for (var dx = -1; dx <= 1; dx++) {
+      let c = home + vec2i(dx, dy);
+      if (any(c < vec2i(0)) || any(c >= vec2i(neighbors.dims))) {
+        continue;
+      }
+      let cell = cellIndex(c);
+      let start = cellStart[cell];
+      let end = start + atomicLoad(&cellCounts[cell]);
+      for (var j = start; j < end && sums.count < neighbors.maxNeighbors; j++) {
+        let otherIndex = sortedIndices[j];
+        let other = inputParticles[otherIndex];
+        if (otherIndex == index || isDead(other)) {
+          continue;
+        }
+        let d = other.pos - particle.pos;
+        let dist = length(vec2f(d.x * aspect, d.y));
+        if (dist <= 0.0 || dist >= neighbors.radius) {
+          continue;
+        }
+        let falloff = 1.0 - dist / neighbors.radius;
+        let away = -d / dist;
+        sums.separation += away * falloff;
+        sums.center += other.pos;
+        sums.velocity += other.vel;
+        sums.count++;
+
+        if (fluid) {
+          let o = densities[otherIndex];
+          let density = max(o.x, 1e-3);
+          sums.pressure += away * (own.y + o.y) * 0.5 * falloff * falloff / density;
+          sums.viscosity += (other.vel - particle.vel) * falloff / density;
+        }
+      }
+    }
+  }
+  return sums;
+}
+
+// Flow mode: optional separation / cohesion on top of the flow field
+fn neighborForce(sums : NeighborSums, particle : Particle) -> vec2f {
+  if (sums.count == 0u) {
+    return vec2f(0.0, 0.0);
+  }
+  // Both terms are normalized to at most unit length before weighting
+  let separationDir = sums.separation / f32(sums.count);
+  let cohesionDir = (sums.center / f32(sums.count) - particle.pos) / neighbors.radius;
+  return (separationDir * neighbors.separation + cohesionDir * neighbors.cohesion) * 0.1;
+}
+
+// Boids: velocity change per 60 Hz frame from separation, alignment and cohesion
+fn boidSteering(sums : NeighborSums, particle : Particle) -> vec2f {
+  if (sums.count == 0u) {
+    return vec2f(0.0, 0.0);
+  }
+  let n = f32(sums.count);
+  let separationDir = sums.separation / n;
+  let cohesionDir = (sums.center / n - particle.pos) / neighbors.radius;
+  let alignment = sums.velocity / n - particle.vel;
+  return (separationDir * neighbors.separation + cohesionDir * neighbors.cohesion) * 0.001
+    + alignment * neighbors.alignment * 0.05;
+}
+
+// Fluid: velocity change per 60 Hz frame from pressure, viscosity and gravity
+fn fluidAcceleration(sums : NeighborSums, index : u32) -> vec2f {
+  let density = max(densities[index].x, 1e-3);
+  return sums.pressure / density * 0.01
+    + sums.viscosity * neighbors.viscosity * 0.1
+    - vec2f(0.0, neighbors.gravity * 0.0005);
+}
+
+fn limitSpeed(vel : vec2f, minSpeed : f32, maxSpeed : f32) -> vec2f {
+  let speed = length(vel);
+  if (speed <= 0.0) {
+    return vel;
+  }
+  return vel / speed * clamp(speed, minSpeed, maxSpeed);
+}
+
+// --- 3D Mode ---
+// The volume is the cube [-1, 1]^3, seen through the orbit camera. Only the
+// flow field and the pointers act in it; the other forces are 2D-only.
+
+// Three decorrelated noise fields, the vector potential of the 3D flow
+fn flowPotential(p : vec3f) -> vec3f {
+  return vec3f(
+    simplex3(p),
+    simplex3(p + vec3f(31.4, 17.7, 9.2)),
+    simplex3(p + vec3f(-12.7, 43.3, 27.9))
+  );
+}
+
+// Curl of the potential: divergence-free, like the 2D curl field
+fn flowField3d(pos : vec3f) -> vec3f {
+  let p = pos * params.flowFrequency + vec3f(0.0, 0.0, params.time * params.flowEvolution);
+  let e = 0.01;
+  let a = flowPotential(p);
+  let dx = flowPotential(p + vec3f(e, 0.0, 0.0)) - a;
+  let dy = flowPotential(p + vec3f(0.0, e, 0.0)) - a;
+  let dz = flowPotential(p + vec3f(0.0, 0.0, e)) - a;
+  return vec3f(dy.z - dz.y, dz.x - dx.z, dx.y - dy.x) / e * 0.5;
+}
+
+// Direction of the ray from the camera through a pointer's clip space position
+fn pointerRay(pointer : vec4f, aspect : f32) -> vec3f {
+  let tanHalfFov = params.eye.w;
+  return normalize(
+    params.forward.xyz
+    + params.right.xyz * pointer.x * tanHalfFov * aspect
+    + params.up.xyz * pointer.y * tanHalfFov
+  );
+}
+
+// pointerForce around the pointer ray instead of a point
+fn pointerForce3d(pointer : vec4f, pos : vec3f, aspect : f32) -> vec3f {
+  let ray = pointerRay(pointer, aspect);
+  let rel = pos - params.eye.xyz;
+  let offset = rel - ray * dot(rel, ray); // From the ray to the particle
+  let dist = length(offset);
+  if (dist >= params.radius || dist < 1e-5) {
+    return vec3f(0.0);
+  }
+
+  let t = 1.0 - dist / params.radius;
+  let strength = t * params.force * pointer.w;
+  let dir = -offset / dist;
+  let tangent = cross(ray, dir);
+
+  if (pointer.z > 0.5) {
+    // Click: Repel
+    return -dir * strength * 10.0;
+  }
+  // Hover: Swirl around the ray
+  return (dir * 0.5 + tangent * 8.0) * strength;
+}
+
+// Velocity, position and boundaries of one step in the volume
+fn step3d(particle : ptr<function, Particle>, rng : ptr<function, u32>, aspect : f32) {
+  var pos = vec3f((*particle).pos, (*particle).z);
+  var vel = vec3f((*particle).vel, (*particle).vz);
+
+  let flow = flowField3d(pos);
+  var force = vec3f(0.0);
+  for (var p = 0u; p < u32(params.pointerCount); p++) {
+    force += pointerForce3d(params.pointers[p], pos, aspect);
+  }
+
+  let frames = params.deltaTime * 60.0;
+  vel = vel * pow(0.96, frames) + (flow * 0.1 * params.speed * 0.01 * frames) + (force * params.deltaTime * 5.0);
+  pos = pos + vel * params.speed * frames;
+
+  let boundary = u32(params.boundaryMode);
+  let outside = abs(pos) > vec3f(1.0);
+  if (boundary == 1u) {
+    vel = select(vel, -vel * params.restitution, outside);
+    pos = clamp(pos, vec3f(-1.0), vec3f(1.0));
+  } else if ((boundary == 2u && any(outside)) || (boundary == 3u && any(abs(pos) > vec3f(2.0)))) {
+    if ((*particle).lifetime > 0.0) {
+      (*particle).age = (*particle).lifetime;
+    } else {
+      *particle = ambientParticle(rng);
+      return;
+    }
+  } else if (boundary == 0u) {
+    pos = pos - select(vec3f(0.0), sign(pos) * 2.0, outside);
+  }
+
+  (*particle).pos = pos.xy;
+  (*particle).vel = vel.xy;
+  (*particle).z = pos.z;
+  (*particle).vz = vel.z;
+}
+
+// --- Custom force, written in the app ---
+${customForce}
+
 @compute @workgroup_size(64)
 fn main(@builtin(global_invocation_id) GlobalInvocationID : vec3u) {
   let index = GlobalInvocationID.x;
@@ -42,113 +742,194 @@ fn main(@builtin(global_invocation_id) GlobalInvocationID : vec3u) {
   }
 
   var particle = inputParticles[index];
+  var rng = index * 747796405u + spawnState.seed;
   
   // Safe resolution access
   let resX = max(params.resolution.x, 1.0);
   let resY = max(params.resolution.y, 1.0);
   let aspect = resX / resY;
-  
-  let mouse = params.mousePos; 
-  
-  // Vector from particle to mouse
-  let distVec = mouse - particle.pos;
-  let distVecCorrected = vec2f(distVec.x * aspect, distVec.y);
-  let dist = length(distVecCorrected);
 
-  // --- Physics: Flow Field & Noise ---
-  let scale = 3.0;
+  // --- Lifetime & Spawning ---
+  particle.age += params.deltaTime;
+  let emitting = spawnState.emitterCount > 0u;
+
+  if (emitting && particle.lifetime <= 0.0) {
+    // Free-flowing particles retire over a few seconds to feed the emitters
+    particle.lifetime = particle.age + 0.5 + random(&rng) * 1.5;
+  }
+
+  if (particle.lifetime > 0.0 && particle.age >= particle.lifetime) {
+    if (!emitting) {
+      particle = ambientParticle(&rng);
+    } else {
+      // Recycle: claim one of this frame's spawn slots
+      let slot = atomicAdd(&spawnState.count, 1u);
+      if (slot >= spawnState.budget) {
+        // Stays dead (and invisible) until a slot frees up
+        outputParticles[index] = particle;
+        return;
+      }
+      particle = spawnParticle(emitters[findEmitter(slot)], &rng, aspect);
+    }
+  }
+
+  if (params.mode3d > 0.5) {
+    step3d(&particle, &rng, aspect);
+    outputParticles[index] = particle;
+    return;
+  }
   
-  // Static flow field
-  let flow = vec2f(
-    sin(particle.pos.y * scale * 3.14 + particle.pos.x),
-    cos(particle.pos.x * scale * 3.14 + particle.pos.y * 0.5)
-  );
+  // --- Physics: Flow Field & Noise ---
+  let flow = flowField(particle.pos, aspect);
 
   // --- Physics: Interaction ---
   var force = vec2f(0.0, 0.0);
-  
-  if (dist < params.radius) {
-    let t = 1.0 - dist / params.radius;
-    let strength = t * params.force;
-    
-    let dir = normalize(distVec);
-    let tangent = vec2f(-dir.y, dir.x);
-
-    if (params.isClicking > 0.5) {
-       // Click: Repel
-       force = -dir * strength * 10.0; 
-    } else {
-       // Hover: Swirl
-       force = (dir * 0.5 + tangent * 8.0) * strength;
-    }
+  for (var p = 0u; p < u32(params.pointerCount); p++) {
+    force += pointerForce(params.pointers[p], particle.pos, aspect);
   }
 
-  // Update Velocity
-  particle.vel = particle.vel * 0.96 + (flow * 0.1 * params.speed * 0.01) + (force * params.deltaTime * 5.0);
+  // --- Physics: Force Fields ---
+  for (var f = 0u; f < forceFields.count; f++) {
+    force += fieldForce(forceFields.fields[f], particle, aspect);
+  }
+  force += customForce(particle, params);
+
+  // --- Physics: Neighbors ---
+  var sums : NeighborSums;
+  if (neighbors.enabled != 0u) {
+    sums = gatherNeighbors(index, particle, aspect);
+  }
+
+  // Update Velocity. Damping, flow and steering are tuned per 60 Hz frame,
+  // so scale them by how many of those frames this step covers.
+  let frames = params.deltaTime * 60.0;
+  let interaction = force * params.deltaTime * 5.0;
+
+  if (neighbors.mode == 1u) {
+    // Boids keep cruising between a minimum and maximum speed instead of damping out
+    particle.vel = particle.vel + boidSteering(sums, particle) * frames + interaction;
+    particle.vel = limitSpeed(particle.vel, neighbors.maxSpeed * 0.3, neighbors.maxSpeed);
+  } else if (neighbors.mode == 2u) {
+    particle.vel = particle.vel * pow(0.99, frames) + fluidAcceleration(sums, index) * frames + interaction;
+  } else {
+    force += neighborForce(sums, particle);
+    particle.vel = particle.vel * pow(0.96, frames) + (flow * 0.1 * params.speed * 0.01 * frames) + (force * params.deltaTime * 5.0);
+  }
   
   // Update Position
   particle.pos = particle.pos + particle.vel * params.speed * params.deltaTime * 60.0;
 
-  // Boundary wrap-around
-  if (particle.pos.x < -1.0) { particle.pos.x += 2.0; }
-  if (particle.pos.x > 1.0) { particle.pos.x -= 2.0; }
-  if (particle.pos.y < -1.0) { particle.pos.y += 2.0; }
-  if (particle.pos.y > 1.0) { particle.pos.y -= 2.0; }
+  if (obstacles.count > 0u || obstacles.maskEnabled != 0u) {
+    collideObstacles(&particle, aspect);
+  }
+
+  // --- Boundaries ---
+  var boundary = u32(params.boundaryMode);
+  if (boundary == 0u && neighbors.mode == 2u) {
+    // The fluid is contained by the screen edges; wrapping would rain it through the floor
+    boundary = 1u;
+  }
+  let outside = abs(particle.pos) > vec2f(1.0);
+
+  if (boundary == 1u) {
+    if (outside.x) {
+      particle.pos.x = clamp(particle.pos.x, -1.0, 1.0);
+      particle.vel.x *= -params.restitution;
+    }
+    if (outside.y) {
+      particle.pos.y = clamp(particle.pos.y, -1.0, 1.0);
+      particle.vel.y *= -params.restitution;
+    }
+  } else if ((boundary == 2u && any(outside)) || (boundary == 3u && any(abs(particle.pos) > vec2f(2.0)))) {
+    // Kill, or in open mode once far off screen: emitter particles die and get
+    // recycled, free-flowing ones respawn somewhere on screen
+    if (particle.lifetime > 0.0) {
+      particle.age = particle.lifetime;
+    } else {
+      particle = ambientParticle(&rng);
+    }
+  } else if (boundary == 0u) {
+    if (particle.pos.x < -1.0) { particle.pos.x += 2.0; }
+    if (particle.pos.x > 1.0) { particle.pos.x -= 2.0; }
+    if (particle.pos.y < -1.0) { particle.pos.y += 2.0; }
+    if (particle.pos.y > 1.0) { particle.pos.y -= 2.0; }
+  }
 
   outputParticles[index] = particle;
 }
 `;
 
+export const COMPUTE_SHADER = buildComputeShader(NO_CUSTOM_FORCE);
+
 // Combined Render Shader (Vertex + Fragment)
 export const RENDER_SHADER = `
 struct Particle {
   pos : vec2f,
   vel : vec2f,
+  age : f32,
+  lifetime : f32, // <= 0: lives forever
+  z : f32, // Depth and its velocity, simulated in 3D mode only
+  vz : f32,
 };
 
 struct VertexOutput {
   @builtin(position) position : vec4f,
   @location(0) color : vec4f,
   @location(1) uv : vec2f,
+  @location(2) stretch : f32, // Streak length beyond a disc, in particle radii
+  @location(3) atlasUv : vec2f,
 };
 
-struct SimParams {
-  mousePos : vec2f,
-  resolution : vec2f,
-  deltaTime : f32,
-  speed : f32,
-  radius : f32,
-  force : f32,
-  isClicking : f32,
-  colorScheme : f32,
-};
+${SIM_PARAMS.wgsl}
 
 @group(0) @binding(0) var<uniform> params : SimParams;
 @group(0) @binding(1) var<storage, read> particles : array<Particle>;
+@group(0) @binding(2) var<storage, read> densities : array<vec2f>; // Only filled while colored by density
+@group(0) @binding(3) var gradient : texture_1d<f32>;
+@group(0) @binding(4) var atlas : texture_2d<f32>;
+@group(0) @binding(5) var atlasSampler : sampler;
 
-// Color Functions
-fn getNeonColor(t: f32) -> vec3f {
-  let c1 = vec3f(0.05, 0.6, 1.0); // Cyan
-  let c2 = vec3f(0.6, 0.0, 1.0);  // Purple
-  let c3 = vec3f(1.0, 0.9, 0.5);  // White/Gold
-  if (t < 0.5) { return mix(c1, c2, t * 2.0); }
-  return mix(c2, c3, (t - 0.5) * 2.0);
+// Same hash as in COMPUTE_SHADER
+fn hash(value: u32) -> f32 {
+  var state = value;
+  state = state ^ 2747636419u;
+  state = state * 2654435769u;
+  state = state ^ (state >> 16u);
+  state = state * 2654435769u;
+  state = state ^ (state >> 16u);
+  state = state * 2654435769u;
+  return f32(state) / 4294967295.0;
+}
+
+// Clip space position of a world point seen through the 3D orbit camera (engine/camera.ts)
+fn project(world : vec3f, aspect : f32) -> vec4f {
+  let near = 0.01;
+  let far = 100.0;
+  let rel = world - params.eye.xyz;
+  let depth = dot(rel, params.forward.xyz);
+  let f = 1.0 / params.eye.w;
+  return vec4f(
+    dot(rel, params.right.xyz) * f / aspect,
+    dot(rel, params.up.xyz) * f,
+    (depth - near) * far / (far - near),
+    depth
+  );
 }
 
-fn getFireColor(t: f32) -> vec3f {
-  let c1 = vec3f(0.5, 0.0, 0.0);
-  let c2 = vec3f(1.0, 0.3, 0.0);
-  let c3 = vec3f(1.0, 0.9, 0.1);
-  if (t < 0.5) { return mix(c1, c2, t * 2.0); }
-  return mix(c2, c3, (t - 0.5) * 2.0);
+// Fully saturated color of hue h, wrapping around 0..1
+fn hueColor(h : f32) -> vec3f {
+  let k = (fract(h) * 6.0 + vec3f(0.0, 4.0, 2.0)) % 6.0;
+  return clamp(abs(k - 3.0) - 1.0, vec3f(0.0), vec3f(1.0));
 }
 
-fn getOceanColor(t: f32) -> vec3f {
-  let c1 = vec3f(0.0, 0.1, 0.3);
-  let c2 = vec3f(0.0, 0.5, 0.7);
-  let c3 = vec3f(0.6, 1.0, 0.9);
-  if (t < 0.5) { return mix(c1, c2, t * 2.0); }
-  return mix(c2, c3, (t - 0.5) * 2.0);
+// Linearly interpolated lookup into the gradient texture, t in 0..1
+fn gradientColor(t : f32) -> vec3f {
+  let last = textureDimensions(gradient) - 1u;
+  let x = clamp(t, 0.0, 1.0) * f32(last);
+  let i = min(u32(x), last);
+  let a = textureLoad(gradient, i, 0).rgb;
+  let b = textureLoad(gradient, min(i + 1u, last), 0).rgb;
+  return mix(a, b, fract(x));
 }
 
 @vertex
@@ -158,6 +939,17 @@ fn vs_main(
 ) -> VertexOutput {
   var particle = particles[iIndex];
   var output : VertexOutput;
+
+  // Normalized age, 0 for particles that live forever
+  var life = 0.0;
+  if (particle.lifetime > 0.0) {
+    life = particle.age / particle.lifetime;
+    if (life >= 1.0) {
+      // Dead: move the quad outside clip space
+      output.position = vec4f(2.0, 2.0, 0.0, 1.0);
+      return output;
+    }
+  }
   
   // Billboarding logic: Generate a quad from 6 vertices
   var pos = vec2f(0.0, 0.0);
@@ -171,37 +963,113 @@ fn vs_main(
   else if (corner == 4u) { pos = vec2f( 1.0, -1.0); uv = vec2f(1.0, 0.0); }
   else if (corner == 5u) { pos = vec2f( 1.0,  1.0); uv = vec2f(1.0, 1.0); }
 
-  // Particle Size (in pixels approx, converted to NDC)
-  let size = 4.0; 
   let resX = max(params.resolution.x, 1.0);
   let resY = max(params.resolution.y, 1.0);
-  
-  // Convert pixel size to clip space
-  let sizeX = size / resX * 2.0; 
-  let sizeY = size / resY * 2.0;
+  let res = vec2f(resX, resY);
+  let aspect = resX / resY;
+
+  // Particle center in clip space, and the distance it moves on screen per frame.
+  // In 3D, quad offsets are scaled by the orbit distance before the perspective
+  // divide, so particles keep their size at the center and shrink with depth.
+  var center = vec4f(particle.pos, 0.0, 1.0);
+  var depthScale = 1.0;
+  var screenVel = particle.vel * params.speed;
+  var speed = length(particle.vel) * 80.0; // Adjusted scale
+  if (params.mode3d > 0.5) {
+    let world = vec3f(particle.pos, particle.z);
+    let vel = vec3f(particle.vel, particle.vz);
+    center = project(world, aspect);
+    if (center.w < 0.01) {
+      // Behind the camera
+      output.position = vec4f(2.0, 2.0, 0.0, 1.0);
+      return output;
+    }
+    depthScale = params.forward.w;
+    speed = length(vel) * 80.0;
+    let ahead = project(world + vel * params.speed, aspect);
+    screenVel = vec2f(0.0);
+    if (ahead.w > 0.01) {
+      screenVel = (ahead.xy / ahead.w - center.xy / center.w) * center.w / depthScale;
+    }
+  }
+
+  // Particle size in pixels, attenuated by speed and age
+  var size = params.particleSize * mix(1.0, 0.25 + 0.75 * clamp(speed, 0.0, 1.0), params.sizeBySpeed);
+  if (params.shrinkByAge > 0.5) { size *= 1.0 - life; }
+  let shape = u32(params.particleShape + 0.5);
 
-  // Apply position
-  let finalPos = particle.pos + vec2f(pos.x * sizeX, pos.y * sizeY);
-  output.position = vec4f(finalPos, 0.0, 1.0);
+  // Quad half-axes in pixels; streaks stretch along the distance covered per frame
+  var axisX = vec2f(size, 0.0);
+  var axisY = vec2f(0.0, size);
+  output.stretch = 0.0;
+  if (shape == 1u) {
+    let motion = screenVel * res * 0.5 * params.streakLength;
+    let len = length(motion);
+    if (len > 1e-3 && size > 0.0) {
+      let dir = motion / len;
+      axisX = dir * (size + len * 0.5);
+      axisY = vec2f(-dir.y, dir.x) * size;
+      output.stretch = len * 0.5 / size;
+    }
+  }
+
+  // Apply position, converting pixels to clip space
+  let offset = (axisX * pos.x + axisY * pos.y) / res * 2.0;
+  output.position = vec4f(center.xy + offset * depthScale, center.z, center.w);
   output.uv = uv;
-  
-  // Color calculation based on speed
-  let speed = length(particle.vel) * 80.0; // Adjusted scale
-  let t = clamp(speed, 0.0, 1.0);
+
+  if (shape == 2u) {
+    let columns = max(u32(params.atlasColumns), 1u);
+    let rows = max(u32(params.atlasRows), 1u);
+    let frames = columns * rows;
+    var frame = min(u32(hash(iIndex) * f32(frames)), frames - 1u);
+    if (params.frameMode > 0.5 && particle.lifetime > 0.0) {
+      frame = min(u32(life * f32(frames)), frames - 1u);
+    }
+    // Atlas rows run from the top down
+    let cell = vec2f(f32(frame % columns), f32(frame / columns));
+    output.atlasUv = (cell + vec2f(uv.x, 1.0 - uv.y)) / vec2f(f32(columns), f32(rows));
+  }
+
+  // Color from the gradient, or straight from the direction of travel
+  let source = u32(params.colorSource + 0.5);
   var colorRGB : vec3f;
-  
-  if (params.colorScheme < 0.5) { colorRGB = getNeonColor(t); }
-  else if (params.colorScheme < 1.5) { colorRGB = getFireColor(t); }
-  else { colorRGB = getOceanColor(t); }
-  
-  output.color = vec4f(colorRGB, 1.0);
+  if (source == 1u) {
+    colorRGB = hueColor(atan2(screenVel.y, screenVel.x) / 6.2831853 + 0.5);
+  } else {
+    var t = speed;
+    if (source == 2u) {
+      t = life;
+    } else if (source == 3u) {
+      // Distance from the center, reaching 1 in the corners
+      if (params.mode3d > 0.5) {
+        t = length(vec3f(particle.pos, particle.z)) / sqrt(3.0);
+      } else {
+        t = length(vec2f(particle.pos.x * aspect, particle.pos.y)) / length(vec2f(aspect, 1.0));
+      }
+    } else if (source == 4u) {
+      t = densities[iIndex].x * params.densityScale;
+    }
+    colorRGB = gradientColor(t);
+  }
+
+  var alpha = 1.0;
+  if (params.fadeByAge > 0.5) { alpha = 1.0 - life; }
+  output.color = vec4f(colorRGB, alpha);
   return output;
 }
 
 @fragment
 fn fs_main(input : VertexOutput) -> @location(0) vec4f {
-  // Circular Glow
-  let dist = distance(input.uv, vec2f(0.5, 0.5));
+  if (u32(params.particleShape + 0.5) == 2u) {
+    let texel = textureSample(atlas, atlasSampler, input.atlasUv);
+    return vec4f(texel.rgb * input.color.rgb, texel.a * input.color.a);
+  }
+
+  // Circular Glow; streaks are capsules, the disc pulled apart along x
+  let c = (input.uv - 0.5) * 2.0;
+  let along = max(abs(c.x) * (1.0 + input.stretch) - input.stretch, 0.0);
+  let dist = length(vec2f(along, c.y)) * 0.5;
   if (dist > 0.5) { discard; }
 
   // Soft glow from center
@@ -209,6 +1077,102 @@ fn fs_main(input : VertexOutput) -> @location(0) vec4f {
   let alpha = pow(strength, 2.0);
 
   // Boost alpha for visibility
-  return vec4f(input.color.rgb, alpha * 1.5);
+  return vec4f(input.color.rgb, alpha * 1.5 * input.color.a);
 }
-`;
\ No newline at end of file
+`;
+// Post-processing: trail fading, bloom and tonemapping of the HDR scene (engine/PostProcessor.ts)
+export const POST_SHADER = `
+struct PostParams {
+  threshold : f32, // Luminance where bloom starts
+  intensity : f32, // 0 while bloom is off
+  exposure : f32,
+  tonemap : f32, // 0 none, 1 Reinhard, 2 ACES
+};
+
+struct FullscreenOutput {
+  @builtin(position) position : vec4f,
+  @location(0) uv : vec2f,
+};
+
+@group(0) @binding(0) var<uniform> post : PostParams;
+@group(0) @binding(1) var source : texture_2d<f32>;
+@group(0) @binding(2) var linearSampler : sampler;
+@group(0) @binding(3) var bloom : texture_2d<f32>; // Composite only
+
+// One triangle covering the screen
+@vertex
+fn vs_fullscreen(@builtin(vertex_index) index : u32) -> FullscreenOutput {
+  let p = vec2f(f32((index << 1u) & 2u), f32(index & 2u));
+  var output : FullscreenOutput;
+  output.position = vec4f(p * 2.0 - 1.0, 0.0, 1.0);
+  output.uv = vec2f(p.x, 1.0 - p.y);
+  return output;
+}
+
+// Outputs nothing; the blend constant scales what is already there
+@fragment
+fn fs_fade() -> @location(0) vec4f {
+  return vec4f(0.0);
+}
+
+// 4x4 box filter from four bilinear taps, halving the resolution
+fn downsample(uv : vec2f) -> vec3f {
+  let texel = 1.0 / vec2f(textureDimensions(source));
+  var sum = textureSample(source, linearSampler, uv + texel * vec2f(-1.0, -1.0)).rgb;
+  sum += textureSample(source, linearSampler, uv + texel * vec2f(1.0, -1.0)).rgb;
+  sum += textureSample(source, linearSampler, uv + texel * vec2f(-1.0, 1.0)).rgb;
+  sum += textureSample(source, linearSampler, uv + texel * vec2f(1.0, 1.0)).rgb;
+  return sum * 0.25;
+}
+
+fn luminance(c : vec3f) -> f32 {
+  return dot(c, vec3f(0.2126, 0.7152, 0.0722));
+}
+
+// First bloom level: the scene at half resolution, keeping only what exceeds the threshold
+@fragment
+fn fs_threshold(input : FullscreenOutput) -> @location(0) vec4f {
+  let c = downsample(input.uv);
+  let l = luminance(c);
+  return vec4f(c * (max(l - post.threshold, 0.0) / max(l, 1e-4)), 1.0);
+}
+
+@fragment
+fn fs_downsample(input : FullscreenOutput) -> @location(0) vec4f {
+  return vec4f(downsample(input.uv), 1.0);
+}
+
+// 3x3 tent filter of the smaller level, added onto the larger one by the blend state
+@fragment
+fn fs_upsample(input : FullscreenOutput) -> @location(0) vec4f {
+  let texel = 1.0 / vec2f(textureDimensions(source));
+  var sum = vec3f(0.0);
+  for (var y = -1; y <= 1; y++) {
+    for (var x = -1; x <= 1; x++) {
+      let weight = f32((2 - abs(x)) * (2 - abs(y))) / 16.0;
+      sum += textureSample(source, linearSampler, input.uv + texel * vec2f(f32(x), f32(y))).rgb * weight;
+    }
+  }
+  return vec4f(sum, 1.0);
+}
+
+// Narkowicz's fit of the ACES filmic curve
+fn aces(c : vec3f) -> vec3f {
+  return clamp((c * (2.51 * c + 0.03)) / (c * (2.43 * c + 0.59) + 0.14), vec3f(0.0), vec3f(1.0));
+}
+
+@fragment
+fn fs_composite(input : FullscreenOutput) -> @location(0) vec4f {
+  var c = textureSample(source, linearSampler, input.uv).rgb;
+  c += textureSample(bloom, linearSampler, input.uv).rgb * post.intensity;
+  c *= post.exposure;
+
+  let tonemap = u32(post.tonemap + 0.5);
+  if (tonemap == 1u) {
+    c = c / (1.0 + c);
+  } else if (tonemap == 2u) {
+    c = aces(c);
+  }
+  return vec4f(clamp(c, vec3f(0.0), vec3f(1.0)), 1.0);
+}
+`;
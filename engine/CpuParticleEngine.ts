@@ -0,0 +1,444 @@
+import { NO_CUSTOM_FORCE } from '../constants';
+import { GradientStop, SimulationParams, SpriteImage } from '../types';
+import { buildCameraBasis, projectPoint } from './camera';
+import { hueToRgb, resolveGradient, RGB, sampleGradient } from './colorSchemes';
+import { activeCustomForce, CompileResult } from './customForce';
+import { hash, stepParticles, StepScene } from './cpuSimulator';
+import { EmitterSpawner } from './emitters';
+import { toGpuForceFields } from './forceFields';
+import { FrameClock, IDLE_PLAN, StepPlan } from './FrameClock';
+import { buildObstacleScene } from './obstacles';
+import { createParticleData, PARTICLE_STRIDE, resizeParticleData } from './particles';
+import { PerformanceMonitor, PerformanceStats } from './PerformanceMonitor';
+import { trailFade } from './PostProcessor';
+import { FULL_QUALITY, QualityLevel, scaledParticleCount } from './QualityController';
+import { SimulationEngine } from './SimulationEngine';
+import { ParticleSnapshot } from './snapshot';
+import { buildNeighborParams } from './spatialGrid';
+import { TimelinePlayer, TimelineState } from './timeline';
+import { buildSimUniforms, PointerState } from './uniforms';
+
+// The CPU path can't keep up with the GPU particle counts
+export const FALLBACK_PARTICLE_LIMIT = 15000;
+
+// Glow sprites are pre-rendered at this radius and scaled to the particle size
+const SPRITE_RADIUS = 16;
+// Number of pre-rendered color steps along the gradient (or around the hue wheel)
+const COLOR_STEPS = 32;
+// Longest side of the tinted atlas copies, one per color step
+const MAX_TINTED_ATLAS_SIZE = 256;
+
+// Soft round sprite with the same falloff as fs_main
+const createGlowSprite = (rgb: RGB): HTMLCanvasElement => {
+  const size = SPRITE_RADIUS * 2;
+  const sprite = document.createElement('canvas');
+  sprite.width = size;
+  sprite.height = size;
+  const ctx = sprite.getContext('2d')!;
+  const image = ctx.createImageData(size, size);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dist = Math.hypot((x + 0.5) / size - 0.5, (y + 0.5) / size - 0.5);
+      const strength = Math.max(0, 1.0 - dist * 2.0);
+      const alpha = Math.min(1, strength * strength * 1.5);
+      const o = (y * size + x) * 4;
+      image.data[o] = rgb[0] * 255;
+      image.data[o + 1] = rgb[1] * 255;
+      image.data[o + 2] = rgb[2] * 255;
+      image.data[o + 3] = alpha * 255;
+    }
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return sprite;
+};
+
+// The atlas, downscaled for tinting
+const createAtlasCanvas = (image: SpriteImage): HTMLCanvasElement => {
+  const source = document.createElement('canvas');
+  source.width = image.width;
+  source.height = image.height;
+  source.getContext('2d')!.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+
+  const scale = Math.min(1, MAX_TINTED_ATLAS_SIZE / Math.max(image.width, image.height));
+  const atlas = document.createElement('canvas');
+  atlas.width = Math.max(1, Math.round(image.width * scale));
+  atlas.height = Math.max(1, Math.round(image.height * scale));
+  atlas.getContext('2d')!.drawImage(source, 0, 0, atlas.width, atlas.height);
+  return atlas;
+};
+
+// Atlas multiplied by a color, keeping its alpha, as fs_main does for sprites
+const createTintedAtlas = (atlas: HTMLCanvasElement, rgb: RGB): HTMLCanvasElement => {
+  const tinted = document.createElement('canvas');
+  tinted.width = atlas.width;
+  tinted.height = atlas.height;
+  const ctx = tinted.getContext('2d')!;
+  ctx.drawImage(atlas, 0, 0);
+  ctx.globalCompositeOperation = 'multiply';
+  ctx.fillStyle = `rgb(${rgb[0] * 255}, ${rgb[1] * 255}, ${rgb[2] * 255})`;
+  ctx.fillRect(0, 0, tinted.width, tinted.height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(atlas, 0, 0);
+  return tinted;
+};
+
+/**
+ * Fallback backend for browsers without WebGPU: steps the particles with the
+ * CPU reference simulator and draws them with Canvas2D, at a reduced count.
+ */
+export class CpuParticleEngine implements SimulationEngine {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly ctx: CanvasRenderingContext2D;
+
+  private baseParams: SimulationParams; // As set by the host
+  private params: SimulationParams; // With the timeline applied
+  private pointers: PointerState[] = [];
+  private quality: QualityLevel = FULL_QUALITY; // Bloom levels don't apply here
+
+  private particles: Float32Array[] = [];
+  private particleCount = 0;
+  private seed = 0; // Of the current particles; `params.seed` changing reseeds them
+  private sprites: HTMLCanvasElement[] = [];
+  private spriteGradient: GradientStop[] | null = null; // null while the sprites show hues
+  private spriteAtlas: SpriteImage | null = null; // Tinted into the sprites when set
+  private spritesValid = false;
+  private densities: Float32Array | null = null; // Of the latest step, for density colors
+  private clock = new FrameClock();
+  private time = 0; // Simulated seconds, drives the evolving flow fields
+  private sceneCleared = true; // Trails were lost to a resize, so the paused scene needs drawing again
+  private spawner = new EmitterSpawner();
+  private monitor = new PerformanceMonitor();
+  private timeline = new TimelinePlayer();
+  private customForceSource = NO_CUSTOM_FORCE;
+  private compileListener: ((result: CompileResult) => void) | null = null;
+  private rafId = 0;
+
+  constructor(canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D, params: SimulationParams) {
+    this.canvas = canvas;
+    this.ctx = ctx;
+    this.baseParams = params;
+    this.timeline.load(params.timeline);
+    this.params = this.timeline.sample(params);
+    this.particleCount = this.activeCount();
+    this.reset();
+  }
+
+  get isRunning(): boolean {
+    return this.rafId !== 0;
+  }
+
+  start(): void {
+    if (this.rafId) return;
+    this.clock.reset();
+    this.monitor.reset();
+    const loop = (time: number) => {
+      this.tick(time);
+      this.rafId = requestAnimationFrame(loop);
+    };
+    this.rafId = requestAnimationFrame(loop);
+  }
+
+  stop(): void {
+    if (this.rafId) cancelAnimationFrame(this.rafId);
+    this.rafId = 0;
+  }
+
+  tick(now: number): void {
+    const { timeScale, substeps, paused } = this.params;
+    const frameStart = performance.now();
+    this.monitor.frame(now);
+    if (paused) {
+      this.clock.skip(now);
+      this.runFrame(IDLE_PLAN);
+    } else {
+      this.runFrame(this.clock.advance(now, timeScale, substeps));
+    }
+    this.monitor.cpu(performance.now() - frameStart);
+    // Particle arrays count as buffers; the canvas and sprites are the browser's to account for
+    this.monitor.report(now, this.particleCount, () => ({
+      buffers: this.particles.reduce((sum, data) => sum + data.byteLength, this.densities?.byteLength ?? 0),
+      textures: 0,
+    }));
+  }
+
+  step(): void {
+    this.runFrame(this.clock.singleFrame(this.params.timeScale, this.params.substeps));
+  }
+
+  advance(seconds: number): void {
+    const { timeScale, substeps } = this.params;
+    this.runFrame(seconds > 0 ? this.clock.fixedFrame(seconds, timeScale, substeps) : IDLE_PLAN);
+  }
+
+  private runFrame(plan: StepPlan): void {
+    // The timeline moves with the simulated frames, so it pauses along with the simulation
+    if (this.timeline.advance(plan.elapsed)) this.applyParams(this.timeline.sample(this.baseParams));
+
+    const { width, height } = this.canvas;
+    if (width === 0 || height === 0 || this.particleCount <= 0) return;
+
+    const uniforms = buildSimUniforms(this.params, this.pointers, width, height, plan.deltaTime, this.time);
+    if (plan.steps > 0) {
+      // Spawns for the whole frame; every step draws from the same budget
+      const spawn = this.spawner.plan(this.params.emitters, plan.steps * plan.deltaTime, this.particleCount);
+      const neighbors = buildNeighborParams(this.params, width / height);
+      const scene: StepScene = {
+        spawn,
+        fields: toGpuForceFields(this.params.forceFields),
+        flowTexture: this.params.flowField.texture,
+        obstacles: buildObstacleScene(this.params.obstacles, this.params.obstacleMask),
+      };
+      for (let i = 0; i < plan.steps; i++) {
+        const [input, output] = this.particles;
+        this.densities = stepParticles(input, output, uniforms, scene, neighbors);
+        this.particles = [output, input];
+      }
+      this.time += plan.steps * plan.deltaTime;
+    }
+
+    this.draw(this.particles[0], plan);
+  }
+
+  resize(width: number, height: number): void {
+    this.canvas.width = Math.max(1, Math.floor(width));
+    this.canvas.height = Math.max(1, Math.floor(height));
+    this.sceneCleared = true;
+  }
+
+  setParams(params: SimulationParams): void {
+    this.baseParams = params;
+    this.timeline.load(params.timeline);
+    this.applyParams(this.timeline.sample(params));
+  }
+
+  setTimelinePlaying(playing: boolean): void {
+    this.timeline.setPlaying(playing);
+  }
+
+  seekTimeline(time: number): void {
+    this.timeline.seek(time);
+    this.applyParams(this.timeline.sample(this.baseParams));
+  }
+
+  setTimelineListener(listener: ((state: TimelineState) => void) | null): void {
+    this.timeline.setListener(listener);
+  }
+
+  // Puts `params` into effect: the host's, or the timeline's take on them
+  private applyParams(params: SimulationParams): void {
+    this.params = params;
+    const count = this.activeCount();
+    if (count !== this.particleCount) {
+      const data = resizeParticleData(this.particles[0], count, this.seed);
+      this.particles = [data, new Float32Array(data)];
+      this.particleCount = count;
+    }
+    if (params.seed !== this.seed) {
+      this.reset();
+    }
+    // Custom forces are WGSL, so they only run on the WebGPU engine
+    const customForce = activeCustomForce(params.customForce);
+    if (customForce !== this.customForceSource) {
+      this.customForceSource = customForce;
+      this.compileListener?.({
+        code: customForce,
+        diagnostics: customForce === NO_CUSTOM_FORCE
+          ? []
+          : [{ type: 'error', line: null, column: null, message: 'Custom forces need WebGPU; the CPU fallback ignores them.' }],
+      });
+    }
+  }
+
+  setPointers(pointers: PointerState[]): void {
+    this.pointers = pointers;
+  }
+
+  setQuality(quality: QualityLevel): void {
+    this.quality = quality;
+    this.applyParams(this.params);
+  }
+
+  reset(): void {
+    this.seed = this.params.seed;
+    this.time = 0;
+    this.spawner.reset();
+    const data = createParticleData(this.particleCount, this.seed);
+    this.particles = [data, new Float32Array(data)];
+    this.densities = null;
+  }
+
+  readSnapshot(): Promise<ParticleSnapshot> {
+    return Promise.resolve({
+      count: this.particleCount,
+      data: new Float32Array(this.particles[0]),
+      seed: this.seed,
+      frame: this.spawner.frameCount,
+      time: this.time,
+    });
+  }
+
+  // Snapshots beyond FALLBACK_PARTICLE_LIMIT are truncated
+  loadSnapshot(snapshot: ParticleSnapshot): void {
+    this.quality = FULL_QUALITY;
+    this.particleCount = Math.min(snapshot.count, FALLBACK_PARTICLE_LIMIT);
+    const data = snapshot.data.slice(0, this.particleCount * PARTICLE_STRIDE);
+    this.particles = [data, new Float32Array(data)];
+    this.densities = null;
+    this.seed = snapshot.seed;
+    this.time = snapshot.time;
+    this.spawner.reset(snapshot.frame);
+  }
+
+  setStatsListener(listener: ((stats: PerformanceStats) => void) | null): void {
+    this.monitor.setListener(listener);
+  }
+
+  setCompileListener(listener: ((result: CompileResult) => void) | null): void {
+    this.compileListener = listener;
+  }
+
+  dispose(): void {
+    this.stop();
+    this.monitor.setListener(null);
+    this.timeline.setListener(null);
+    this.compileListener = null;
+    this.particles = [];
+    this.sprites = [];
+    this.densities = null;
+  }
+
+  private activeCount(): number {
+    return scaledParticleCount(Math.min(this.params.particleCount, FALLBACK_PARTICLE_LIMIT), this.quality);
+  }
+
+  // Only trails are available here; Canvas2D has no HDR target for bloom and tonemapping
+  private draw(particles: Float32Array, plan: StepPlan): void {
+    const { ctx } = this;
+    const { width, height } = this.canvas;
+    const { trails, trailDecay } = this.params.postProcess;
+    // While paused the trails are left as they are rather than drawn over again
+    if (trails && plan.steps === 0 && !this.sceneCleared) return;
+    this.sceneCleared = false;
+
+    const { colorSource, particleStyle } = this.params;
+    const gradient = colorSource === 'direction' ? null : resolveGradient(this.params);
+    // Without a loaded atlas sprites fall back to discs
+    const atlas = particleStyle.shape === 'sprite' ? particleStyle.atlas : null;
+    if (!this.spritesValid || this.spriteGradient !== gradient || this.spriteAtlas !== atlas) {
+      this.spriteGradient = gradient;
+      this.spriteAtlas = atlas;
+      this.spritesValid = true;
+      const atlasCanvas = atlas ? createAtlasCanvas(atlas) : null;
+      this.sprites = Array.from({ length: COLOR_STEPS }, (_, i) => {
+        const t = i / (COLOR_STEPS - 1);
+        const rgb = gradient ? sampleGradient(gradient, t) : hueToRgb(t);
+        return atlasCanvas ? createTintedAtlas(atlasCanvas, rgb) : createGlowSprite(rgb);
+      });
+    }
+    const aspect = width / height;
+    const densityScale = 1.0 / Math.max(this.params.fluid.restDensity * 2.0, 1e-3);
+    const streaks = particleStyle.shape === 'streak';
+    const columns = Math.max(Math.floor(particleStyle.atlasColumns), 1);
+    const rows = Math.max(Math.floor(particleStyle.atlasRows), 1);
+    const frames = columns * rows;
+    const camera = this.params.mode3d ? buildCameraBasis(this.params.camera) : null;
+
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = '#000';
+    ctx.globalAlpha = trails ? 1.0 - trailFade(trailDecay, plan.steps * plan.deltaTime * 60) : 1.0;
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalAlpha = 1.0;
+
+    // Additive blending for glowing effect
+    ctx.globalCompositeOperation = 'lighter';
+
+    const { fadeByAge, shrinkByAge, speed: flowSpeed } = this.params;
+
+    for (let i = 0; i < this.particleCount; i++) {
+      const base = i * PARTICLE_STRIDE;
+
+      // Normalized age, 0 for particles that live forever
+      const lifetime = particles[base + 5];
+      const life = lifetime > 0.0 ? particles[base + 4] / lifetime : 0.0;
+      if (life >= 1.0) continue;
+
+      // Clip space center and the distance covered on screen per frame, seen
+      // through the orbit camera in 3D where the size also falls off with depth
+      let clipX = particles[base];
+      let clipY = particles[base + 1];
+      let motionX = particles[base + 2] * flowSpeed;
+      let motionY = particles[base + 3] * flowSpeed;
+      let speed = Math.hypot(particles[base + 2], particles[base + 3]) * 80.0;
+      let depthScale = 1.0;
+      if (camera) {
+        const world: [number, number, number] = [particles[base], particles[base + 1], particles[base + 6]];
+        const vel = [particles[base + 2], particles[base + 3], particles[base + 7]];
+        const center = projectPoint(camera, world, aspect);
+        if (center[3] < 0.01) continue;
+        clipX = center[0] / center[3];
+        clipY = center[1] / center[3];
+        depthScale = camera.distance / center[3];
+        speed = Math.hypot(vel[0], vel[1], vel[2]) * 80.0;
+        const ahead = projectPoint(camera, [0, 1, 2].map((c) => world[c] + vel[c] * flowSpeed) as typeof world, aspect);
+        motionX = ahead[3] > 0.01 ? ahead[0] / ahead[3] - clipX : 0.0;
+        motionY = ahead[3] > 0.01 ? ahead[1] / ahead[3] - clipY : 0.0;
+      }
+      const x = (clipX * 0.5 + 0.5) * width;
+      const y = (0.5 - clipY * 0.5) * height;
+
+      // Particle size in pixels, attenuated by speed and age, as in vs_main
+      const speedFactor = 0.25 + 0.75 * Math.min(Math.max(speed, 0.0), 1.0);
+      let radius = particleStyle.size * (1.0 + (speedFactor - 1.0) * particleStyle.sizeBySpeed) * depthScale;
+      if (shrinkByAge) radius *= 1.0 - life;
+      if (radius <= 0.0) continue;
+
+      // Gradient coordinate (or hue) of the color source
+      let t = speed;
+      if (colorSource === 'direction') {
+        t = Math.atan2(motionY, motionX) / (Math.PI * 2) + 0.5;
+      } else if (colorSource === 'age') {
+        t = life;
+      } else if (colorSource === 'position') {
+        t = camera
+          ? Math.hypot(particles[base], particles[base + 1], particles[base + 6]) / Math.sqrt(3.0)
+          : Math.hypot(particles[base] * aspect, particles[base + 1]) / Math.hypot(aspect, 1.0);
+      } else if (colorSource === 'density') {
+        t = (this.densities?.[i * 2] ?? 0.0) * densityScale;
+      }
+      t = Math.min(Math.max(t, 0.0), 1.0);
+      const sprite = this.sprites[Math.round(t * (COLOR_STEPS - 1))];
+
+      ctx.globalAlpha = fadeByAge ? 1.0 - life : 1.0;
+      if (atlas) {
+        let frame = Math.min(Math.floor(hash(i) * frames), frames - 1);
+        if (particleStyle.frameMode === 'age' && lifetime > 0.0) {
+          frame = Math.min(Math.floor(life * frames), frames - 1);
+        }
+        const frameWidth = sprite.width / columns;
+        const frameHeight = sprite.height / rows;
+        ctx.drawImage(
+          sprite,
+          (frame % columns) * frameWidth, Math.floor(frame / columns) * frameHeight, frameWidth, frameHeight,
+          x - radius, y - radius, radius * 2, radius * 2
+        );
+        continue;
+      }
+
+      // Streaks stretch along the distance covered per frame; Canvas2D draws them as ellipses
+      const streakX = motionX * width * 0.5 * particleStyle.streakLength;
+      const streakY = -motionY * height * 0.5 * particleStyle.streakLength;
+      const length = Math.hypot(streakX, streakY);
+      if (streaks && length > 1e-3) {
+        const halfLength = radius + length * 0.5;
+        ctx.setTransform(streakX / length, streakY / length, -streakY / length, streakX / length, x, y);
+        ctx.drawImage(sprite, -halfLength, -radius, halfLength * 2, radius * 2);
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+      } else {
+        ctx.drawImage(sprite, x - radius, y - radius, radius * 2, radius * 2);
+      }
+    }
+    ctx.globalAlpha = 1.0;
+  }
+}
@@ -0,0 +1,76 @@
+// Simulation time advanced per frame at the reference rate, split into `substeps` dispatches
+export const FIXED_TIMESTEP = 1 / 60;
+
+// Longest real frame we try to catch up on (tab switches, breakpoints, ...)
+const MAX_FRAME_TIME = 0.25;
+// Upper bound of fixed steps per frame, in frames' worth of substeps
+const MAX_CATCH_UP_FRAMES = 4;
+
+export interface StepPlan {
+  steps: number; // Compute dispatches to run this frame
+  deltaTime: number; // Simulated seconds per dispatch
+  elapsed: number; // Real seconds the steps stand for, which move the timeline
+}
+
+// Nothing to simulate: paused frames and redraws
+export const IDLE_PLAN: StepPlan = { steps: 0, deltaTime: 0, elapsed: 0 };
+
+/**
+ * Fixed-timestep accumulator: real elapsed time is consumed in steps of
+ * FIXED_TIMESTEP / substeps, so the simulation runs at the same pace on any
+ * refresh rate. The time scale stretches each step's simulated duration.
+ */
+export class FrameClock {
+  private lastTime: number | null = null;
+  private accumulator = 0;
+
+  /** Consumes the real time since the previous call (`now` in ms). */
+  advance(now: number, timeScale: number, substeps: number): StepPlan {
+    const elapsed = this.lastTime === null ? 0 : Math.min((now - this.lastTime) / 1000, MAX_FRAME_TIME);
+    this.lastTime = now;
+
+    const stepCount = Math.max(1, Math.round(substeps));
+    const realStep = FIXED_TIMESTEP / stepCount;
+    this.accumulator += elapsed;
+
+    let steps = Math.floor(this.accumulator / realStep);
+    this.accumulator -= steps * realStep;
+
+    const maxSteps = stepCount * MAX_CATCH_UP_FRAMES;
+    if (steps > maxSteps) {
+      // Too far behind: drop the backlog instead of spiralling
+      steps = maxSteps;
+      this.accumulator = 0;
+    }
+
+    return { steps, deltaTime: realStep * timeScale, elapsed: steps * realStep };
+  }
+
+  /** Forgets the previous timestamp, so the next frame starts from zero elapsed time. */
+  reset(): void {
+    this.lastTime = null;
+    this.accumulator = 0;
+  }
+
+  /** Marks time as passed without simulating it, e.g. while paused. */
+  skip(now: number): void {
+    this.lastTime = now;
+    this.accumulator = 0;
+  }
+
+  /**
+   * Plan for exactly `seconds` of real time, e.g. one frame of an offline render.
+   * Steps stay close to the real-time step size so the result matches live playback.
+   */
+  fixedFrame(seconds: number, timeScale: number, substeps: number): StepPlan {
+    const realStep = FIXED_TIMESTEP / Math.max(1, Math.round(substeps));
+    const steps = Math.max(1, Math.round(seconds / realStep));
+    return { steps, deltaTime: (seconds / steps) * timeScale, elapsed: seconds };
+  }
+
+  /** Plan for exactly one frame's worth of simulation. */
+  singleFrame(timeScale: number, substeps: number): StepPlan {
+    const stepCount = Math.max(1, Math.round(substeps));
+    return { steps: stepCount, deltaTime: (FIXED_TIMESTEP / stepCount) * timeScale, elapsed: FIXED_TIMESTEP };
+  }
+}
@@ -0,0 +1,79 @@
+import { BufferUsage, MapMode } from './gpuFlags';
+
+// Timestamps: compute pass begin / end, first render pass begin, composite end
+const QUERY_COUNT = 4;
+// Readbacks in flight at once; frames finding none free go untimed
+const READBACK_BUFFERS = 3;
+
+/**
+ * Measures the compute and render passes of a frame with `timestamp-query`.
+ * Results arrive asynchronously, a few frames after submission.
+ */
+export class GpuTimer {
+  private readonly querySet: GPUQuerySet;
+  private readonly resolveBuffer: GPUBuffer;
+  private readonly free: GPUBuffer[];
+  private readonly all: GPUBuffer[];
+
+  static isSupported(device: GPUDevice): boolean {
+    return device.features.has('timestamp-query');
+  }
+
+  constructor(device: GPUDevice) {
+    this.querySet = device.createQuerySet({ type: 'timestamp', count: QUERY_COUNT });
+    this.resolveBuffer = device.createBuffer({
+      size: QUERY_COUNT * 8,
+      usage: BufferUsage.QUERY_RESOLVE | BufferUsage.COPY_SRC,
+    });
+    this.all = Array.from({ length: READBACK_BUFFERS }, () => device.createBuffer({
+      size: QUERY_COUNT * 8,
+      usage: BufferUsage.MAP_READ | BufferUsage.COPY_DST,
+    }));
+    this.free = [...this.all];
+  }
+
+  get bufferBytes(): number {
+    return this.resolveBuffer.size * (1 + READBACK_BUFFERS);
+  }
+
+  computeWrites(): GPUComputePassTimestampWrites {
+    return { querySet: this.querySet, beginningOfPassWriteIndex: 0, endOfPassWriteIndex: 1 };
+  }
+
+  /** Writes for a render pass that opens (`begin`) and/or closes (`end`) the frame's rendering. */
+  renderWrites(begin: boolean, end: boolean): GPURenderPassTimestampWrites {
+    return {
+      querySet: this.querySet,
+      beginningOfPassWriteIndex: begin ? 2 : undefined,
+      endOfPassWriteIndex: end ? 3 : undefined,
+    };
+  }
+
+  /** Copies the timestamps out after the frame's passes; null when every readback is still busy. */
+  resolve(encoder: GPUCommandEncoder): GPUBuffer | null {
+    const readback = this.free.pop();
+    if (!readback) return null;
+    encoder.resolveQuerySet(this.querySet, 0, QUERY_COUNT, this.resolveBuffer, 0);
+    encoder.copyBufferToBuffer(this.resolveBuffer, 0, readback, 0, QUERY_COUNT * 8);
+    return readback;
+  }
+
+  /** Pass durations in ms from a submitted readback; compute is 0 when no compute pass ran. */
+  async read(readback: GPUBuffer, computed: boolean): Promise<{ compute: number; render: number }> {
+    try {
+      await readback.mapAsync(MapMode.READ);
+      const times = new BigInt64Array(readback.getMappedRange().slice(0));
+      readback.unmap();
+      const ms = (begin: bigint, end: bigint) => Math.max(Number(end - begin), 0) / 1e6;
+      return { compute: computed ? ms(times[0], times[1]) : 0, render: ms(times[2], times[3]) };
+    } finally {
+      this.free.push(readback);
+    }
+  }
+
+  dispose(): void {
+    this.querySet.destroy();
+    this.resolveBuffer.destroy();
+    this.all.forEach((buffer) => buffer.destroy());
+  }
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { ShaderStage } from './gpuFlags';
+import { ParticleEngine } from './ParticleEngine';
+import { PARTICLE_STRIDE } from './particles';
+import { DEFAULT_PARAMS } from './presets';
+import { QUALITY_LEVELS } from './QualityController';
+import { ParticleSnapshot } from './snapshot';
+
+interface StubBuffer {
+  size: number;
+  usage: number;
+  destroyed: boolean;
+  destroy(): void;
+}
+
+interface StubTexture {
+  destroyed: boolean;
+  destroy(): void;
+  createView(): object;
+}
+
+interface Copy {
+  source: StubBuffer;
+  destination: StubBuffer;
+  size: number;
+}
+
+// `maxStorageBuffersPerShaderStage` of a device created without `requiredLimits`
+const DEFAULT_STORAGE_BUFFER_LIMIT = 8;
+
+// Records what the engine creates; everything else is a no-op
+const createStubDevice = () => {
+  const buffers: StubBuffer[] = [];
+  const textures: StubTexture[] = [];
+  const bindGroups: GPUBindGroupDescriptor[] = [];
+  const pipelineLayouts: GPUPipelineLayoutDescriptor[] = [];
+  const copies: Copy[] = [];
+
+  const pass = {
+    setPipeline() {}, setBindGroup() {}, dispatchWorkgroups() {}, setBlendConstant() {}, draw() {}, end() {},
+  };
+  const device = {
+    features: new Set<string>(),
+    queue: { writeBuffer() {}, writeTexture() {}, submit() {} },
+    pushErrorScope() {},
+    popErrorScope: async () => null,
+    createShaderModule: () => ({ getCompilationInfo: async () => ({ messages: [] }) }),
+    // Layouts are their descriptors, so the pipeline layouts can be inspected
+    createBindGroupLayout: (descriptor: GPUBindGroupLayoutDescriptor) => descriptor,
+    createPipelineLayout: (descriptor: GPUPipelineLayoutDescriptor) => {
+      pipelineLayouts.push(descriptor);
+      return {};
+    },
+    createComputePipeline: () => ({}),
+    createComputePipelineAsync: async () => ({}),
+    createRenderPipeline: () => ({}),
+    createSampler: () => ({}),
+    createBuffer: ({ size, usage }: GPUBufferDescriptor): StubBuffer => {
+      const buffer = { size, usage, destroyed: false, destroy() { this.destroyed = true; } };
+      buffers.push(buffer);
+      return buffer;
+    },
+    createTexture: (): StubTexture => {
+      const texture = { destroyed: false, destroy() { this.destroyed = true; }, createView: () => ({}) };
+      textures.push(texture);
+      return texture;
+    },
+    createBindGroup: (descriptor: GPUBindGroupDescriptor) => {
+      bindGroups.push(descriptor);
+      return {};
+    },
+    createCommandEncoder: () => ({
+      copyBufferToBuffer(source: StubBuffer, _sourceOffset: number, destination: StubBuffer, _destinationOffset: number, size: number) {
+        copies.push({ source, destination, size });
+      },
+      beginComputePass: () => pass,
+      beginRenderPass: () => pass,
+      finish: () => ({}),
+    }),
+  };
+  const context = {
+    canvas: { width: 64, height: 64 },
+    configure() {},
+    unconfigure() {},
+    getCurrentTexture: () => ({ createView: () => ({}) }),
+  };
+
+  return { device, context, buffers, textures, bindGroups, pipelineLayouts, copies };
+};
+
+const setup = async (particleCount: number) => {
+  const stub = createStubDevice();
+  const params = { ...DEFAULT_PARAMS, particleCount };
+  const engine = new ParticleEngine({
+    device: stub.device as unknown as GPUDevice,
+    context: stub.context as unknown as GPUCanvasContext,
+    format: 'bgra8unorm',
+    params,
+  });
+  await engine.init();
+  return { ...stub, engine, params };
+};
+
+const blankSnapshot = (count: number): ParticleSnapshot =>
+  ({ count, data: new Float32Array(count * PARTICLE_STRIDE), seed: 1, frame: 0, time: 0 });
+
+// Live buffers sized for `count` particles
+const particleBuffers = (buffers: StubBuffer[], count: number) =>
+  buffers.filter((buffer) => buffer.size === count * PARTICLE_STRIDE * 4 && !buffer.destroyed);
+
+// The particle buffers bound at `binding` by each bind group that binds one there
+const boundAt = (bindGroups: GPUBindGroupDescriptor[], particles: StubBuffer[], binding: number) =>
+  bindGroups.flatMap((group) => {
+    const entry = [...group.entries].find((e) => e.binding === binding);
+    const buffer = (entry?.resource as GPUBufferBinding | undefined)?.buffer as unknown as StubBuffer;
+    return particles.includes(buffer) ? [buffer] : [];
+  });
+
+describe('ParticleEngine', () => {
+  it('creates the ping-pong particle buffers and their bind groups on init', async () => {
+    const { buffers, bindGroups } = await setup(1000);
+    const particles = particleBuffers(buffers, 1000);
+    expect(particles).toHaveLength(2);
+
+    // Two compute groups reading one buffer and writing the other, then two render groups
+    const [a, b] = particles;
+    expect(boundAt(bindGroups, particles, 1)).toEqual([a, b, a, b]);
+    expect(boundAt(bindGroups, particles, 2)).toEqual([b, a]);
+  });
+
+  it('keeps every pipeline within the default storage buffer limit', async () => {
+    const { pipelineLayouts } = await setup(1000);
+    const storageBuffers = (layout: GPUPipelineLayoutDescriptor, stage: number) =>
+      [...layout.bindGroupLayouts].flatMap((group) => [...(group as unknown as GPUBindGroupLayoutDescriptor).entries])
+        .filter((entry) => entry.visibility & stage && entry.buffer?.type?.endsWith('storage')).length;
+
+    expect(pipelineLayouts.length).toBeGreaterThan(0);
+    for (const layout of pipelineLayouts) {
+      expect(storageBuffers(layout, ShaderStage.COMPUTE)).toBeLessThanOrEqual(DEFAULT_STORAGE_BUFFER_LIMIT);
+      expect(storageBuffers(layout, ShaderStage.VERTEX)).toBeLessThanOrEqual(DEFAULT_STORAGE_BUFFER_LIMIT);
+    }
+  });
+
+  it('copies the kept particles when the count changes', async () => {
+    const { engine, params, buffers, copies } = await setup(1000);
+    const [old] = particleBuffers(buffers, 1000);
+
+    engine.setParams({ ...params, particleCount: 400 });
+    const shrunk = particleBuffers(buffers, 400);
+    expect(shrunk).toHaveLength(2);
+    expect(particleBuffers(buffers, 1000)).toEqual([]);
+    expect(copies).toEqual([{ source: old, destination: shrunk[0], size: 400 * PARTICLE_STRIDE * 4 }]);
+
+    engine.setParams({ ...params, particleCount: 1500 });
+    const grown = particleBuffers(buffers, 1500);
+    expect(grown).toHaveLength(2);
+    expect(copies[1]).toEqual({ source: shrunk[0], destination: grown[0], size: 400 * PARTICLE_STRIDE * 4 });
+  });
+
+  it('returns to full quality when loading a snapshot', async () => {
+    const { engine, params, buffers } = await setup(1000);
+    engine.setQuality(QUALITY_LEVELS[3]);
+
+    // The host then takes the snapshot's count, which must not be scaled down again
+    engine.loadSnapshot(blankSnapshot(500));
+    engine.setParams({ ...params, particleCount: 500 });
+    expect(particleBuffers(buffers, 500)).toHaveLength(2);
+  });
+
+  it('destroys every buffer and texture it created on dispose', async () => {
+    const { engine, params, buffers, textures } = await setup(1000);
+    engine.setParams({ ...params, particleCount: 200 });
+    engine.dispose();
+
+    expect(buffers.length).toBeGreaterThan(0);
+    expect(buffers.filter((buffer) => !buffer.destroyed)).toEqual([]);
+    expect(textures.filter((texture) => !texture.destroyed)).toEqual([]);
+  });
+});
@@ -0,0 +1,832 @@
+import { buildComputeShader, COMPUTE_SHADER, NO_CUSTOM_FORCE, RENDER_SHADER } from '../constants';
+import { DistanceFieldGrid, GradientStop, SimulationParams, SpriteImage, VectorFieldGrid } from '../types';
+import { bakeGradient, GRADIENT_RESOLUTION, resolveGradient } from './colorSchemes';
+import { activeCustomForce, CompileResult, mapDiagnostics, ShaderDiagnostic } from './customForce';
+import { EMITTER_BUFFER_SIZE, EmitterSpawner, packEmitters, packSpawnState, SPAWN_STATE_SIZE } from './emitters';
+import { FORCE_FIELD_BUFFER_SIZE, packForceFields, toGpuForceFields } from './forceFields';
+import { FrameClock, IDLE_PLAN, StepPlan } from './FrameClock';
+import { BufferUsage, MapMode, ShaderStage, TextureUsage } from './gpuFlags';
+import { GpuTimer } from './GpuTimer';
+import { buildObstacleScene, OBSTACLE_BUFFER_SIZE, packObstacles } from './obstacles';
+import { createParticleData, PARTICLE_STRIDE } from './particles';
+import { bufferBytes, MemoryUsage, PerformanceMonitor, PerformanceStats, textureBytes } from './PerformanceMonitor';
+import { HDR_FORMAT, PostProcessor, trailFade } from './PostProcessor';
+import { FULL_QUALITY, QualityLevel, scaledParticleCount } from './QualityController';
+import { buildNeighborParams, MAX_GRID_CELLS, NEIGHBOR_PARAMS_SIZE, packNeighborParams } from './spatialGrid';
+import { SimulationEngine } from './SimulationEngine';
+import { ParticleSnapshot } from './snapshot';
+import { TimelinePlayer, TimelineState } from './timeline';
+import { buildSimUniforms, packSimUniforms, PointerState, UNIFORM_BUFFER_SIZE } from './uniforms';
+
+export type { PointerState } from './uniforms';
+
+export interface ParticleEngineOptions {
+  device: GPUDevice;
+  context: GPUCanvasContext;
+  format: GPUTextureFormat;
+  params: SimulationParams;
+}
+
+const WORKGROUP_SIZE = 64;
+
+/**
+ * Owns every GPU resource of the simulation: pipelines, the ping-ponged
+ * particle buffers and their bind groups. The device and canvas context are
+ * injected, so the engine can be driven from any host (React, plain DOM, tests).
+ */
+export class ParticleEngine implements SimulationEngine {
+  private readonly device: GPUDevice;
+  private readonly context: GPUCanvasContext;
+  private readonly format: GPUTextureFormat;
+
+  private baseParams: SimulationParams; // As set by the host
+  private params: SimulationParams; // With the timeline applied
+  private pointers: PointerState[] = [];
+  private quality: QualityLevel = FULL_QUALITY;
+
+  private computePipeline: GPUComputePipeline | null = null;
+  private computeLayout: GPUPipelineLayout | null = null; // Kept to rebuild `main` with a new custom force
+  private customForceSource = NO_CUSTOM_FORCE; // Compiled or compiling; failed snippets aren't retried
+  private compileCount = 0; // Only the latest compile may swap the pipeline
+  private compileListener: ((result: CompileResult) => void) | null = null;
+  private gridPipelines: GPUComputePipeline[] = []; // clearCells, countCells, prefixSum, scatterParticles, computeDensity
+  private renderPipeline: GPURenderPipeline | null = null;
+  private postProcessor: PostProcessor | null = null;
+  private particleBuffers: GPUBuffer[] = [];
+  private uniformBuffer: GPUBuffer | null = null;
+  private emitterBuffer: GPUBuffer | null = null;
+  private spawnStateBuffer: GPUBuffer | null = null;
+  private forceFieldBuffer: GPUBuffer | null = null;
+  private flowTexture: GPUTexture | null = null;
+  private flowTextureSource: VectorFieldGrid | null = null;
+  private obstacleBuffer: GPUBuffer | null = null;
+  private obstacleMaskTexture: GPUTexture | null = null;
+  private obstacleMaskSource: DistanceFieldGrid | null = null;
+  private neighborParamsBuffer: GPUBuffer | null = null;
+  private cellCountsBuffer: GPUBuffer | null = null;
+  private cellStartBuffer: GPUBuffer | null = null;
+  private particleCellsBuffer: GPUBuffer | null = null;
+  private sortedIndicesBuffer: GPUBuffer | null = null;
+  private densitiesBuffer: GPUBuffer | null = null;
+  private gradientTexture: GPUTexture | null = null;
+  private gradientSource: GradientStop[] | null = null;
+  private atlasTexture: GPUTexture | null = null;
+  private atlasSource: SpriteImage | null = null;
+  private atlasSampler: GPUSampler | null = null;
+  private computeBindGroupLayout: GPUBindGroupLayout | null = null;
+  private renderBindGroupLayout: GPUBindGroupLayout | null = null;
+  private gridBindGroupLayout: GPUBindGroupLayout | null = null;
+  private gridBindGroup: GPUBindGroup | null = null;
+  private computeBindGroups: GPUBindGroup[] = [];
+  private renderBindGroups: GPUBindGroup[] = [];
+  private particleCount = 0;
+  private seed = 0; // Of the current particles; `params.seed` changing reseeds them
+  private current = 0; // Particle buffer holding the latest state
+  private clock = new FrameClock();
+  private time = 0; // Simulated seconds, drives the evolving flow fields
+  private sceneCleared = true; // Trails were lost to a resize, so the paused scene needs drawing again
+  private spawner = new EmitterSpawner();
+  private monitor = new PerformanceMonitor();
+  private timeline = new TimelinePlayer();
+  private gpuTimer: GpuTimer | null = null; // Without `timestamp-query` only CPU time is measured
+  private rafId = 0;
+
+  constructor(options: ParticleEngineOptions) {
+    this.device = options.device;
+    this.context = options.context;
+    this.format = options.format;
+    this.baseParams = options.params;
+    this.timeline.load(options.params.timeline);
+    this.params = this.timeline.sample(options.params);
+  }
+
+  get isRunning(): boolean {
+    return this.rafId !== 0;
+  }
+
+  /** Creates pipelines and buffers. Rejects if WebGPU reports a validation error. */
+  async init(): Promise<void> {
+    const { device } = this;
+    device.pushErrorScope('validation');
+
+    this.configureContext();
+
+    const computeModule = device.createShaderModule({
+      label: 'Compute Module',
+      code: COMPUTE_SHADER
+    });
+
+    // Combined Render Module
+    const renderModule = device.createShaderModule({
+      label: 'Render Module',
+      code: RENDER_SHADER
+    });
+
+    const computeBindGroupLayout = this.computeBindGroupLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: ShaderStage.COMPUTE | ShaderStage.VERTEX, buffer: { type: 'uniform' } },
+        { binding: 1, visibility: ShaderStage.COMPUTE, buffer: { type: 'read-only-storage' } },
+        { binding: 2, visibility: ShaderStage.COMPUTE, buffer: { type: 'storage' } },
+        { binding: 3, visibility: ShaderStage.COMPUTE, buffer: { type: 'uniform' } },
+        { binding: 4, visibility: ShaderStage.COMPUTE, buffer: { type: 'storage' } },
+        { binding: 5, visibility: ShaderStage.COMPUTE, buffer: { type: 'uniform' } },
+        { binding: 6, visibility: ShaderStage.COMPUTE, texture: { sampleType: 'unfilterable-float' } },
+        { binding: 7, visibility: ShaderStage.COMPUTE, buffer: { type: 'uniform' } },
+        { binding: 8, visibility: ShaderStage.COMPUTE, texture: { sampleType: 'unfilterable-float' } },
+      ]
+    });
+
+    // Spatial grid resources, shared by the grid passes and the neighbor lookups in `main`
+    const gridBindGroupLayout = this.gridBindGroupLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: ShaderStage.COMPUTE, buffer: { type: 'uniform' } },
+        { binding: 1, visibility: ShaderStage.COMPUTE, buffer: { type: 'storage' } },
+        { binding: 2, visibility: ShaderStage.COMPUTE, buffer: { type: 'storage' } },
+        { binding: 3, visibility: ShaderStage.COMPUTE, buffer: { type: 'storage' } },
+        { binding: 4, visibility: ShaderStage.COMPUTE, buffer: { type: 'storage' } },
+        { binding: 5, visibility: ShaderStage.COMPUTE, buffer: { type: 'storage' } },
+      ]
+    });
+
+    const computeLayout = this.computeLayout = device.createPipelineLayout({
+      bindGroupLayouts: [computeBindGroupLayout, gridBindGroupLayout]
+    });
+    this.customForceSource = NO_CUSTOM_FORCE;
+
+    this.computePipeline = device.createComputePipeline({
+      layout: computeLayout,
+      compute: { module: computeModule, entryPoint: 'main' },
+    });
+
+    this.gridPipelines = ['clearCells', 'countCells', 'prefixSum', 'scatterParticles', 'computeDensity'].map((entryPoint) =>
+      device.createComputePipeline({
+        layout: computeLayout,
+        compute: { module: computeModule, entryPoint },
+      })
+    );
+
+    const renderBindGroupLayout = this.renderBindGroupLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: ShaderStage.VERTEX | ShaderStage.FRAGMENT, buffer: { type: 'uniform' } },
+        { binding: 1, visibility: ShaderStage.VERTEX, buffer: { type: 'read-only-storage' } },
+        { binding: 2, visibility: ShaderStage.VERTEX, buffer: { type: 'read-only-storage' } },
+        { binding: 3, visibility: ShaderStage.VERTEX, texture: { viewDimension: '1d' } },
+        { binding: 4, visibility: ShaderStage.FRAGMENT, texture: {} },
+        { binding: 5, visibility: ShaderStage.FRAGMENT, sampler: {} },
+      ]
+    });
+
+    this.renderPipeline = device.createRenderPipeline({
+      layout: device.createPipelineLayout({ bindGroupLayouts: [renderBindGroupLayout] }),
+      vertex: {
+        module: renderModule,
+        entryPoint: 'vs_main',
+      },
+      fragment: {
+        module: renderModule,
+        entryPoint: 'fs_main',
+        targets: [{
+          format: HDR_FORMAT,
+          blend: {
+            // Additive blending for glowing effect
+            color: { srcFactor: 'src-alpha', dstFactor: 'one', operation: 'add' },
+            alpha: { srcFactor: 'zero', dstFactor: 'one', operation: 'add' }
+          }
+        }],
+      },
+      primitive: {
+        topology: 'triangle-list',
+      },
+    });
+
+    const { width, height } = this.context.canvas;
+    this.postProcessor = new PostProcessor(device, this.format, width, height);
+    this.postProcessor.setBloomLevels(this.quality.bloomLevels);
+    if (GpuTimer.isSupported(device)) this.gpuTimer = new GpuTimer(device);
+
+    this.uniformBuffer = device.createBuffer({
+      size: UNIFORM_BUFFER_SIZE,
+      usage: BufferUsage.UNIFORM | BufferUsage.COPY_DST,
+    });
+
+    this.emitterBuffer = device.createBuffer({
+      size: EMITTER_BUFFER_SIZE,
+      usage: BufferUsage.UNIFORM | BufferUsage.COPY_DST,
+    });
+
+    this.spawnStateBuffer = device.createBuffer({
+      size: SPAWN_STATE_SIZE,
+      usage: BufferUsage.STORAGE | BufferUsage.COPY_DST,
+    });
+
+    this.forceFieldBuffer = device.createBuffer({
+      size: FORCE_FIELD_BUFFER_SIZE,
+      usage: BufferUsage.UNIFORM | BufferUsage.COPY_DST,
+    });
+
+    this.createFlowTexture(this.params.flowField.texture);
+
+    this.obstacleBuffer = device.createBuffer({
+      size: OBSTACLE_BUFFER_SIZE,
+      usage: BufferUsage.UNIFORM | BufferUsage.COPY_DST,
+    });
+    this.createObstacleMaskTexture(this.params.obstacleMask);
+
+    this.gradientTexture = device.createTexture({
+      size: [GRADIENT_RESOLUTION],
+      dimension: '1d',
+      format: 'rgba8unorm',
+      usage: TextureUsage.TEXTURE_BINDING | TextureUsage.COPY_DST,
+    });
+    this.writeGradient(resolveGradient(this.params));
+
+    this.atlasSampler = device.createSampler({ magFilter: 'linear', minFilter: 'linear' });
+    this.createAtlasTexture(this.params.particleStyle.atlas);
+
+    this.neighborParamsBuffer = device.createBuffer({
+      size: NEIGHBOR_PARAMS_SIZE,
+      usage: BufferUsage.UNIFORM | BufferUsage.COPY_DST,
+    });
+
+    this.cellCountsBuffer = device.createBuffer({
+      size: MAX_GRID_CELLS * 4,
+      usage: BufferUsage.STORAGE,
+    });
+
+    this.cellStartBuffer = device.createBuffer({
+      size: MAX_GRID_CELLS * 4,
+      usage: BufferUsage.STORAGE,
+    });
+
+    this.particleCount = scaledParticleCount(this.params.particleCount, this.quality);
+    this.particleBuffers = [0, 1].map(() => this.createParticleBuffer(this.particleCount));
+    this.createGridBuffers(this.particleCount);
+    this.createBindGroups();
+    this.reset();
+
+    const error = await device.popErrorScope();
+    if (error) {
+      throw new Error('Validation Error: ' + error.message);
+    }
+  }
+
+  start(): void {
+    if (this.rafId) return;
+    this.clock.reset();
+    this.monitor.reset();
+    const loop = (time: number) => {
+      this.tick(time);
+      this.rafId = requestAnimationFrame(loop);
+    };
+    this.rafId = requestAnimationFrame(loop);
+  }
+
+  stop(): void {
+    if (this.rafId) cancelAnimationFrame(this.rafId);
+    this.rafId = 0;
+  }
+
+  /** Simulates the real time elapsed since the previous tick (`now` in ms) and draws the result. */
+  tick(now: number): void {
+    const { timeScale, substeps, paused } = this.params;
+    const encodeStart = performance.now();
+    this.monitor.frame(now);
+    if (paused) {
+      this.clock.skip(now);
+      this.runFrame(IDLE_PLAN);
+    } else {
+      this.runFrame(this.clock.advance(now, timeScale, substeps));
+    }
+    this.monitor.cpu(performance.now() - encodeStart);
+    this.monitor.report(now, this.particleCount, () => this.memoryUsage());
+  }
+
+  /** Advances the simulation by exactly one frame, regardless of `paused`, and draws it. */
+  step(): void {
+    this.runFrame(this.clock.singleFrame(this.params.timeScale, this.params.substeps));
+  }
+
+  advance(seconds: number): void {
+    const { timeScale, substeps } = this.params;
+    this.runFrame(seconds > 0 ? this.clock.fixedFrame(seconds, timeScale, substeps) : IDLE_PLAN);
+  }
+
+  private runFrame(plan: StepPlan): void {
+    // The timeline moves with the simulated frames, so it pauses along with the simulation
+    if (this.timeline.advance(plan.elapsed)) this.applyParams(this.timeline.sample(this.baseParams));
+
+    const { device, computePipeline, renderPipeline, postProcessor, uniformBuffer } = this;
+    if (!computePipeline || !renderPipeline || !postProcessor || !uniformBuffer) return;
+
+    const { width, height } = this.context.canvas;
+    if (width === 0 || height === 0 || this.particleCount <= 0) return;
+
+    // 1. Update Uniforms
+    const uniformData = packSimUniforms(buildSimUniforms(this.params, this.pointers, width, height, plan.deltaTime, this.time));
+    device.queue.writeBuffer(uniformBuffer, 0, uniformData);
+
+    const neighbors = buildNeighborParams(this.params, width / height);
+    if (plan.steps > 0) {
+      // Spawns for the whole frame; every dispatch draws from the same budget
+      const spawn = this.spawner.plan(this.params.emitters, plan.steps * plan.deltaTime, this.particleCount);
+      device.queue.writeBuffer(this.emitterBuffer!, 0, packEmitters(spawn.emitters));
+      device.queue.writeBuffer(this.spawnStateBuffer!, 0, packSpawnState(spawn));
+      device.queue.writeBuffer(this.forceFieldBuffer!, 0, packForceFields(toGpuForceFields(this.params.forceFields)));
+      device.queue.writeBuffer(this.obstacleBuffer!, 0, packObstacles(buildObstacleScene(this.params.obstacles, this.params.obstacleMask)));
+      device.queue.writeBuffer(this.neighborParamsBuffer!, 0, packNeighborParams(neighbors));
+    }
+
+    // 2. Encode Commands
+    const commandEncoder = device.createCommandEncoder();
+    const timer = this.monitor.isListening ? this.gpuTimer : null;
+
+    if (plan.steps > 0) {
+      const particleGroups = Math.ceil(this.particleCount / WORKGROUP_SIZE);
+      const [clearCells, countCells, prefixSum, scatterParticles, computeDensity] = this.gridPipelines;
+
+      // Each step reads the latest state and writes the other buffer
+      const computePass = commandEncoder.beginComputePass({ timestampWrites: timer?.computeWrites() });
+      computePass.setBindGroup(1, this.gridBindGroup);
+      for (let i = 0; i < plan.steps; i++) {
+        computePass.setBindGroup(0, this.computeBindGroups[this.current]);
+
+        if (neighbors.enabled) {
+          // Counting sort of the particles into grid cells
+          computePass.setPipeline(clearCells);
+          computePass.dispatchWorkgroups(Math.ceil(neighbors.cellCount / WORKGROUP_SIZE));
+          computePass.setPipeline(countCells);
+          computePass.dispatchWorkgroups(particleGroups);
+          computePass.setPipeline(prefixSum);
+          computePass.dispatchWorkgroups(1);
+          computePass.setPipeline(scatterParticles);
+          computePass.dispatchWorkgroups(particleGroups);
+        }
+
+        if (neighbors.needsDensity) {
+          computePass.setPipeline(computeDensity);
+          computePass.dispatchWorkgroups(particleGroups);
+        }
+
+        computePass.setPipeline(computePipeline);
+        computePass.dispatchWorkgroups(particleGroups);
+        this.current = 1 - this.current;
+      }
+      computePass.end();
+      this.time += plan.steps * plan.deltaTime;
+    }
+
+    // With trails the scene keeps its previous contents, faded by the simulated time;
+    // while paused it is left as it is rather than drawn over again
+    const { postProcess } = this.params;
+    const drawScene = !postProcess.trails || plan.steps > 0 || this.sceneCleared;
+    if (drawScene) {
+      this.sceneCleared = false;
+      const renderPass = commandEncoder.beginRenderPass({
+        timestampWrites: timer?.renderWrites(true, false),
+        colorAttachments: [{
+          view: postProcessor.sceneView,
+          clearValue: { r: 0.0, g: 0.0, b: 0.0, a: 1.0 }, // Pure black, opaque
+          loadOp: postProcess.trails ? 'load' : 'clear',
+          storeOp: 'store',
+        }],
+      });
+
+      if (postProcess.trails) {
+        postProcessor.fade(renderPass, trailFade(postProcess.trailDecay, plan.steps * plan.deltaTime * 60));
+      }
+
+      renderPass.setPipeline(renderPipeline);
+      renderPass.setBindGroup(0, this.renderBindGroups[this.current]);
+
+      // Draw Instanced Quads: 6 vertices per quad, N instances (particles)
+      renderPass.draw(6, this.particleCount);
+      renderPass.end();
+    }
+
+    postProcessor.encode(
+      commandEncoder,
+      this.context.getCurrentTexture().createView(),
+      postProcess,
+      timer?.renderWrites(!drawScene, true)
+    );
+    const readback = timer?.resolve(commandEncoder);
+
+    device.queue.submit([commandEncoder.finish()]);
+
+    if (timer && readback) {
+      timer.read(readback, plan.steps > 0)
+        .then(({ compute, render }) => this.monitor.gpu(compute, render))
+        // The readback fails when the engine is disposed or the device lost; that frame goes unmeasured
+        .catch(() => {});
+    }
+  }
+
+  /** Sets the drawing buffer size in device pixels. */
+  resize(width: number, height: number): void {
+    const canvas = this.context.canvas;
+    canvas.width = Math.max(1, Math.floor(width));
+    canvas.height = Math.max(1, Math.floor(height));
+    this.configureContext();
+    this.postProcessor?.resize(canvas.width, canvas.height);
+    this.sceneCleared = true;
+  }
+
+  setParams(params: SimulationParams): void {
+    this.baseParams = params;
+    this.timeline.load(params.timeline);
+    this.applyParams(this.timeline.sample(params));
+  }
+
+  setTimelinePlaying(playing: boolean): void {
+    this.timeline.setPlaying(playing);
+  }
+
+  seekTimeline(time: number): void {
+    this.timeline.seek(time);
+    this.applyParams(this.timeline.sample(this.baseParams));
+  }
+
+  setTimelineListener(listener: ((state: TimelineState) => void) | null): void {
+    this.timeline.setListener(listener);
+  }
+
+  // Puts `params` into effect: the host's, or the timeline's take on them
+  private applyParams(params: SimulationParams): void {
+    this.params = params;
+    if (!this.computePipeline) return;
+
+    const count = scaledParticleCount(params.particleCount, this.quality);
+    if (count !== this.particleCount) {
+      this.resizeParticles(count);
+    }
+    if (params.seed !== this.seed) {
+      this.reset();
+    }
+    const flowChanged = params.flowField.texture !== this.flowTextureSource;
+    const maskChanged = params.obstacleMask !== this.obstacleMaskSource;
+    const atlasChanged = params.particleStyle.atlas !== this.atlasSource;
+    if (flowChanged) this.createFlowTexture(params.flowField.texture);
+    if (maskChanged) this.createObstacleMaskTexture(params.obstacleMask);
+    if (atlasChanged) this.createAtlasTexture(params.particleStyle.atlas);
+    if (flowChanged || maskChanged || atlasChanged) this.createBindGroups();
+
+    const gradient = resolveGradient(params);
+    if (gradient !== this.gradientSource) this.writeGradient(gradient);
+
+    const customForce = activeCustomForce(params.customForce);
+    if (customForce !== this.customForceSource) this.compileCustomForce(customForce);
+  }
+
+  setPointers(pointers: PointerState[]): void {
+    this.pointers = pointers;
+  }
+
+  setQuality(quality: QualityLevel): void {
+    this.quality = quality;
+    this.postProcessor?.setBloomLevels(quality.bloomLevels);
+    this.applyParams(this.params);
+  }
+
+  reset(): void {
+    this.seed = this.params.seed;
+    this.time = 0;
+    this.spawner.reset();
+    if (!this.computePipeline) return;
+    this.writeParticles(createParticleData(this.particleCount, this.seed));
+  }
+
+  async readSnapshot(): Promise<ParticleSnapshot> {
+    const { device } = this;
+    const size = this.particleCount * PARTICLE_STRIDE * 4;
+    const staging = device.createBuffer({
+      size: Math.max(size, 4),
+      usage: BufferUsage.MAP_READ | BufferUsage.COPY_DST,
+    });
+    const encoder = device.createCommandEncoder();
+    encoder.copyBufferToBuffer(this.particleBuffers[this.current], 0, staging, 0, size);
+    device.queue.submit([encoder.finish()]);
+    // Taken along with the copy; frames keep running while the readback is in flight
+    const state = { count: this.particleCount, seed: this.seed, frame: this.spawner.frameCount, time: this.time };
+
+    try {
+      await staging.mapAsync(MapMode.READ);
+      return { ...state, data: new Float32Array(staging.getMappedRange(0, size).slice(0)) };
+    } finally {
+      staging.destroy();
+    }
+  }
+
+  loadSnapshot(snapshot: ParticleSnapshot): void {
+    // The host takes the snapshot's count as the new particle count, which a reduced level would scale down again
+    this.quality = FULL_QUALITY;
+    this.postProcessor?.setBloomLevels(FULL_QUALITY.bloomLevels);
+    if (snapshot.count !== this.particleCount) {
+      this.resizeParticles(snapshot.count);
+    }
+    this.seed = snapshot.seed;
+    this.time = snapshot.time;
+    this.spawner.reset(snapshot.frame);
+    this.writeParticles(snapshot.data);
+  }
+
+  setStatsListener(listener: ((stats: PerformanceStats) => void) | null): void {
+    this.monitor.setListener(listener);
+  }
+
+  setCompileListener(listener: ((result: CompileResult) => void) | null): void {
+    this.compileListener = listener;
+  }
+
+  /** Stops the loop and releases GPU resources. The injected device is left to its owner. */
+  dispose(): void {
+    this.stop();
+    this.monitor.setListener(null);
+    this.timeline.setListener(null);
+    this.compileListener = null;
+    this.particleBuffers.forEach((buffer) => buffer.destroy());
+    this.uniformBuffer?.destroy();
+    this.emitterBuffer?.destroy();
+    this.spawnStateBuffer?.destroy();
+    this.forceFieldBuffer?.destroy();
+    this.flowTexture?.destroy();
+    this.obstacleBuffer?.destroy();
+    this.obstacleMaskTexture?.destroy();
+    this.neighborParamsBuffer?.destroy();
+    this.cellCountsBuffer?.destroy();
+    this.cellStartBuffer?.destroy();
+    this.particleCellsBuffer?.destroy();
+    this.sortedIndicesBuffer?.destroy();
+    this.densitiesBuffer?.destroy();
+    this.gradientTexture?.destroy();
+    this.atlasTexture?.destroy();
+    this.postProcessor?.dispose();
+    this.gpuTimer?.dispose();
+    this.particleBuffers = [];
+    this.uniformBuffer = null;
+    this.emitterBuffer = null;
+    this.spawnStateBuffer = null;
+    this.forceFieldBuffer = null;
+    this.flowTexture = null;
+    this.flowTextureSource = null;
+    this.obstacleBuffer = null;
+    this.obstacleMaskTexture = null;
+    this.obstacleMaskSource = null;
+    this.neighborParamsBuffer = null;
+    this.cellCountsBuffer = null;
+    this.cellStartBuffer = null;
+    this.particleCellsBuffer = null;
+    this.sortedIndicesBuffer = null;
+    this.densitiesBuffer = null;
+    this.gradientTexture = null;
+    this.gradientSource = null;
+    this.atlasTexture = null;
+    this.atlasSource = null;
+    this.atlasSampler = null;
+    this.gridBindGroup = null;
+    this.gridBindGroupLayout = null;
+    this.gridPipelines = [];
+    this.computeBindGroups = [];
+    this.renderBindGroups = [];
+    this.computeBindGroupLayout = null;
+    this.renderBindGroupLayout = null;
+    this.computePipeline = null;
+    this.computeLayout = null;
+    this.renderPipeline = null;
+    this.postProcessor = null;
+    this.gpuTimer = null;
+    this.context.unconfigure();
+  }
+
+  /** Rebuilds the `main` pipeline around a custom force snippet; on errors the running pipeline stays. */
+  private async compileCustomForce(code: string): Promise<void> {
+    const { device } = this;
+    const compile = ++this.compileCount;
+    this.customForceSource = code;
+
+    let diagnostics: ShaderDiagnostic[];
+    try {
+      // Scoped, so snippet errors don't also surface as uncaptured errors
+      device.pushErrorScope('validation');
+      const module = device.createShaderModule({ label: 'Compute Module', code: buildComputeShader(code) });
+      const scope = device.popErrorScope();
+      diagnostics = mapDiagnostics((await module.getCompilationInfo()).messages, code);
+      const scopeError = await scope;
+      if (scopeError && !diagnostics.some((d) => d.type === 'error')) {
+        diagnostics.push({ type: 'error', line: null, column: null, message: scopeError.message });
+      }
+
+      if (this.computeLayout && !diagnostics.some((d) => d.type === 'error')) {
+        const pipeline = await device.createComputePipelineAsync({
+          layout: this.computeLayout,
+          compute: { module, entryPoint: 'main' },
+        });
+        // Skipped when a newer snippet came in, or the engine was disposed, meanwhile
+        if (compile === this.compileCount && this.computePipeline) this.computePipeline = pipeline;
+      }
+    } catch (error) {
+      diagnostics = [{ type: 'error', line: null, column: null, message: error instanceof Error ? error.message : String(error) }];
+    }
+
+    if (compile === this.compileCount) this.compileListener?.({ code, diagnostics });
+  }
+
+  private memoryUsage(): MemoryUsage {
+    return {
+      buffers: bufferBytes([
+        ...this.particleBuffers,
+        this.uniformBuffer,
+        this.emitterBuffer,
+        this.spawnStateBuffer,
+        this.forceFieldBuffer,
+        this.obstacleBuffer,
+        this.neighborParamsBuffer,
+        this.cellCountsBuffer,
+        this.cellStartBuffer,
+        this.particleCellsBuffer,
+        this.sortedIndicesBuffer,
+        this.densitiesBuffer,
+      ]) + (this.gpuTimer?.bufferBytes ?? 0),
+      textures: textureBytes(this.flowTexture) +
+        textureBytes(this.obstacleMaskTexture) +
+        textureBytes(this.gradientTexture) +
+        textureBytes(this.atlasTexture) +
+        (this.postProcessor?.textureBytes ?? 0),
+    };
+  }
+
+  /**
+   * Reallocates the particle buffers for `count` particles without touching the
+   * device or pipelines: existing particles are copied over (truncated when
+   * shrinking) and any new ones are seeded like at startup.
+   */
+  private resizeParticles(count: number): void {
+    const { device } = this;
+    const oldBuffers = this.particleBuffers;
+    const kept = Math.min(this.particleCount, count);
+    const newBuffers = [0, 1].map(() => this.createParticleBuffer(count));
+
+    const encoder = device.createCommandEncoder();
+    if (kept > 0) {
+      encoder.copyBufferToBuffer(oldBuffers[this.current], 0, newBuffers[0], 0, kept * PARTICLE_STRIDE * 4);
+    }
+    if (count > kept) {
+      device.queue.writeBuffer(newBuffers[0], kept * PARTICLE_STRIDE * 4, createParticleData(count - kept, this.seed, kept));
+    }
+    device.queue.submit([encoder.finish()]);
+
+    // Destruction waits for the copy submitted above
+    oldBuffers.forEach((buffer) => buffer.destroy());
+    this.createGridBuffers(count);
+
+    this.particleBuffers = newBuffers;
+    this.particleCount = count;
+    this.current = 0;
+    this.createBindGroups();
+  }
+
+  // Replaces the state in both particle buffers
+  private writeParticles(data: Float32Array): void {
+    this.particleBuffers.forEach((buffer) => this.device.queue.writeBuffer(buffer, 0, data));
+    this.current = 0;
+  }
+
+  private createParticleBuffer(count: number): GPUBuffer {
+    return this.device.createBuffer({
+      // Zero-sized storage bindings are invalid, keep room for one particle
+      size: Math.max(count, 1) * PARTICLE_STRIDE * 4,
+      usage: BufferUsage.STORAGE | BufferUsage.COPY_DST | BufferUsage.COPY_SRC,
+    });
+  }
+
+  // Vector field for the 'texture' flow generator; a 1x1 zero field stands in when none is loaded
+  private createFlowTexture(grid: VectorFieldGrid | null): void {
+    this.flowTexture?.destroy();
+    this.flowTextureSource = grid;
+
+    const width = grid ? grid.width : 1;
+    const height = grid ? grid.height : 1;
+    this.flowTexture = this.device.createTexture({
+      size: [width, height],
+      format: 'rg32float',
+      usage: TextureUsage.TEXTURE_BINDING | TextureUsage.COPY_DST,
+    });
+    const data = grid ? new Float32Array(grid.data) : new Float32Array(2);
+    this.device.queue.writeTexture({ texture: this.flowTexture }, data, { bytesPerRow: width * 8 }, [width, height]);
+  }
+
+  // Signed distances baked from an image mask; unused (1x1) while the shader's mask flag is off
+  private createObstacleMaskTexture(grid: DistanceFieldGrid | null): void {
+    this.obstacleMaskTexture?.destroy();
+    this.obstacleMaskSource = grid;
+
+    const width = grid ? grid.width : 1;
+    const height = grid ? grid.height : 1;
+    this.obstacleMaskTexture = this.device.createTexture({
+      size: [width, height],
+      format: 'r32float',
+      usage: TextureUsage.TEXTURE_BINDING | TextureUsage.COPY_DST,
+    });
+    const data = grid ? new Float32Array(grid.data) : new Float32Array(1);
+    this.device.queue.writeTexture({ texture: this.obstacleMaskTexture }, data, { bytesPerRow: width * 4 }, [width, height]);
+  }
+
+  // Sprite atlas; a 1x1 white texel stands in when none is loaded
+  private createAtlasTexture(image: SpriteImage | null): void {
+    this.atlasTexture?.destroy();
+    this.atlasSource = image;
+
+    const width = image ? image.width : 1;
+    const height = image ? image.height : 1;
+    this.atlasTexture = this.device.createTexture({
+      size: [width, height],
+      format: 'rgba8unorm',
+      usage: TextureUsage.TEXTURE_BINDING | TextureUsage.COPY_DST,
+    });
+    const data = image ? image.data : new Uint8Array([255, 255, 255, 255]);
+    this.device.queue.writeTexture({ texture: this.atlasTexture }, data, { bytesPerRow: width * 4 }, [width, height]);
+  }
+
+  // Gradient texels are rewritten in place, so the bind groups stay valid
+  private writeGradient(stops: GradientStop[]): void {
+    this.gradientSource = stops;
+    this.device.queue.writeTexture(
+      { texture: this.gradientTexture! },
+      bakeGradient(stops),
+      { bytesPerRow: GRADIENT_RESOLUTION * 4 },
+      [GRADIENT_RESOLUTION]
+    );
+  }
+
+  // Per-particle grid buffers; the previous ones are released
+  private createGridBuffers(count: number): void {
+    this.particleCellsBuffer?.destroy();
+    this.sortedIndicesBuffer?.destroy();
+    this.densitiesBuffer?.destroy();
+
+    this.particleCellsBuffer = this.device.createBuffer({
+      size: Math.max(count, 1) * 8,
+      usage: BufferUsage.STORAGE,
+    });
+    this.sortedIndicesBuffer = this.device.createBuffer({
+      size: Math.max(count, 1) * 4,
+      usage: BufferUsage.STORAGE,
+    });
+    this.densitiesBuffer = this.device.createBuffer({
+      size: Math.max(count, 1) * 8,
+      usage: BufferUsage.STORAGE,
+    });
+  }
+
+  // computeBindGroups[i] reads buffer i and writes buffer 1 - i,
+  // renderBindGroups[i] draws from buffer i.
+  private createBindGroups(): void {
+    const { device, uniformBuffer, particleBuffers } = this;
+
+    this.computeBindGroups = [0, 1].map((i) => device.createBindGroup({
+      layout: this.computeBindGroupLayout!,
+      entries: [
+        { binding: 0, resource: { buffer: uniformBuffer! } },
+        { binding: 1, resource: { buffer: particleBuffers[i] } },
+        { binding: 2, resource: { buffer: particleBuffers[1 - i] } },
+        { binding: 3, resource: { buffer: this.emitterBuffer! } },
+        { binding: 4, resource: { buffer: this.spawnStateBuffer! } },
+        { binding: 5, resource: { buffer: this.forceFieldBuffer! } },
+        { binding: 6, resource: this.flowTexture!.createView() },
+        { binding: 7, resource: { buffer: this.obstacleBuffer! } },
+        { binding: 8, resource: this.obstacleMaskTexture!.createView() },
+      ],
+    }));
+
+    this.gridBindGroup = device.createBindGroup({
+      layout: this.gridBindGroupLayout!,
+      entries: [
+        { binding: 0, resource: { buffer: this.neighborParamsBuffer! } },
+        { binding: 1, resource: { buffer: this.cellCountsBuffer! } },
+        { binding: 2, resource: { buffer: this.cellStartBuffer! } },
+        { binding: 3, resource: { buffer: this.particleCellsBuffer! } },
+        { binding: 4, resource: { buffer: this.sortedIndicesBuffer! } },
+        { binding: 5, resource: { buffer: this.densitiesBuffer! } },
+      ],
+    });
+
+    this.renderBindGroups = [0, 1].map((i) => device.createBindGroup({
+      layout: this.renderBindGroupLayout!,
+      entries: [
+        { binding: 0, resource: { buffer: uniformBuffer! } },
+        { binding: 1, resource: { buffer: particleBuffers[i] } },
+        { binding: 2, resource: { buffer: this.densitiesBuffer! } },
+        { binding: 3, resource: this.gradientTexture!.createView() },
+        { binding: 4, resource: this.atlasTexture!.createView() },
+        { binding: 5, resource: this.atlasSampler! },
+      ],
+    }));
+  }
+
+  private configureContext(): void {
+    this.context.configure({
+      device: this.device,
+      format: this.format,
+      alphaMode: 'opaque',
+    });
+  }
+}
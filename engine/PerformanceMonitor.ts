@@ -0,0 +1,118 @@
+// Frames kept for the frame-time graph and percentiles
+export const FRAME_HISTORY = 120;
+// Stats are sent to the listener at most this often, in ms
+const REPORT_INTERVAL = 250;
+
+const BYTES_PER_TEXEL: Partial<Record<GPUTextureFormat, number>> = {
+  'r32float': 4,
+  'rg32float': 8,
+  'rgba8unorm': 4,
+  'rgba16float': 8,
+};
+
+export interface MemoryUsage {
+  buffers: number; // Bytes
+  textures: number; // Bytes, estimated from size and format
+}
+
+export interface PerformanceStats {
+  fps: number;
+  frameTimes: number[]; // ms between the latest frames, oldest first
+  p50: number; // Frame time percentiles, ms
+  p95: number;
+  p99: number;
+  cpuTime: number; // Average ms spent simulating (CPU fallback) or encoding (WebGPU) a frame
+  gpuCompute: number | null; // ms, null without `timestamp-query` or on the CPU
+  gpuRender: number | null;
+  memory: MemoryUsage;
+  particleCount: number;
+}
+
+/** Bytes of `texture` including its mip chain, for the formats the engine creates. */
+export const textureBytes = (texture: GPUTexture | null): number => {
+  if (!texture) return 0;
+  let texels = 0;
+  for (let level = 0; level < texture.mipLevelCount; level++) {
+    texels += Math.max(texture.width >> level, 1) * Math.max(texture.height >> level, 1);
+  }
+  return texels * texture.depthOrArrayLayers * (BYTES_PER_TEXEL[texture.format] ?? 4);
+};
+
+export const bufferBytes = (buffers: (GPUBuffer | null)[]): number =>
+  buffers.reduce((sum, buffer) => sum + (buffer?.size ?? 0), 0);
+
+const percentile = (sorted: number[], p: number): number =>
+  sorted.length === 0 ? 0 : sorted[Math.min(Math.floor(sorted.length * p), sorted.length - 1)];
+
+/**
+ * Collects the timings of the engine's own frames and reports them
+ * periodically, so the overlay measures the simulation rather than the
+ * browser's refresh rate.
+ */
+export class PerformanceMonitor {
+  private frameTimes: number[] = [];
+  private cpuTimes: number[] = [];
+  private gpuCompute: number | null = null;
+  private gpuRender: number | null = null;
+  private lastFrame: number | null = null;
+  private lastReport = 0;
+  private listener: ((stats: PerformanceStats) => void) | null = null;
+
+  get isListening(): boolean {
+    return this.listener !== null;
+  }
+
+  setListener(listener: ((stats: PerformanceStats) => void) | null): void {
+    this.listener = listener;
+  }
+
+  /** Records the interval since the previous frame (`now` in ms). */
+  frame(now: number): void {
+    if (this.lastFrame !== null) {
+      this.push(this.frameTimes, now - this.lastFrame);
+    }
+    this.lastFrame = now;
+  }
+
+  cpu(ms: number): void {
+    this.push(this.cpuTimes, ms);
+  }
+
+  /** Latest GPU pass durations, which arrive a few frames late. */
+  gpu(compute: number, render: number): void {
+    this.gpuCompute = compute;
+    this.gpuRender = render;
+  }
+
+  /** Forgets the previous frame, so a restart doesn't count the pause as one long frame. */
+  reset(): void {
+    this.lastFrame = null;
+  }
+
+  /** Sends the stats to the listener, at most every REPORT_INTERVAL ms. */
+  report(now: number, particleCount: number, memory: () => MemoryUsage): void {
+    if (!this.listener || now - this.lastReport < REPORT_INTERVAL) return;
+    this.lastReport = now;
+
+    const sorted = [...this.frameTimes].sort((a, b) => a - b);
+    const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+    const frameTime = mean(this.frameTimes);
+    this.listener({
+      fps: frameTime > 0 ? 1000 / frameTime : 0,
+      frameTimes: [...this.frameTimes],
+      p50: percentile(sorted, 0.5),
+      p95: percentile(sorted, 0.95),
+      p99: percentile(sorted, 0.99),
+      cpuTime: mean(this.cpuTimes),
+      gpuCompute: this.gpuCompute,
+      gpuRender: this.gpuRender,
+      memory: memory(),
+      particleCount,
+    });
+  }
+
+  private push(values: number[], value: number): void {
+    values.push(value);
+    if (values.length > FRAME_HISTORY) values.shift();
+  }
+}
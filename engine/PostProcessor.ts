@@ -0,0 +1,251 @@
+import { POST_SHADER } from '../constants';
+import { PostProcessParams, TonemapMode } from '../types';
+import { BufferUsage, ShaderStage, TextureUsage } from './gpuFlags';
+import { textureBytes } from './PerformanceMonitor';
+
+// The scene is drawn in floating point, so additive blending can exceed white for bloom and tonemapping
+export const HDR_FORMAT: GPUTextureFormat = 'rgba16float';
+// Bloom mip chain length, starting at half resolution
+export const BLOOM_LEVELS = 6;
+export const POST_PARAMS_SIZE = 16;
+
+const TONEMAP_IDS: Record<TonemapMode, number> = {
+  none: 0,
+  reinhard: 1,
+  aces: 2,
+};
+
+// Mirrors the `PostParams` uniform struct in POST_SHADER
+export const packPostParams = (params: PostProcessParams): Float32Array => new Float32Array([
+  params.bloomThreshold,                        // 0-4
+  params.bloom ? params.bloomIntensity : 0.0,   // 4-8
+  params.exposure,                              // 8-12
+  TONEMAP_IDS[params.tonemap],                  // 12-16
+]);
+
+/** Brightness the trails keep over `frames` frames at 60 Hz. */
+export const trailFade = (decay: number, frames: number): number => Math.pow(decay, frames);
+
+/**
+ * Owns the offscreen HDR scene and the passes that turn it into the final
+ * image: trail fading, a bloom mip chain and the tonemapping composite.
+ */
+export class PostProcessor {
+  private readonly device: GPUDevice;
+
+  private readonly fadePipeline: GPURenderPipeline;
+  private readonly thresholdPipeline: GPURenderPipeline;
+  private readonly downsamplePipeline: GPURenderPipeline;
+  private readonly upsamplePipeline: GPURenderPipeline;
+  private readonly compositePipeline: GPURenderPipeline;
+  private readonly sampleLayout: GPUBindGroupLayout;
+  private readonly compositeLayout: GPUBindGroupLayout;
+  private readonly sampler: GPUSampler;
+  private readonly paramsBuffer: GPUBuffer;
+
+  private sceneTexture: GPUTexture | null = null;
+  private bloomTexture: GPUTexture | null = null;
+  private bloomViews: GPUTextureView[] = []; // One per mip level
+  private thresholdBindGroup: GPUBindGroup | null = null;
+  private downsampleBindGroups: GPUBindGroup[] = []; // [i] reads level i - 1
+  private upsampleBindGroups: GPUBindGroup[] = []; // [i] reads level i + 1
+  private compositeBindGroup: GPUBindGroup | null = null;
+  private view: GPUTextureView | null = null;
+  private maxBloomLevels = BLOOM_LEVELS;
+
+  constructor(device: GPUDevice, format: GPUTextureFormat, width: number, height: number) {
+    this.device = device;
+
+    const module = device.createShaderModule({
+      label: 'Post-processing Module',
+      code: POST_SHADER
+    });
+
+    this.sampleLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: ShaderStage.FRAGMENT, buffer: { type: 'uniform' } },
+        { binding: 1, visibility: ShaderStage.FRAGMENT, texture: {} },
+        { binding: 2, visibility: ShaderStage.FRAGMENT, sampler: {} },
+      ]
+    });
+
+    this.compositeLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: ShaderStage.FRAGMENT, buffer: { type: 'uniform' } },
+        { binding: 1, visibility: ShaderStage.FRAGMENT, texture: {} },
+        { binding: 2, visibility: ShaderStage.FRAGMENT, sampler: {} },
+        { binding: 3, visibility: ShaderStage.FRAGMENT, texture: {} },
+      ]
+    });
+
+    const createPipeline = (
+      entryPoint: string,
+      layouts: GPUBindGroupLayout[],
+      targetFormat: GPUTextureFormat,
+      blend?: GPUBlendState
+    ) => device.createRenderPipeline({
+      layout: device.createPipelineLayout({ bindGroupLayouts: layouts }),
+      vertex: { module, entryPoint: 'vs_fullscreen' },
+      fragment: { module, entryPoint, targets: [{ format: targetFormat, blend }] },
+      primitive: { topology: 'triangle-list' },
+    });
+
+    // Multiplies the scene by the blend constant
+    this.fadePipeline = createPipeline('fs_fade', [], HDR_FORMAT, {
+      color: { srcFactor: 'zero', dstFactor: 'constant', operation: 'add' },
+      alpha: { srcFactor: 'zero', dstFactor: 'one', operation: 'add' },
+    });
+    this.thresholdPipeline = createPipeline('fs_threshold', [this.sampleLayout], HDR_FORMAT);
+    this.downsamplePipeline = createPipeline('fs_downsample', [this.sampleLayout], HDR_FORMAT);
+    this.upsamplePipeline = createPipeline('fs_upsample', [this.sampleLayout], HDR_FORMAT, {
+      color: { srcFactor: 'one', dstFactor: 'one', operation: 'add' },
+      alpha: { srcFactor: 'zero', dstFactor: 'one', operation: 'add' },
+    });
+    this.compositePipeline = createPipeline('fs_composite', [this.compositeLayout], format);
+
+    this.sampler = device.createSampler({
+      magFilter: 'linear',
+      minFilter: 'linear',
+      addressModeU: 'clamp-to-edge',
+      addressModeV: 'clamp-to-edge',
+    });
+
+    this.paramsBuffer = device.createBuffer({
+      size: POST_PARAMS_SIZE,
+      usage: BufferUsage.UNIFORM | BufferUsage.COPY_DST,
+    });
+
+    this.resize(width, height);
+  }
+
+  /** The HDR texture particles are drawn into. */
+  get sceneView(): GPUTextureView {
+    return this.view!;
+  }
+
+  /** Caps the bloom mip chain for speed; 0 skips bloom altogether. */
+  setBloomLevels(levels: number): void {
+    this.maxBloomLevels = levels;
+  }
+
+  /** Bytes held by the scene and bloom textures. */
+  get textureBytes(): number {
+    return textureBytes(this.sceneTexture) + textureBytes(this.bloomTexture);
+  }
+
+  /** Reallocates the scene and bloom textures, which also clears the trails. */
+  resize(width: number, height: number): void {
+    const { device } = this;
+    width = Math.max(1, Math.floor(width));
+    height = Math.max(1, Math.floor(height));
+    this.sceneTexture?.destroy();
+    this.bloomTexture?.destroy();
+
+    this.sceneTexture = device.createTexture({
+      size: [width, height],
+      format: HDR_FORMAT,
+      usage: TextureUsage.RENDER_ATTACHMENT | TextureUsage.TEXTURE_BINDING | TextureUsage.COPY_SRC,
+    });
+    this.view = this.sceneTexture.createView();
+
+    const bloomWidth = Math.ceil(width / 2);
+    const bloomHeight = Math.ceil(height / 2);
+    const levels = Math.min(BLOOM_LEVELS, Math.floor(Math.log2(Math.max(bloomWidth, bloomHeight))) + 1);
+    this.bloomTexture = device.createTexture({
+      size: [bloomWidth, bloomHeight],
+      format: HDR_FORMAT,
+      mipLevelCount: levels,
+      usage: TextureUsage.RENDER_ATTACHMENT | TextureUsage.TEXTURE_BINDING,
+    });
+    this.bloomViews = Array.from({ length: levels }, (_, level) =>
+      this.bloomTexture!.createView({ baseMipLevel: level, mipLevelCount: 1 })
+    );
+
+    const sampling = (view: GPUTextureView) => device.createBindGroup({
+      layout: this.sampleLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.paramsBuffer } },
+        { binding: 1, resource: view },
+        { binding: 2, resource: this.sampler },
+      ],
+    });
+    this.thresholdBindGroup = sampling(this.view);
+    this.downsampleBindGroups = this.bloomViews.map((_, level) => sampling(this.bloomViews[Math.max(level - 1, 0)]));
+    this.upsampleBindGroups = this.bloomViews.map((_, level) => sampling(this.bloomViews[Math.min(level + 1, levels - 1)]));
+
+    this.compositeBindGroup = device.createBindGroup({
+      layout: this.compositeLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.paramsBuffer } },
+        { binding: 1, resource: this.view },
+        { binding: 2, resource: this.sampler },
+        { binding: 3, resource: this.bloomViews[0] },
+      ],
+    });
+  }
+
+  /** Scales what the scene holds by `amount`, from inside the pass drawing onto it. */
+  fade(pass: GPURenderPassEncoder, amount: number): void {
+    pass.setPipeline(this.fadePipeline);
+    pass.setBlendConstant([amount, amount, amount, amount]);
+    pass.draw(3);
+  }
+
+  /** Blooms the scene (when enabled) and tonemaps it onto `target`; `timestampWrites` go on the composite pass. */
+  encode(
+    encoder: GPUCommandEncoder,
+    target: GPUTextureView,
+    params: PostProcessParams,
+    timestampWrites?: GPURenderPassTimestampWrites
+  ): void {
+    const levels = Math.min(this.bloomViews.length, this.maxBloomLevels);
+    const bloom = params.bloom && levels > 0;
+    this.device.queue.writeBuffer(this.paramsBuffer, 0, packPostParams({ ...params, bloom }));
+
+    if (bloom) {
+      this.drawPass(encoder, this.bloomViews[0], this.thresholdPipeline, this.thresholdBindGroup!, 'clear');
+      for (let level = 1; level < levels; level++) {
+        this.drawPass(encoder, this.bloomViews[level], this.downsamplePipeline, this.downsampleBindGroups[level], 'clear');
+      }
+      // Each level gathers the blurred levels below it
+      for (let level = levels - 2; level >= 0; level--) {
+        this.drawPass(encoder, this.bloomViews[level], this.upsamplePipeline, this.upsampleBindGroups[level], 'load');
+      }
+    }
+
+    this.drawPass(encoder, target, this.compositePipeline, this.compositeBindGroup!, 'clear', timestampWrites);
+  }
+
+  dispose(): void {
+    this.sceneTexture?.destroy();
+    this.bloomTexture?.destroy();
+    this.paramsBuffer.destroy();
+    this.sceneTexture = null;
+    this.bloomTexture = null;
+    this.bloomViews = [];
+    this.view = null;
+  }
+
+  private drawPass(
+    encoder: GPUCommandEncoder,
+    view: GPUTextureView,
+    pipeline: GPURenderPipeline,
+    bindGroup: GPUBindGroup,
+    loadOp: GPULoadOp,
+    timestampWrites?: GPURenderPassTimestampWrites
+  ): void {
+    const pass = encoder.beginRenderPass({
+      timestampWrites,
+      colorAttachments: [{
+        view,
+        clearValue: { r: 0.0, g: 0.0, b: 0.0, a: 1.0 },
+        loadOp,
+        storeOp: 'store',
+      }],
+    });
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(0, bindGroup);
+    pass.draw(3);
+    pass.end();
+  }
+}
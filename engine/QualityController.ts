@@ -0,0 +1,114 @@
+import { PerformanceStats } from './PerformanceMonitor';
+import { BLOOM_LEVELS } from './PostProcessor';
+
+export interface QualityLevel {
+  particles: number; // Share of `particleCount` simulated
+  resolution: number; // Share of the device pixel ratio rendered
+  bloomLevels: number; // Bloom mip levels used, 0 skips bloom
+}
+
+// Best first; each step trades a little more of the picture for speed
+export const QUALITY_LEVELS: readonly QualityLevel[] = [
+  { particles: 1.0, resolution: 1.0, bloomLevels: BLOOM_LEVELS },
+  { particles: 1.0, resolution: 0.85, bloomLevels: 4 },
+  { particles: 0.75, resolution: 0.75, bloomLevels: 4 },
+  { particles: 0.5, resolution: 0.75, bloomLevels: 3 },
+  { particles: 0.35, resolution: 0.6, bloomLevels: 2 },
+  { particles: 0.25, resolution: 0.5, bloomLevels: 0 },
+];
+
+export const FULL_QUALITY = QUALITY_LEVELS[0];
+
+/** Particles simulated out of `count` at `quality`. */
+export const scaledParticleCount = (count: number, quality: QualityLevel): number =>
+  Math.max(1, Math.round(count * quality.particles));
+
+// Frame time over the budget by this factor counts as missing it...
+const OVER_BUDGET = 1.1;
+// ...and the frame's own work under this share of the budget as room to spare
+const HEADROOM = 0.6;
+// How long a miss must last before stepping down, ms
+const DOWNGRADE_DELAY = 1000;
+// How long headroom must last before stepping up, ms; doubled each time that level proves too slow
+const UPGRADE_DELAY = 3000;
+const MAX_UPGRADE_DELAY = 60000;
+// A level dropped within this long after stepping up to it counts as too slow, ms
+const RETRY_WINDOW = 10000;
+// The frame history needs this long to reflect a new level, ms
+const SETTLE_TIME = 2000;
+
+/**
+ * Picks the quality level that holds a frame-time budget. Stepping down needs
+ * a sustained miss and stepping up sustained headroom, with a settling time
+ * after every change and a growing delay before retrying a level that proved
+ * too slow, so the level doesn't oscillate.
+ */
+export class QualityController {
+  private current = 0;
+  private changedAt = 0;
+  private upgradedAt: number | null = null; // When `current` was reached by stepping up
+  private overSince: number | null = null;
+  private headroomSince: number | null = null;
+  private upgradeDelays = QUALITY_LEVELS.map(() => UPGRADE_DELAY);
+
+  get level(): number {
+    return this.current;
+  }
+
+  /** Back to full quality, forgetting which levels proved too slow. */
+  reset(): void {
+    this.current = 0;
+    this.upgradedAt = null;
+    this.overSince = null;
+    this.headroomSince = null;
+    this.upgradeDelays = QUALITY_LEVELS.map(() => UPGRADE_DELAY);
+  }
+
+  /** Restarts the timing, e.g. after a pause, whose frames say nothing about the load. */
+  hold(now: number): void {
+    this.changedAt = now;
+    this.overSince = null;
+    this.headroomSince = null;
+  }
+
+  /** Feeds the latest stats (`now` in ms); returns true when the level changed. */
+  update(stats: PerformanceStats, targetFps: number, now: number): boolean {
+    if (now - this.changedAt < SETTLE_TIME || stats.fps <= 0) return false;
+
+    const budget = 1000 / targetFps;
+    const frameTime = 1000 / stats.fps;
+    // Frames are capped by the display, so spare time shows in the work done per frame
+    const work = Math.max(stats.cpuTime, (stats.gpuCompute ?? 0) + (stats.gpuRender ?? 0));
+
+    if (frameTime > budget * OVER_BUDGET) {
+      this.headroomSince = null;
+      this.overSince ??= now;
+      if (now - this.overSince >= DOWNGRADE_DELAY && this.current < QUALITY_LEVELS.length - 1) {
+        if (this.upgradedAt !== null && now - this.upgradedAt < RETRY_WINDOW) {
+          this.upgradeDelays[this.current] = Math.min(this.upgradeDelays[this.current] * 2, MAX_UPGRADE_DELAY);
+        }
+        this.change(this.current + 1, now);
+        this.upgradedAt = null;
+        return true;
+      }
+    } else if (work < budget * HEADROOM) {
+      this.overSince = null;
+      this.headroomSince ??= now;
+      const next = this.current - 1;
+      if (next >= 0 && now - this.headroomSince >= this.upgradeDelays[next]) {
+        this.change(next, now);
+        this.upgradedAt = now;
+        return true;
+      }
+    } else {
+      this.overSince = null;
+      this.headroomSince = null;
+    }
+    return false;
+  }
+
+  private change(level: number, now: number): void {
+    this.current = level;
+    this.hold(now);
+  }
+}
@@ -0,0 +1,47 @@
+import { SimulationParams } from '../types';
+import { CompileResult } from './customForce';
+import { PerformanceStats } from './PerformanceMonitor';
+import { QualityLevel } from './QualityController';
+import { ParticleSnapshot } from './snapshot';
+import { TimelineState } from './timeline';
+import { PointerState } from './uniforms';
+
+/** Common surface of the WebGPU engine and the CPU fallback, as used by WebGPUCanvas. */
+export interface SimulationEngine {
+  readonly isRunning: boolean;
+  start(): void;
+  stop(): void;
+  /** Simulates the real time elapsed since the previous tick (`now` in ms) and draws the result. */
+  tick(now: number): void;
+  /** Advances the simulation by exactly one frame, regardless of `paused`, and draws it. */
+  step(): void;
+  /** Simulates exactly `seconds` of real time, regardless of `paused`, and draws it; 0 only redraws. */
+  advance(seconds: number): void;
+  resize(width: number, height: number): void;
+  /** The host's params; while `params.timeline` is enabled its tracks override some of them. */
+  setParams(params: SimulationParams): void;
+  /** Plays or pauses the timeline; it only moves while the simulation runs. */
+  setTimelinePlaying(playing: boolean): void;
+  /** Moves the timeline's playhead to `time` seconds and applies the keyframes there. */
+  seekTimeline(time: number): void;
+  /** Receives the playhead a few times a second during playback, and on every play, pause and seek. */
+  setTimelineListener(listener: ((state: TimelineState) => void) | null): void;
+  /** Active pointers; only the first MAX_POINTERS are simulated. */
+  setPointers(pointers: PointerState[]): void;
+  /** Recreates every particle from `params.seed` and rewinds the simulated time. */
+  reset(): void;
+  /** Copy of the current particle state. */
+  readSnapshot(): Promise<ParticleSnapshot>;
+  /**
+   * Replaces the particle state; the count and seed of the snapshot become current.
+   * Returns to full quality, so hosts can take the count as their particle count.
+   */
+  loadSnapshot(snapshot: ParticleSnapshot): void;
+  /** Receives timings and memory usage of the live loop a few times a second; null stops them. */
+  setStatsListener(listener: ((stats: PerformanceStats) => void) | null): void;
+  /** Receives the outcome of compiling each new `params.customForce`. */
+  setCompileListener(listener: ((result: CompileResult) => void) | null): void;
+  /** Simulates fewer particles and cheapens bloom; the resolution share is up to the host's resize() calls. */
+  setQuality(quality: QualityLevel): void;
+  dispose(): void;
+}
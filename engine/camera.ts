@@ -0,0 +1,75 @@
+import { CameraParams } from '../types';
+
+type Vec3 = [number, number, number];
+
+// Range of the orbit, short of the poles where the up vector flips
+export const MAX_CAMERA_PITCH = 85;
+export const MIN_CAMERA_DISTANCE = 1.5;
+export const MAX_CAMERA_DISTANCE = 10;
+export const DEFAULT_CAMERA: CameraParams = { yaw: 30, pitch: 20, distance: 3.0, fov: 50 };
+// Depth range of the projection
+const NEAR = 0.01;
+const FAR = 100;
+
+// Camera placement, as uploaded in `SimParams`
+export interface CameraBasis {
+  eye: Vec3;
+  right: Vec3;
+  up: Vec3;
+  forward: Vec3;
+  tanHalfFov: number;
+  distance: number;
+}
+
+const normalize = ([x, y, z]: Vec3): Vec3 => {
+  const len = Math.hypot(x, y, z) || 1;
+  return [x / len, y / len, z / len];
+};
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+export const buildCameraBasis = (camera: CameraParams): CameraBasis => {
+  const yaw = (camera.yaw * Math.PI) / 180;
+  const pitch = (Math.min(Math.max(camera.pitch, -MAX_CAMERA_PITCH), MAX_CAMERA_PITCH) * Math.PI) / 180;
+  const eye: Vec3 = [
+    camera.distance * Math.cos(pitch) * Math.sin(yaw),
+    camera.distance * Math.sin(pitch),
+    camera.distance * Math.cos(pitch) * Math.cos(yaw),
+  ];
+  const forward = normalize([-eye[0], -eye[1], -eye[2]]);
+  const right = normalize(cross(forward, [0, 1, 0]));
+  const up = cross(right, forward);
+  return { eye, right, up, forward, tanHalfFov: Math.tan((camera.fov * Math.PI) / 360), distance: camera.distance };
+};
+
+/** Clip space position of a world point, as `project` in RENDER_SHADER. */
+export const projectPoint = (basis: CameraBasis, point: Vec3, aspect: number): [number, number, number, number] => {
+  const rel: Vec3 = [point[0] - basis.eye[0], point[1] - basis.eye[1], point[2] - basis.eye[2]];
+  const depth = dot(rel, basis.forward);
+  const f = 1 / basis.tanHalfFov;
+  return [
+    (dot(rel, basis.right) * f) / aspect,
+    dot(rel, basis.up) * f,
+    ((depth - NEAR) * FAR) / (FAR - NEAR),
+    depth,
+  ];
+};
+
+/** Rotates the camera by a drag of `dx`, `dy` pixels on a viewport `height` pixels tall. */
+export const orbitCamera = (camera: CameraParams, dx: number, dy: number, height: number): CameraParams => ({
+  ...camera,
+  yaw: (camera.yaw - (dx / Math.max(height, 1)) * 180) % 360,
+  pitch: Math.min(Math.max(camera.pitch + (dy / Math.max(height, 1)) * 180, -MAX_CAMERA_PITCH), MAX_CAMERA_PITCH),
+});
+
+/** Moves the camera towards (factor < 1) or away from the center. */
+export const zoomCamera = (camera: CameraParams, factor: number): CameraParams => ({
+  ...camera,
+  distance: Math.min(Math.max(camera.distance * factor, MIN_CAMERA_DISTANCE), MAX_CAMERA_DISTANCE),
+});
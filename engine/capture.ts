@@ -0,0 +1,137 @@
+import { SimulationEngine } from './SimulationEngine';
+import { createZip, ZipEntry } from './zip';
+
+// Largest capture side; WebGPU guarantees 2D textures of this size
+export const MAX_CAPTURE_SIZE = 8192;
+
+export interface SequenceOptions {
+  width: number;
+  height: number;
+  frames: number;
+  fps: number; // Each frame advances the simulation by 1 / fps seconds
+}
+
+/** Saves `blob` through the browser's download prompt. */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// The canvas contents are copied when toBlob is called, so the canvas may be drawn over right after
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image.'))), 'image/png');
+  });
+
+const clampSize = (size: number) => Math.min(Math.max(Math.round(size), 1), MAX_CAPTURE_SIZE);
+
+/**
+ * Renders the current state at `width` x `height` and encodes it as PNG. The
+ * drawing buffer is resized for the capture and restored afterwards, which
+ * restarts any trails.
+ */
+export const captureImage = async (
+  engine: SimulationEngine,
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number
+): Promise<Blob> => {
+  const restore = { width: canvas.width, height: canvas.height };
+  try {
+    engine.resize(clampSize(width), clampSize(height));
+    engine.advance(0);
+    return await canvasToPng(canvas);
+  } finally {
+    engine.resize(restore.width, restore.height);
+  }
+};
+
+/**
+ * Offline render: pauses the live loop and steps the engine by exactly 1 / fps
+ * seconds per frame, however long each frame takes to draw and encode. Returns
+ * a ZIP of numbered PNGs, or null when cancelled through `signal`.
+ */
+export const renderSequence = async (
+  engine: SimulationEngine,
+  canvas: HTMLCanvasElement,
+  options: SequenceOptions,
+  onProgress: (frame: number) => void,
+  signal?: AbortSignal
+): Promise<Blob | null> => {
+  const restore = { width: canvas.width, height: canvas.height };
+  const wasRunning = engine.isRunning;
+  const digits = Math.max(5, String(options.frames).length);
+  const entries: ZipEntry[] = [];
+
+  engine.stop();
+  try {
+    engine.resize(clampSize(options.width), clampSize(options.height));
+    for (let frame = 0; frame < options.frames; frame++) {
+      if (signal?.aborted) return null;
+      engine.advance(1 / options.fps);
+      const png = await canvasToPng(canvas);
+      entries.push({
+        name: `frame_${String(frame).padStart(digits, '0')}.png`,
+        data: new Uint8Array(await png.arrayBuffer()),
+      });
+      onProgress(frame + 1);
+    }
+    return createZip(entries);
+  } finally {
+    engine.resize(restore.width, restore.height);
+    if (wasRunning) engine.start();
+  }
+};
+
+// Preferred codecs first; browsers differ in which WebM flavors they record
+const RECORDING_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/** Real-time WebM recording of a canvas through MediaRecorder. */
+export class CanvasRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+
+  static get isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && RECORDING_TYPES.some((type) => MediaRecorder.isTypeSupported(type));
+  }
+
+  get isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  start(canvas: HTMLCanvasElement, fps: number, bitsPerSecond: number): void {
+    if (this.recorder) return;
+    const mimeType = RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      throw new Error('This browser cannot record WebM video.');
+    }
+
+    this.chunks = [];
+    this.recorder = new MediaRecorder(canvas.captureStream(fps), { mimeType, videoBitsPerSecond: bitsPerSecond });
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    // Hand over data every second, so a long recording isn't held in one piece
+    this.recorder.start(1000);
+  }
+
+  /** Ends the recording; resolves with the video, or null when none was running. */
+  stop(): Promise<Blob | null> {
+    const { recorder } = this;
+    if (!recorder) return Promise.resolve(null);
+    this.recorder = null;
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        recorder.stream.getTracks().forEach((track) => track.stop());
+        resolve(new Blob(this.chunks, { type: recorder.mimeType }));
+        this.chunks = [];
+      };
+      recorder.stop();
+    });
+  }
+}
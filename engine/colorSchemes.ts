@@ -0,0 +1,93 @@
+import { ColorScheme, GradientStop, SimulationParams } from '../types';
+
+export type RGB = [number, number, number];
+
+// Texels of the gradient texture sampled by vs_main
+export const GRADIENT_RESOLUTION = 256;
+export const MAX_GRADIENT_STOPS = 8;
+
+// Built-in three-stop gradients
+export const COLOR_SCHEMES: Record<Exclude<ColorScheme, 'custom'>, GradientStop[]> = {
+  neon: [
+    { position: 0.0, color: '#0d99ff' }, // Cyan
+    { position: 0.5, color: '#9900ff' }, // Purple
+    { position: 1.0, color: '#ffe680' }, // White/Gold
+  ],
+  fire: [
+    { position: 0.0, color: '#800000' },
+    { position: 0.5, color: '#ff4d00' },
+    { position: 1.0, color: '#ffe61a' },
+  ],
+  ocean: [
+    { position: 0.0, color: '#001a4d' },
+    { position: 0.5, color: '#0080b3' },
+    { position: 1.0, color: '#99ffe6' },
+  ],
+};
+
+/** The stops of the active scheme. Preset stops keep their identity, so they can be compared by reference. */
+export const resolveGradient = (params: SimulationParams): GradientStop[] =>
+  params.colorScheme === 'custom' ? params.customGradient : COLOR_SCHEMES[params.colorScheme] ?? COLOR_SCHEMES.neon;
+
+/** Parses `#rrggbb` into channels in 0..1; anything else is black. */
+export const hexToRgb = (hex: string): RGB => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return [0, 0, 0];
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+};
+
+export const rgbToHex = (rgb: RGB): string =>
+  `#${rgb.map((c) => Math.round(Math.min(Math.max(c, 0), 1) * 255).toString(16).padStart(2, '0')).join('')}`;
+
+const mix = (a: RGB, b: RGB, t: number): RGB => [
+  a[0] + (b[0] - a[0]) * t,
+  a[1] + (b[1] - a[1]) * t,
+  a[2] + (b[2] - a[2]) * t,
+];
+
+/** Gradient lookup for `t` in 0..1, channels in 0..1. The stops may be in any order. */
+export const sampleGradient = (stops: GradientStop[], t: number): RGB => {
+  if (stops.length === 0) return [0, 0, 0];
+  const sorted = [...stops].sort((a, b) => a.position - b.position);
+  if (t <= sorted[0].position) return hexToRgb(sorted[0].color);
+
+  for (let i = 1; i < sorted.length; i++) {
+    const a = sorted[i - 1];
+    const b = sorted[i];
+    if (t <= b.position) {
+      const span = b.position - a.position;
+      return mix(hexToRgb(a.color), hexToRgb(b.color), span > 0 ? (t - a.position) / span : 1.0);
+    }
+  }
+  return hexToRgb(sorted[sorted.length - 1].color);
+};
+
+/**
+ * Crossfade from gradient `a` to `b` by `t` in 0..1. Both are piecewise linear,
+ * so stops at the union of their positions reproduce the blend exactly.
+ */
+export const blendGradients = (a: GradientStop[], b: GradientStop[], t: number): GradientStop[] => {
+  const positions = [...new Set([...a, ...b].map((stop) => stop.position))].sort((x, y) => x - y);
+  return positions.map((position) => ({
+    position,
+    color: rgbToHex(mix(sampleGradient(a, position), sampleGradient(b, position), t)),
+  }));
+};
+
+/** RGBA8 texels of the gradient, as uploaded to the 1D gradient texture. */
+export const bakeGradient = (stops: GradientStop[]): Uint8Array => {
+  const data = new Uint8Array(GRADIENT_RESOLUTION * 4);
+  for (let i = 0; i < GRADIENT_RESOLUTION; i++) {
+    const rgb = sampleGradient(stops, i / (GRADIENT_RESOLUTION - 1));
+    data.set([rgb[0] * 255, rgb[1] * 255, rgb[2] * 255, 255], i * 4);
+  }
+  return data;
+};
+
+/** Fully saturated color of `hue` in 0..1, as `hueColor` in RENDER_SHADER. */
+export const hueToRgb = (hue: number): RGB => {
+  const h = hue - Math.floor(hue);
+  const channel = (offset: number) => Math.min(Math.max(Math.abs(((h * 6.0 + offset) % 6.0) - 3.0) - 1.0, 0.0), 1.0);
+  return [channel(0.0), channel(4.0), channel(2.0)];
+};
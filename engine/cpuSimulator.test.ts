@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { stepParticle, StepScene } from './cpuSimulator';
+import { buildObstacleScene } from './obstacles';
+import { PARTICLE_STRIDE } from './particles';
+import { DEFAULT_PARAMS } from './presets';
+import { buildSimUniforms, PointerState } from './uniforms';
+
+const FRAME = 1 / 60;
+
+const scene = (): StepScene => ({
+  spawn: { count: 0, budget: 0, emitters: [], seed: 1 },
+  fields: [],
+  flowTexture: null,
+  obstacles: buildObstacleScene([], null),
+});
+
+// One free-flowing particle stepped on a square canvas; returns x, y, vx, vy
+const step = (
+  particle: { x: number; y: number; vx?: number; vy?: number },
+  pointers: PointerState[] = [],
+  deltaTime = FRAME
+): [number, number, number, number] => {
+  const input = new Float32Array(PARTICLE_STRIDE);
+  input.set([particle.x, particle.y, particle.vx ?? 0, particle.vy ?? 0]);
+  const output = new Float32Array(PARTICLE_STRIDE);
+  const uniforms = buildSimUniforms(DEFAULT_PARAMS, pointers, 100, 100, deltaTime, 0);
+  stepParticle(input, output, 0, uniforms, scene(), null, null);
+  return [output[0], output[1], output[2], output[3]];
+};
+
+// Velocity change caused by the pointers alone; the flow field pushes both runs the same
+const pointerPush = (x: number, y: number, pointer: PointerState): [number, number] => {
+  const [, , vx, vy] = step({ x, y }, [pointer]);
+  const [, , baseX, baseY] = step({ x, y });
+  return [vx - baseX, vy - baseY];
+};
+
+describe('stepParticle', () => {
+  it('pushes a particle inside the radius away from a pressed pointer', () => {
+    const [dx, dy] = pointerPush(0.1, 0, { x: 0, y: 0, isDown: true, pressure: 1 });
+    expect(dx).toBeGreaterThan(0);
+    expect(Math.abs(dy)).toBeLessThan(1e-6);
+  });
+
+  it('swirls a particle around a hovering pointer', () => {
+    const [dx, dy] = pointerPush(0.1, 0, { x: 0, y: 0, isDown: false, pressure: 1 });
+    // Mostly along the tangent, with a slight pull towards the pointer
+    expect(dy).toBeLessThan(0);
+    expect(dx).toBeLessThan(0);
+    expect(Math.abs(dy)).toBeGreaterThan(Math.abs(dx) * 10);
+  });
+
+  it('leaves particles outside the radius alone', () => {
+    const [dx, dy] = pointerPush(0.9, 0, { x: 0, y: 0, isDown: true, pressure: 1 });
+    expect(dx).toBe(0);
+    expect(dy).toBe(0);
+  });
+
+  it('damps the velocity by 0.96 per 60 Hz frame', () => {
+    // Same position, so the flow field adds the same amount to both
+    const moving = step({ x: 0.2, y: 0.3, vx: 0.01, vy: -0.02 });
+    const still = step({ x: 0.2, y: 0.3 });
+    expect(moving[2] - still[2]).toBeCloseTo(0.01 * 0.96, 6);
+    expect(moving[3] - still[3]).toBeCloseTo(-0.02 * 0.96, 6);
+
+    // Two frames' worth in one step damps twice
+    const long = step({ x: 0.2, y: 0.3, vx: 0.01 }, [], 2 * FRAME);
+    const longStill = step({ x: 0.2, y: 0.3 }, [], 2 * FRAME);
+    expect(long[2] - longStill[2]).toBeCloseTo(0.01 * 0.96 ** 2, 6);
+  });
+
+  it('wraps a particle that leaves the screen to the opposite edge', () => {
+    const [x] = step({ x: 0.999, y: 0, vx: 0.01 });
+    expect(x).toBeLessThan(-0.98);
+    expect(x).toBeGreaterThanOrEqual(-1);
+
+    const [, y] = step({ x: 0, y: -0.999, vy: -0.01 });
+    expect(y).toBeGreaterThan(0.98);
+    expect(y).toBeLessThanOrEqual(1);
+  });
+});
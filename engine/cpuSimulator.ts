@@ -0,0 +1,648 @@
+import { VectorFieldGrid } from '../types';
+import { GpuEmitter, SpawnState } from './emitters';
+import { GpuForceField } from './forceFields';
+import { flowField, flowField3d } from './noise';
+import { ObstacleScene, sceneDistance } from './obstacles';
+import { PARTICLE_STRIDE } from './particles';
+import { NeighborParams, SpatialGrid } from './spatialGrid';
+import { PointerState, SimUniforms } from './uniforms';
+
+// CPU reference implementation of COMPUTE_SHADER's `main`. It works on the same
+// Float32Array layout as the GPU particle buffers, so its output can be compared
+// against a buffer read back from the GPU, or used directly where WebGPU is missing.
+// Keep every line in step with the WGSL when changing the shader.
+
+// Per-frame inputs besides the uniforms: the CPU side of the other buffers and textures
+export interface StepScene {
+  spawn: SpawnState; // `count` is advanced like the GPU atomic
+  fields: GpuForceField[];
+  flowTexture: VectorFieldGrid | null;
+  obstacles: ObstacleScene;
+}
+
+interface Particle {
+  px: number;
+  py: number;
+  vx: number;
+  vy: number;
+  age: number;
+  lifetime: number;
+  pz: number;
+  vz: number;
+}
+
+const normalize = (x: number, y: number): [number, number] => {
+  const len = Math.hypot(x, y);
+  return [x / len, y / len];
+};
+
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+
+type Vec3 = [number, number, number];
+
+const dot3 = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const normalize3 = (v: Vec3): Vec3 => {
+  const len = Math.hypot(...v);
+  return [v[0] / len, v[1] / len, v[2] / len];
+};
+
+// Hash function for randomness, with u32 wrap-around like the WGSL version
+export const hash = (value: number): number => {
+  let state = value >>> 0;
+  state = (state ^ 2747636419) >>> 0;
+  state = Math.imul(state, 2654435769) >>> 0;
+  state = (state ^ (state >>> 16)) >>> 0;
+  state = Math.imul(state, 2654435769) >>> 0;
+  state = (state ^ (state >>> 16)) >>> 0;
+  state = Math.imul(state, 2654435769) >>> 0;
+  return Math.fround(state) / 4294967295.0;
+};
+
+// Per-particle random sequence, see `random` in the shader
+class Rng {
+  constructor(private state: number) {}
+
+  next(): number {
+    this.state = (this.state + 0x9E3779B9) >>> 0;
+    return hash(this.state);
+  }
+}
+
+const ambientParticle = (rng: Rng): Particle => {
+  const px = rng.next() * 2.0 - 1.0;
+  const py = rng.next() * 2.0 - 1.0;
+  const vx = (rng.next() - 0.5) * 0.05;
+  const vy = (rng.next() - 0.5) * 0.05;
+  const pz = rng.next() * 2.0 - 1.0;
+  const vz = (rng.next() - 0.5) * 0.05;
+  return { px, py, vx, vy, age: 0.0, lifetime: 0.0, pz, vz };
+};
+
+const spawnParticle = (emitter: GpuEmitter, rng: Rng, aspect: number): Particle => {
+  const [cx, cy] = emitter.center;
+  const [sx, sy] = emitter.size;
+  let px = cx;
+  let py = cy;
+  const r = rng.next();
+  if (emitter.shape === 1) {
+    px = mix(cx - sx, cx + sx, r);
+    py = mix(cy - sy, cy + sy, r);
+  } else if (emitter.shape === 2) {
+    const a = r * 6.2831853;
+    px = cx + (Math.cos(a) / aspect) * sx;
+    py = cy + Math.sin(a) * sx;
+  } else if (emitter.shape === 3) {
+    const r2 = rng.next();
+    px = cx + (r * 2.0 - 1.0) * sx;
+    py = cy + (r2 * 2.0 - 1.0) * sy;
+  }
+
+  // Velocity cone, corrected so the angle holds on screen
+  const angle = emitter.direction + (rng.next() * 2.0 - 1.0) * emitter.spread;
+  const speed = mix(emitter.speedMin, emitter.speedMax, rng.next());
+  const vx = (Math.cos(angle) / aspect) * speed;
+  const vy = Math.sin(angle) * speed;
+
+  const variance = (rng.next() * 2.0 - 1.0) * emitter.lifetimeVariance;
+  const lifetime = Math.max(emitter.lifetime * (1.0 + variance), 0.01);
+  return { px, py, vx, vy, age: 0.0, lifetime, pz: 0.0, vz: 0.0 };
+};
+
+const findEmitter = (spawn: SpawnState, slot: number): GpuEmitter => {
+  for (const emitter of spawn.emitters) {
+    if (slot < emitter.spawnStart + emitter.spawnCount) return emitter;
+  }
+  return spawn.emitters[spawn.emitters.length - 1];
+};
+
+const writeParticle = (output: Float32Array, base: number, p: Particle) => {
+  output[base] = p.px;
+  output[base + 1] = p.py;
+  output[base + 2] = p.vx;
+  output[base + 3] = p.vy;
+  output[base + 4] = p.age;
+  output[base + 5] = p.lifetime;
+  output[base + 6] = p.pz;
+  output[base + 7] = p.vz;
+};
+
+const isDead = (particles: Float32Array, base: number) =>
+  particles[base + 5] > 0.0 && particles[base + 4] >= particles[base + 5];
+
+// Swirl around a hovering pointer, repel from a pressed one
+const pointerForce = (pointer: PointerState, params: SimUniforms, px: number, py: number, aspect: number): [number, number] => {
+  // Vector from particle to pointer
+  const distX = pointer.x - px;
+  const distY = pointer.y - py;
+  const dist = Math.hypot(distX * aspect, distY);
+  if (dist >= params.radius) return [0.0, 0.0];
+
+  const t = 1.0 - dist / params.radius;
+  const strength = t * params.force * pointer.pressure;
+  const [dirX, dirY] = normalize(distX, distY);
+  const tangentX = -dirY;
+  const tangentY = dirX;
+
+  if (pointer.isDown) {
+    // Click: Repel
+    return [-dirX * strength * 10.0, -dirY * strength * 10.0];
+  }
+  // Hover: Swirl
+  return [(dirX * 0.5 + tangentX * 8.0) * strength, (dirY * 0.5 + tangentY * 8.0) * strength];
+};
+
+// Force of one placed force field on a particle, see `fieldForce` in the shader
+const fieldForce = (field: GpuForceField, p: Particle, aspect: number, deltaTime: number): [number, number] => {
+  const toX = field.position[0] - p.px;
+  const toY = field.position[1] - p.py;
+  const dist = Math.hypot(toX * aspect, toY);
+  if (dist >= field.radius) return [0.0, 0.0];
+
+  const q = dist / field.radius;
+  let weight = 1.0;
+  if (field.falloff === 1) {
+    weight = 1.0 - q;
+  } else if (field.falloff === 2) {
+    weight = (1.0 - q * q) * (1.0 - q * q);
+  }
+  const strength = field.strength * weight * 0.02;
+
+  const [dirX, dirY] = dist > 0.0 ? normalize(toX, toY) : [0.0, 0.0];
+  switch (field.type) {
+    case 0: return [dirX * strength, dirY * strength];
+    case 1: return [-dirX * strength, -dirY * strength];
+    case 2: return [-dirY * strength, dirX * strength];
+    case 3: return [(Math.cos(field.direction) / aspect) * strength, Math.sin(field.direction) * strength];
+    default: {
+      // Drag: capped so a step can at most stop the particle, never reverse it
+      const drag = Math.min(strength * 30.0, 1.0 / (deltaTime * 5.0));
+      return [-p.vx * drag, -p.vy * drag];
+    }
+  }
+};
+
+// Pushes a particle out of any obstacle it entered and removes the velocity
+// into the surface, see `collideObstacles` in the shader
+const collideObstacles = (
+  scene: ObstacleScene,
+  px: number,
+  py: number,
+  vx: number,
+  vy: number,
+  aspect: number,
+  restitution: number
+): [number, number, number, number] => {
+  const d = sceneDistance(scene, px, py, aspect);
+  if (d >= 0.0) return [px, py, vx, vy];
+
+  const e = 0.002;
+  const gx = sceneDistance(scene, px + e / aspect, py, aspect) - sceneDistance(scene, px - e / aspect, py, aspect);
+  const gy = sceneDistance(scene, px, py + e, aspect) - sceneDistance(scene, px, py - e, aspect);
+  if (gx * gx + gy * gy <= 0.0) return [px, py, vx, vy];
+  const [nx, ny] = normalize(gx, gy);
+  px += (nx / aspect) * -d;
+  py += ny * -d;
+
+  let ax = vx * aspect;
+  let ay = vy;
+  const vn = ax * nx + ay * ny;
+  if (vn < 0.0) {
+    ax -= nx * vn * (1.0 + restitution);
+    ay -= ny * vn * (1.0 + restitution);
+    vx = ax / aspect;
+    vy = ay;
+  }
+  return [px, py, vx, vy];
+};
+
+// Visits the live particles of the surrounding 3x3 cells within the neighbor
+// radius, in the same order and with the same cap as the shader loops
+const forEachNeighbor = (
+  input: Float32Array,
+  grid: SpatialGrid,
+  px: number,
+  py: number,
+  aspect: number,
+  visit: (other: number, dx: number, dy: number, dist: number) => boolean
+): void => {
+  const n = grid.params;
+  const [hx, hy] = grid.cellCoord(px, py);
+  let count = 0;
+
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const cx = hx + dx;
+      const cy = hy + dy;
+      if (cx < 0 || cy < 0 || cx >= n.dims[0] || cy >= n.dims[1]) continue;
+
+      const cell = grid.cellIndex([cx, cy]);
+      const start = grid.cellStart[cell];
+      const end = start + grid.cellCounts[cell];
+      for (let j = start; j < end && count < n.maxNeighbors; j++) {
+        const otherIndex = grid.sortedIndices[j];
+        const o = otherIndex * PARTICLE_STRIDE;
+        if (isDead(input, o)) continue;
+
+        const ddx = input[o] - px;
+        const ddy = input[o + 1] - py;
+        if (visit(otherIndex, ddx, ddy, Math.hypot(ddx * aspect, ddy))) count++;
+      }
+    }
+  }
+};
+
+const densityKernel = (q: number) => {
+  const v = 1.0 - q * q;
+  return v * v * v;
+};
+
+// `computeDensity`: (density, pressure) pairs for every particle
+const computeDensities = (input: Float32Array, grid: SpatialGrid, aspect: number): Float32Array => {
+  const n = grid.params;
+  const count = input.length / PARTICLE_STRIDE;
+  const densities = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    const base = i * PARTICLE_STRIDE;
+    let density = 0.0;
+    forEachNeighbor(input, grid, input[base], input[base + 1], aspect, (_, _dx, _dy, dist) => {
+      if (dist >= n.radius) return false;
+      density += densityKernel(dist / n.radius);
+      return true;
+    });
+    densities[i * 2] = density;
+    densities[i * 2 + 1] = n.stiffness * (density - n.restDensity);
+  }
+  return densities;
+};
+
+interface NeighborSums {
+  count: number;
+  sepX: number;
+  sepY: number;
+  centerX: number;
+  centerY: number;
+  velX: number;
+  velY: number;
+  pressureX: number;
+  pressureY: number;
+  viscosityX: number;
+  viscosityY: number;
+}
+
+// `gatherNeighbors`: what the current mode needs from the surrounding particles
+const gatherNeighbors = (
+  input: Float32Array,
+  grid: SpatialGrid,
+  densities: Float32Array | null,
+  index: number,
+  particle: Particle,
+  aspect: number
+): NeighborSums => {
+  const n = grid.params;
+  const sums: NeighborSums = {
+    count: 0, sepX: 0, sepY: 0, centerX: 0, centerY: 0, velX: 0, velY: 0,
+    pressureX: 0, pressureY: 0, viscosityX: 0, viscosityY: 0,
+  };
+  const ownPressure = densities ? densities[index * 2 + 1] : 0.0;
+
+  forEachNeighbor(input, grid, particle.px, particle.py, aspect, (other, dx, dy, dist) => {
+    if (other === index || dist <= 0.0 || dist >= n.radius) return false;
+
+    const o = other * PARTICLE_STRIDE;
+    const falloff = 1.0 - dist / n.radius;
+    const awayX = -dx / dist;
+    const awayY = -dy / dist;
+    sums.sepX += awayX * falloff;
+    sums.sepY += awayY * falloff;
+    sums.centerX += input[o];
+    sums.centerY += input[o + 1];
+    sums.velX += input[o + 2];
+    sums.velY += input[o + 3];
+    sums.count++;
+
+    if (densities) {
+      const density = Math.max(densities[other * 2], 1e-3);
+      const pressure = (ownPressure + densities[other * 2 + 1]) * 0.5 * falloff * falloff / density;
+      sums.pressureX += awayX * pressure;
+      sums.pressureY += awayY * pressure;
+      sums.viscosityX += (input[o + 2] - particle.vx) * falloff / density;
+      sums.viscosityY += (input[o + 3] - particle.vy) * falloff / density;
+    }
+    return true;
+  });
+  return sums;
+};
+
+// Flow mode: optional separation / cohesion on top of the flow field
+const neighborForce = (sums: NeighborSums, n: NeighborParams, px: number, py: number): [number, number] => {
+  if (sums.count === 0) return [0.0, 0.0];
+  // Both terms are normalized to at most unit length before weighting
+  const cohX = (sums.centerX / sums.count - px) / n.radius;
+  const cohY = (sums.centerY / sums.count - py) / n.radius;
+  return [
+    (sums.sepX / sums.count * n.separation + cohX * n.cohesion) * 0.1,
+    (sums.sepY / sums.count * n.separation + cohY * n.cohesion) * 0.1,
+  ];
+};
+
+// Boids: velocity change per 60 Hz frame from separation, alignment and cohesion
+const boidSteering = (sums: NeighborSums, n: NeighborParams, p: Particle): [number, number] => {
+  if (sums.count === 0) return [0.0, 0.0];
+  const count = sums.count;
+  const cohX = (sums.centerX / count - p.px) / n.radius;
+  const cohY = (sums.centerY / count - p.py) / n.radius;
+  const alignX = sums.velX / count - p.vx;
+  const alignY = sums.velY / count - p.vy;
+  return [
+    (sums.sepX / count * n.separation + cohX * n.cohesion) * 0.001 + alignX * n.alignment * 0.05,
+    (sums.sepY / count * n.separation + cohY * n.cohesion) * 0.001 + alignY * n.alignment * 0.05,
+  ];
+};
+
+// Fluid: velocity change per 60 Hz frame from pressure, viscosity and gravity
+const fluidAcceleration = (
+  sums: NeighborSums,
+  n: NeighborParams,
+  densities: Float32Array,
+  index: number
+): [number, number] => {
+  const density = Math.max(densities[index * 2], 1e-3);
+  return [
+    sums.pressureX / density * 0.01 + sums.viscosityX * n.viscosity * 0.1,
+    sums.pressureY / density * 0.01 + sums.viscosityY * n.viscosity * 0.1 - n.gravity * 0.0005,
+  ];
+};
+
+const limitSpeed = (vx: number, vy: number, minSpeed: number, maxSpeed: number): [number, number] => {
+  const speed = Math.hypot(vx, vy);
+  if (speed <= 0.0) return [vx, vy];
+  const scale = Math.min(Math.max(speed, minSpeed), maxSpeed) / speed;
+  return [vx * scale, vy * scale];
+};
+
+// --- 3D Mode ---
+
+// pointerForce around the ray from the camera through the pointer, see `pointerForce3d` in the shader
+const pointerForce3d = (pointer: PointerState, params: SimUniforms, pos: Vec3, aspect: number): Vec3 => {
+  const { eye, right, up, forward, tanHalfFov } = params.camera;
+  const ray = normalize3([0, 1, 2].map((i) =>
+    forward[i] + right[i] * pointer.x * tanHalfFov * aspect + up[i] * pointer.y * tanHalfFov
+  ) as Vec3);
+  const rel = [0, 1, 2].map((i) => pos[i] - eye[i]) as Vec3;
+  const along = dot3(rel, ray);
+  const offset = [0, 1, 2].map((i) => rel[i] - ray[i] * along) as Vec3;
+  const dist = Math.hypot(...offset);
+  if (dist >= params.radius || dist < 1e-5) return [0.0, 0.0, 0.0];
+
+  const t = 1.0 - dist / params.radius;
+  const strength = t * params.force * pointer.pressure;
+  const dir = offset.map((v) => -v / dist) as Vec3;
+  const tangent: Vec3 = [
+    ray[1] * dir[2] - ray[2] * dir[1],
+    ray[2] * dir[0] - ray[0] * dir[2],
+    ray[0] * dir[1] - ray[1] * dir[0],
+  ];
+
+  if (pointer.isDown) {
+    // Click: Repel
+    return dir.map((v) => -v * strength * 10.0) as Vec3;
+  }
+  // Hover: Swirl around the ray
+  return [0, 1, 2].map((i) => (dir[i] * 0.5 + tangent[i] * 8.0) * strength) as Vec3;
+};
+
+// Velocity, position and boundaries of one step in the volume, see `step3d` in the shader
+const step3d = (particle: Particle, params: SimUniforms, rng: Rng, aspect: number): Particle => {
+  const pos: Vec3 = [particle.px, particle.py, particle.pz];
+  const vel: Vec3 = [particle.vx, particle.vy, particle.vz];
+
+  const flow = flowField3d(params, pos[0], pos[1], pos[2]);
+  const force: Vec3 = [0.0, 0.0, 0.0];
+  for (const pointer of params.pointers) {
+    const f = pointerForce3d(pointer, params, pos, aspect);
+    for (let i = 0; i < 3; i++) force[i] += f[i];
+  }
+
+  const frames = params.deltaTime * 60.0;
+  const damping = Math.pow(0.96, frames);
+  for (let i = 0; i < 3; i++) {
+    vel[i] = vel[i] * damping + (flow[i] * 0.1 * params.speed * 0.01 * frames) + (force[i] * params.deltaTime * 5.0);
+    pos[i] = pos[i] + vel[i] * params.speed * frames;
+  }
+
+  const boundary = params.boundaryMode;
+  const outside = pos.map((v) => Math.abs(v) > 1.0);
+  let { age } = particle;
+  if (boundary === 1) {
+    for (let i = 0; i < 3; i++) {
+      if (outside[i]) vel[i] *= -params.restitution;
+      pos[i] = Math.min(Math.max(pos[i], -1.0), 1.0);
+    }
+  } else if ((boundary === 2 && outside.some(Boolean)) || (boundary === 3 && pos.some((v) => Math.abs(v) > 2.0))) {
+    if (particle.lifetime > 0.0) {
+      age = particle.lifetime;
+    } else {
+      return ambientParticle(rng);
+    }
+  } else if (boundary === 0) {
+    for (let i = 0; i < 3; i++) {
+      if (outside[i]) pos[i] -= Math.sign(pos[i]) * 2.0;
+    }
+  }
+
+  return {
+    px: pos[0], py: pos[1], pz: pos[2],
+    vx: vel[0], vy: vel[1], vz: vel[2],
+    age, lifetime: particle.lifetime,
+  };
+};
+
+/** Steps particle `index` from `input` into `output`. */
+export const stepParticle = (
+  input: Float32Array,
+  output: Float32Array,
+  index: number,
+  params: SimUniforms,
+  scene: StepScene,
+  grid: SpatialGrid | null,
+  densities: Float32Array | null
+): void => {
+  const base = index * PARTICLE_STRIDE;
+  let particle: Particle = {
+    px: input[base],
+    py: input[base + 1],
+    vx: input[base + 2],
+    vy: input[base + 3],
+    age: input[base + 4],
+    lifetime: input[base + 5],
+    pz: input[base + 6],
+    vz: input[base + 7],
+  };
+  const { spawn } = scene;
+  const rng = new Rng(Math.imul(index, 747796405) + spawn.seed);
+
+  // Safe resolution access
+  const resX = Math.max(params.resolution[0], 1.0);
+  const resY = Math.max(params.resolution[1], 1.0);
+  const aspect = resX / resY;
+
+  // --- Lifetime & Spawning ---
+  particle.age += params.deltaTime;
+  const emitting = spawn.emitters.length > 0;
+
+  if (emitting && particle.lifetime <= 0.0) {
+    // Free-flowing particles retire over a few seconds to feed the emitters
+    particle.lifetime = particle.age + 0.5 + rng.next() * 1.5;
+  }
+
+  if (particle.lifetime > 0.0 && particle.age >= particle.lifetime) {
+    if (!emitting) {
+      particle = ambientParticle(rng);
+    } else {
+      // Recycle: claim one of this frame's spawn slots
+      const slot = spawn.count++;
+      if (slot >= spawn.budget) {
+        // Stays dead (and invisible) until a slot frees up
+        writeParticle(output, base, particle);
+        return;
+      }
+      particle = spawnParticle(findEmitter(spawn, slot), rng, aspect);
+    }
+  }
+
+  if (params.mode3d > 0.5) {
+    writeParticle(output, base, step3d(particle, params, rng, aspect));
+    return;
+  }
+
+  let { px, py, vx, vy } = particle;
+
+  // --- Physics: Flow Field & Noise ---
+  const [flowX, flowY] = flowField(params, scene.flowTexture, px, py, aspect);
+
+  // --- Physics: Interaction ---
+  let forceX = 0.0;
+  let forceY = 0.0;
+  for (const pointer of params.pointers) {
+    const [fx, fy] = pointerForce(pointer, params, px, py, aspect);
+    forceX += fx;
+    forceY += fy;
+  }
+
+  // --- Physics: Force Fields ---
+  for (const field of scene.fields) {
+    const [fx, fy] = fieldForce(field, particle, aspect, params.deltaTime);
+    forceX += fx;
+    forceY += fy;
+  }
+
+  // --- Physics: Neighbors ---
+  const mode = grid ? grid.params.mode : 0;
+  // Density colors compute densities outside fluid mode too; only fluid feels their pressure
+  const sums = grid ? gatherNeighbors(input, grid, mode === 2 ? densities : null, index, particle, aspect) : null;
+
+  // Update Velocity, scaled to the number of 60 Hz frames this step covers
+  const frames = params.deltaTime * 60.0;
+  const interactionX = forceX * params.deltaTime * 5.0;
+  const interactionY = forceY * params.deltaTime * 5.0;
+
+  if (grid && sums && mode === 1) {
+    // Boids keep cruising between a minimum and maximum speed instead of damping out
+    const [ax, ay] = boidSteering(sums, grid.params, particle);
+    [vx, vy] = limitSpeed(
+      vx + ax * frames + interactionX,
+      vy + ay * frames + interactionY,
+      grid.params.maxSpeed * 0.3,
+      grid.params.maxSpeed
+    );
+  } else if (grid && sums && densities && mode === 2) {
+    const [ax, ay] = fluidAcceleration(sums, grid.params, densities, index);
+    const damping = Math.pow(0.99, frames);
+    vx = vx * damping + ax * frames + interactionX;
+    vy = vy * damping + ay * frames + interactionY;
+  } else {
+    if (grid && sums) {
+      const [nx, ny] = neighborForce(sums, grid.params, px, py);
+      forceX += nx;
+      forceY += ny;
+    }
+    const damping = Math.pow(0.96, frames);
+    vx = vx * damping + (flowX * 0.1 * params.speed * 0.01 * frames) + (forceX * params.deltaTime * 5.0);
+    vy = vy * damping + (flowY * 0.1 * params.speed * 0.01 * frames) + (forceY * params.deltaTime * 5.0);
+  }
+
+  // Update Position
+  px = px + vx * params.speed * params.deltaTime * 60.0;
+  py = py + vy * params.speed * params.deltaTime * 60.0;
+
+  const { obstacles } = scene;
+  if (obstacles.obstacles.length > 0 || obstacles.mask) {
+    [px, py, vx, vy] = collideObstacles(obstacles, px, py, vx, vy, aspect, params.restitution);
+  }
+
+  // --- Boundaries ---
+  let boundary = params.boundaryMode;
+  let { age, lifetime } = particle;
+  if (boundary === 0 && mode === 2) {
+    // The fluid is contained by the screen edges; wrapping would rain it through the floor
+    boundary = 1;
+  }
+  const outsideX = Math.abs(px) > 1.0;
+  const outsideY = Math.abs(py) > 1.0;
+
+  if (boundary === 1) {
+    if (outsideX) {
+      px = Math.min(Math.max(px, -1.0), 1.0);
+      vx *= -params.restitution;
+    }
+    if (outsideY) {
+      py = Math.min(Math.max(py, -1.0), 1.0);
+      vy *= -params.restitution;
+    }
+  } else if ((boundary === 2 && (outsideX || outsideY)) || (boundary === 3 && (Math.abs(px) > 2.0 || Math.abs(py) > 2.0))) {
+    // Kill, or in open mode once far off screen: emitter particles die and get
+    // recycled, free-flowing ones respawn somewhere on screen
+    if (lifetime > 0.0) {
+      age = lifetime;
+    } else {
+      ({ px, py, vx, vy, age, lifetime } = ambientParticle(rng));
+    }
+  } else if (boundary === 0) {
+    if (px < -1.0) { px += 2.0; }
+    if (px > 1.0) { px -= 2.0; }
+    if (py < -1.0) { py += 2.0; }
+    if (py > 1.0) { py -= 2.0; }
+  }
+
+  writeParticle(output, base, { px, py, vx, vy, age, lifetime, pz: particle.pz, vz: particle.vz });
+};
+
+/**
+ * Steps every particle, the CPU equivalent of the grid and density passes plus
+ * one `main` dispatch. Returns the densities of the input state, when computed.
+ */
+export const stepParticles = (
+  input: Float32Array,
+  output: Float32Array,
+  params: SimUniforms,
+  scene: StepScene,
+  neighbors: NeighborParams
+): Float32Array | null => {
+  let grid: SpatialGrid | null = null;
+  let densities: Float32Array | null = null;
+  if (neighbors.enabled) {
+    grid = new SpatialGrid(neighbors);
+    grid.build(input);
+    if (neighbors.needsDensity) {
+      const aspect = Math.max(params.resolution[0], 1.0) / Math.max(params.resolution[1], 1.0);
+      densities = computeDensities(input, grid, aspect);
+    }
+  }
+
+  const count = Math.min(input.length, output.length) / PARTICLE_STRIDE;
+  for (let i = 0; i < count; i++) {
+    stepParticle(input, output, i, params, scene, grid, densities);
+  }
+  return densities;
+};
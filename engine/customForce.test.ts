@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { buildComputeShader } from '../constants';
+import { DEFAULT_CUSTOM_FORCE, mapDiagnostics } from './customForce';
+
+const SNIPPET_LINES = DEFAULT_CUSTOM_FORCE.split('\n');
+const SHADER_LINES = buildComputeShader(DEFAULT_CUSTOM_FORCE).split('\n');
+// 1-based shader line of the snippet's first line, found independently of customForce.ts
+const FIRST_LINE = SHADER_LINES.indexOf(SNIPPET_LINES[0]) + 1;
+
+const message = (lineNum: number, linePos: number): GPUCompilationMessage =>
+  ({ type: 'error', lineNum, linePos, offset: 0, length: 1, message: 'unresolved value' }) as GPUCompilationMessage;
+
+describe('mapDiagnostics', () => {
+  it('moves shader positions into the snippet', () => {
+    const line = SNIPPET_LINES.findIndex((text) => text.includes('let swirl')) + 1;
+    const shaderLine = SHADER_LINES.findIndex((text) => text.includes('let swirl')) + 1;
+    const column = SNIPPET_LINES[line - 1].indexOf('swirl') + 1;
+
+    expect(shaderLine).toBe(FIRST_LINE + line - 1);
+    expect(mapDiagnostics([message(shaderLine, column)], DEFAULT_CUSTOM_FORCE)).toEqual([
+      { type: 'error', line, column, message: 'unresolved value' },
+    ]);
+  });
+
+  it('leaves messages outside the snippet without a position', () => {
+    const outside = [message(FIRST_LINE - 1, 1), message(FIRST_LINE + SNIPPET_LINES.length, 1), message(0, 0)];
+    expect(mapDiagnostics(outside, DEFAULT_CUSTOM_FORCE).map(({ line, column }) => [line, column])).toEqual([
+      [null, null],
+      [null, null],
+      [null, null],
+    ]);
+  });
+
+  it('maps the first and last snippet lines', () => {
+    const edges = [message(FIRST_LINE, 1), message(FIRST_LINE + SNIPPET_LINES.length - 1, 1)];
+    expect(mapDiagnostics(edges, DEFAULT_CUSTOM_FORCE).map(({ line }) => line)).toEqual([1, SNIPPET_LINES.length]);
+  });
+});
@@ -0,0 +1,49 @@
+import { buildComputeShader, NO_CUSTOM_FORCE } from '../constants';
+import { CustomForceParams } from '../types';
+
+// Starting point of the editor: a swirl around the center that breathes over time
+export const DEFAULT_CUSTOM_FORCE = `// Runs for every particle each step, in 2D mode. The result is
+// added to the pointer and force field forces.
+// particle: pos, vel (clip space), age, lifetime
+// params: time, deltaTime, resolution, speed, force, ...
+fn customForce(particle : Particle, params : SimParams) -> vec2f {
+  let toCenter = -particle.pos;
+  let swirl = vec2f(-toCenter.y, toCenter.x);
+  return (swirl + toCenter * sin(params.time)) * 0.5;
+}`;
+
+export interface ShaderDiagnostic {
+  type: GPUCompilationMessageType;
+  line: number | null; // 1-based, in the snippet; null outside of it
+  column: number | null;
+  message: string;
+}
+
+// Outcome of compiling a snippet; the pipeline is only swapped when no errors came up
+export interface CompileResult {
+  code: string;
+  diagnostics: ShaderDiagnostic[];
+}
+
+// Shader line holding the first line of the snippet
+const MARKER = '\u0000';
+const SNIPPET_FIRST_LINE = buildComputeShader(MARKER).split(MARKER)[0].split('\n').length;
+
+/** The snippet the compute shader should run for `customForce`. */
+export const activeCustomForce = (customForce: CustomForceParams): string =>
+  customForce.enabled ? customForce.code : NO_CUSTOM_FORCE;
+
+/** Compiler messages with their positions moved from the whole shader into the snippet. */
+export const mapDiagnostics = (messages: readonly GPUCompilationMessage[], snippet: string): ShaderDiagnostic[] => {
+  const lastLine = snippet.split('\n').length;
+  return messages.map((message) => {
+    const line = message.lineNum - SNIPPET_FIRST_LINE + 1;
+    const inSnippet = message.lineNum > 0 && line >= 1 && line <= lastLine;
+    return {
+      type: message.type,
+      line: inSnippet ? line : null,
+      column: inSnippet ? message.linePos : null,
+      message: message.message,
+    };
+  });
+};
@@ -0,0 +1,80 @@
+import { DistanceFieldGrid } from '../types';
+import { loadImagePixels } from './imagePixels';
+
+// Masks are downsampled to this size before baking
+export const MAX_DISTANCE_FIELD_SIZE = 256;
+
+const INF = 1e20;
+
+// 1D squared Euclidean distance transform (Felzenszwalb & Huttenlocher) of `f` in place
+const transform1d = (f: Float64Array, n: number, v: Int32Array, z: Float64Array, d: Float64Array): void => {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+  f.set(d.subarray(0, n));
+};
+
+// Distances in pixels from every cell to the nearest cell where `feature` is set
+const distanceTransform = (feature: boolean[], width: number, height: number): Float64Array => {
+  const grid = new Float64Array(width * height);
+  feature.forEach((isFeature, i) => { grid[i] = isFeature ? 0 : INF; });
+
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+    transform1d(f, height, v, z, d);
+    for (let y = 0; y < height; y++) grid[y * width + x] = f[y];
+  }
+  for (let y = 0; y < height; y++) {
+    f.set(grid.subarray(y * width, (y + 1) * width));
+    transform1d(f, width, v, z, d);
+    grid.set(f.subarray(0, width), y * width);
+  }
+  return grid.map(Math.sqrt);
+};
+
+/** Bakes a signed distance field from a solid mask, in clip space units of the screen height. */
+export const bakeDistanceField = (solid: boolean[], width: number, height: number): DistanceFieldGrid => {
+  const outside = distanceTransform(solid, width, height);
+  const inside = distanceTransform(solid.map((s) => !s), width, height);
+  const toClip = 2 / height;
+  // With no solid (or no empty) cells one side stays infinite; anything past the screen will do
+  const data = Array.from(outside, (d, i) => Math.min(Math.max((d - inside[i]) * toClip, -4), 4));
+  return { width, height, data };
+};
+
+/**
+ * Bakes an obstacle distance field from an image, stretched over the screen.
+ * Bright, opaque pixels are solid.
+ */
+export const distanceFieldFromImage = async (file: Blob): Promise<DistanceFieldGrid> => {
+  const { data: pixels, width, height } = await loadImagePixels(file, MAX_DISTANCE_FIELD_SIZE);
+  const solid = new Array<boolean>(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const luminance = (pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114) / 255;
+    solid[i] = luminance * (pixels[i * 4 + 3] / 255) > 0.5;
+  }
+  return bakeDistanceField(solid, width, height);
+};
@@ -0,0 +1,138 @@
+import { EmitterConfig, EmitterShape } from '../types';
+
+export const MAX_EMITTERS = 8;
+
+// 32-bit words per `Emitter` struct in COMPUTE_SHADER (64 bytes, uniform array stride)
+export const EMITTER_STRIDE = 16;
+export const EMITTER_BUFFER_SIZE = MAX_EMITTERS * EMITTER_STRIDE * 4;
+export const SPAWN_STATE_SIZE = 16;
+
+const SHAPE_IDS: Record<EmitterShape, number> = {
+  point: 0,
+  line: 1,
+  circle: 2,
+  rectangle: 3,
+};
+
+// An emitter in shader units, as laid out in the emitter uniform buffer
+export interface GpuEmitter {
+  center: [number, number];
+  size: [number, number];
+  direction: number; // Radians
+  spread: number; // Radians
+  speedMin: number;
+  speedMax: number;
+  lifetime: number;
+  lifetimeVariance: number;
+  shape: number;
+  spawnStart: number; // First spawn slot of this emitter in the frame
+  spawnCount: number;
+}
+
+// Per-frame spawning input shared by every particle of a dispatch
+export interface SpawnState {
+  count: number; // Slots claimed so far (atomic on the GPU)
+  budget: number; // Total particles to spawn this frame
+  emitters: GpuEmitter[];
+  seed: number;
+}
+
+export const createEmitter = (shape: EmitterShape): EmitterConfig => ({
+  shape,
+  enabled: true,
+  position: [0, -0.6],
+  size: shape === 'circle' ? [0.3, 0.3] : shape === 'point' ? [0, 0] : [0.4, 0.1],
+  rate: 2000,
+  direction: 90,
+  spread: 20,
+  speed: [0.005, 0.015],
+  lifetime: 3,
+  lifetimeVariance: 0.3,
+});
+
+/**
+ * Turns emission rates into whole particle counts per frame. Fractional
+ * spawns carry over, so low rates still emit at the right average pace.
+ */
+export class EmitterSpawner {
+  private carry: number[] = [];
+  private frame = 0;
+
+  /** Builds the spawn state for `elapsed` simulated seconds, capped at `maxSpawns`. */
+  plan(configs: EmitterConfig[], elapsed: number, maxSpawns: number): SpawnState {
+    const active = configs.filter((e) => e.enabled).slice(0, MAX_EMITTERS);
+    if (this.carry.length !== active.length) {
+      this.carry = active.map(() => 0);
+    }
+
+    let budget = 0;
+    const emitters = active.map((config, i): GpuEmitter => {
+      const exact = this.carry[i] + Math.max(config.rate, 0) * elapsed;
+      const count = Math.min(Math.floor(exact), Math.max(maxSpawns - budget, 0));
+      this.carry[i] = exact - Math.floor(exact);
+
+      const emitter: GpuEmitter = {
+        center: config.position,
+        size: config.size,
+        direction: (config.direction * Math.PI) / 180,
+        spread: (config.spread * Math.PI) / 180,
+        speedMin: config.speed[0],
+        speedMax: config.speed[1],
+        lifetime: config.lifetime,
+        lifetimeVariance: config.lifetimeVariance,
+        shape: SHAPE_IDS[config.shape],
+        spawnStart: budget,
+        spawnCount: count,
+      };
+      budget += count;
+      return emitter;
+    });
+
+    this.frame = (this.frame + 1) >>> 0;
+    return { count: 0, budget, emitters, seed: Math.imul(this.frame, 2654435761) >>> 0 };
+  }
+
+  /** Frames planned so far; the spawn randomness is seeded from it. */
+  get frameCount(): number {
+    return this.frame;
+  }
+
+  /** Forgets fractional spawns and rewinds the frame counter, e.g. to `frame` of a snapshot. */
+  reset(frame = 0): void {
+    this.carry = [];
+    this.frame = frame >>> 0;
+  }
+}
+
+export const packEmitters = (emitters: GpuEmitter[]): ArrayBuffer => {
+  const buffer = new ArrayBuffer(EMITTER_BUFFER_SIZE);
+  const f32 = new Float32Array(buffer);
+  const u32 = new Uint32Array(buffer);
+
+  emitters.forEach((e, i) => {
+    const o = i * EMITTER_STRIDE;
+    f32[o] = e.center[0];        // 0-8
+    f32[o + 1] = e.center[1];
+    f32[o + 2] = e.size[0];      // 8-16
+    f32[o + 3] = e.size[1];
+    f32[o + 4] = e.direction;    // 16-20
+    f32[o + 5] = e.spread;       // 20-24
+    f32[o + 6] = e.speedMin;     // 24-28
+    f32[o + 7] = e.speedMax;     // 28-32
+    f32[o + 8] = e.lifetime;     // 32-36
+    f32[o + 9] = e.lifetimeVariance; // 36-40
+    u32[o + 10] = e.shape;       // 40-44
+    u32[o + 11] = e.spawnStart;  // 44-48
+    u32[o + 12] = e.spawnCount;  // 48-52
+    // 52-64 padding
+  });
+
+  return buffer;
+};
+
+export const packSpawnState = (state: SpawnState): Uint32Array => new Uint32Array([
+  0, // count, reset every frame
+  state.budget,
+  state.emitters.length,
+  state.seed,
+]);
@@ -0,0 +1,76 @@
+import { ForceFalloff, ForceFieldConfig, ForceFieldType } from '../types';
+
+export const MAX_FORCE_FIELDS = 16;
+
+// 32-bit words per `ForceField` struct in COMPUTE_SHADER (32 bytes)
+export const FORCE_FIELD_STRIDE = 8;
+// `ForceFieldList`: count (padded to 16 bytes, as uniform arrays require) followed by the fields
+export const FORCE_FIELD_BUFFER_SIZE = 16 + MAX_FORCE_FIELDS * FORCE_FIELD_STRIDE * 4;
+
+const TYPE_IDS: Record<ForceFieldType, number> = {
+  attractor: 0,
+  repeller: 1,
+  vortex: 2,
+  wind: 3,
+  drag: 4,
+};
+
+const FALLOFF_IDS: Record<ForceFalloff, number> = {
+  constant: 0,
+  linear: 1,
+  smooth: 2,
+};
+
+// A force field in shader units, as laid out in the force field uniform buffer
+export interface GpuForceField {
+  position: [number, number];
+  radius: number;
+  strength: number;
+  direction: number; // Radians
+  type: number;
+  falloff: number;
+}
+
+export const createForceField = (type: ForceFieldType): ForceFieldConfig => ({
+  type,
+  enabled: true,
+  position: [0, 0],
+  radius: type === 'wind' ? 1.0 : 0.3,
+  strength: 1.0,
+  falloff: type === 'wind' || type === 'drag' ? 'constant' : 'linear',
+  direction: 0,
+});
+
+export const toGpuForceFields = (configs: ForceFieldConfig[]): GpuForceField[] =>
+  configs
+    .filter((f) => f.enabled)
+    .slice(0, MAX_FORCE_FIELDS)
+    .map((f) => ({
+      position: f.position,
+      radius: f.radius,
+      strength: f.strength,
+      direction: (f.direction * Math.PI) / 180,
+      type: TYPE_IDS[f.type],
+      falloff: FALLOFF_IDS[f.falloff],
+    }));
+
+export const packForceFields = (fields: GpuForceField[]): ArrayBuffer => {
+  const buffer = new ArrayBuffer(FORCE_FIELD_BUFFER_SIZE);
+  const f32 = new Float32Array(buffer);
+  const u32 = new Uint32Array(buffer);
+  u32[0] = fields.length; // 0-4, 4-16 padding
+
+  fields.forEach((f, i) => {
+    const o = 4 + i * FORCE_FIELD_STRIDE;
+    f32[o] = f.position[0];  // 0-8
+    f32[o + 1] = f.position[1];
+    f32[o + 2] = f.radius;   // 8-12
+    f32[o + 3] = f.strength; // 12-16
+    f32[o + 4] = f.direction; // 16-20
+    u32[o + 5] = f.type;     // 20-24
+    u32[o + 6] = f.falloff;  // 24-28
+    // 28-32 padding
+  });
+
+  return buffer;
+};
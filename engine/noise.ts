@@ -0,0 +1,173 @@
+import { VectorFieldGrid } from '../types';
+import { SimUniforms } from './uniforms';
+
+// CPU ports of the flow field generators in COMPUTE_SHADER, used by cpuSimulator.ts.
+// Integer math wraps like u32 so the noise matches the GPU lattice.
+
+const latticeHash = (x: number, y: number, z: number): number => {
+  let h = (Math.imul(x >>> 0, 73856093) ^ Math.imul(y >>> 0, 19349663) ^ Math.imul(z >>> 0, 83492791)) >>> 0;
+  h = (h ^ (h >>> 13)) >>> 0;
+  h = Math.imul(h, 1274126177) >>> 0;
+  h = (h ^ (h >>> 16)) >>> 0;
+  return h;
+};
+
+// Dot product with one of 12 edge gradients, picked by the hash
+const gradient = (h: number, x: number, y: number, z: number): number => {
+  const k = h & 15;
+  const u = k < 8 ? x : y;
+  const v = k < 4 ? y : k === 12 || k === 14 ? x : z;
+  return ((k & 1) === 0 ? u : -u) + ((k & 2) === 0 ? v : -v);
+};
+
+const simplexCorner = (cx: number, cy: number, cz: number, x: number, y: number, z: number): number => {
+  const t = 0.6 - (x * x + y * y + z * z);
+  if (t < 0.0) return 0.0;
+  const t2 = t * t;
+  return t2 * t2 * gradient(latticeHash(cx, cy, cz), x, y, z);
+};
+
+const G3 = 1.0 / 6.0;
+
+/** 3D simplex noise, roughly in [-1, 1]. */
+export const simplex3 = (px: number, py: number, pz: number): number => {
+  const s = (px + py + pz) / 3.0;
+  const i = Math.floor(px + s);
+  const j = Math.floor(py + s);
+  const k = Math.floor(pz + s);
+  const t = (i + j + k) * G3;
+  const x0 = px - i + t;
+  const y0 = py - j + t;
+  const z0 = pz - k + t;
+
+  // Corners of the simplex containing p, by the ordering of x0's components
+  let [i1, j1, k1] = [0, 0, 1];
+  let [i2, j2, k2] = [1, 0, 1];
+  if (x0 >= y0) {
+    if (y0 >= z0) {
+      [i1, j1, k1] = [1, 0, 0];
+      [i2, j2, k2] = [1, 1, 0];
+    } else if (x0 >= z0) {
+      [i1, j1, k1] = [1, 0, 0];
+    }
+  } else {
+    if (y0 < z0) {
+      [i2, j2, k2] = [0, 1, 1];
+    } else if (x0 < z0) {
+      [i1, j1, k1] = [0, 1, 0];
+      [i2, j2, k2] = [0, 1, 1];
+    } else {
+      [i1, j1, k1] = [0, 1, 0];
+      [i2, j2, k2] = [1, 1, 0];
+    }
+  }
+
+  const n = simplexCorner(i, j, k, x0, y0, z0)
+    + simplexCorner(i + i1, j + j1, k + k1, x0 - i1 + G3, y0 - j1 + G3, z0 - k1 + G3)
+    + simplexCorner(i + i2, j + j2, k + k2, x0 - i2 + 2.0 * G3, y0 - j2 + 2.0 * G3, z0 - k2 + 2.0 * G3)
+    + simplexCorner(i + 1, j + 1, k + 1, x0 - 1.0 + 3.0 * G3, y0 - 1.0 + 3.0 * G3, z0 - 1.0 + 3.0 * G3);
+  return 32.0 * n;
+};
+
+/** Fractal sum of simplex octaves, normalized to the simplex range. */
+export const fbm = (x: number, y: number, time: number, octaves: number): number => {
+  let sum = 0.0;
+  let amplitude = 1.0;
+  let total = 0.0;
+  let frequency = 1.0;
+  const count = Math.floor(Math.min(Math.max(octaves, 1.0), 8.0));
+  for (let o = 0; o < count; o++) {
+    sum += simplex3(x * frequency, y * frequency, time) * amplitude;
+    total += amplitude;
+    amplitude *= 0.5;
+    frequency *= 2.0;
+  }
+  return sum / total;
+};
+
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/** Bilinear sample of a vector field grid, clamped at the screen edges. */
+export const sampleVectorField = (grid: VectorFieldGrid, x: number, y: number): [number, number] => {
+  const tx = ((x + 1.0) * 0.5) * grid.width - 0.5;
+  const ty = ((1.0 - y) * 0.5) * grid.height - 0.5;
+  const bx = Math.floor(tx);
+  const by = Math.floor(ty);
+  const fx = tx - bx;
+  const fy = ty - by;
+  const clampX = (v: number) => Math.min(Math.max(v, 0), grid.width - 1);
+  const clampY = (v: number) => Math.min(Math.max(v, 0), grid.height - 1);
+  const x0 = clampX(bx);
+  const x1 = clampX(bx + 1);
+  const y0 = clampY(by);
+  const y1 = clampY(by + 1);
+  const at = (cx: number, cy: number, c: number) => grid.data[(cy * grid.width + cx) * 2 + c];
+
+  return [0, 1].map((c) => mix(
+    mix(at(x0, y0, c), at(x1, y0, c), fx),
+    mix(at(x0, y1, c), at(x1, y1, c), fx),
+    fy
+  )) as [number, number];
+};
+
+/** Flow field velocity at a position, see `flowField` in the shader. */
+export const flowField = (
+  params: SimUniforms,
+  texture: VectorFieldGrid | null,
+  x: number,
+  y: number,
+  aspect: number
+): [number, number] => {
+  const scale = params.flowFrequency;
+  const time = params.time * params.flowEvolution;
+  const px = x * aspect * scale;
+  const py = y * scale;
+
+  if (params.flowType === 1) {
+    // Curl of the noise potential: divergence-free, so particles swirl instead of clumping
+    const e = 0.01;
+    const dx = fbm(px + e, py, time, params.flowOctaves) - fbm(px - e, py, time, params.flowOctaves);
+    const dy = fbm(px, py + e, time, params.flowOctaves) - fbm(px, py - e, time, params.flowOctaves);
+    return [(dy / (2.0 * e)) * 0.5, (-dx / (2.0 * e)) * 0.5];
+  }
+  if (params.flowType === 2) {
+    return [
+      fbm(px, py, time, params.flowOctaves) * 2.0,
+      fbm(px + 31.4, py + 17.7, time, params.flowOctaves) * 2.0,
+    ];
+  }
+  if (params.flowType === 3 && texture) {
+    return sampleVectorField(texture, x, y);
+  }
+  // Classic sin / cos pattern, drifting over time
+  return [
+    Math.sin(y * scale * 3.14 + x + time),
+    Math.cos(x * scale * 3.14 + y * 0.5 + time),
+  ];
+};
+
+type Vec3 = [number, number, number];
+
+// Three decorrelated noise fields, see `flowPotential` in the shader
+const flowPotential = (x: number, y: number, z: number): Vec3 => [
+  simplex3(x, y, z),
+  simplex3(x + 31.4, y + 17.7, z + 9.2),
+  simplex3(x - 12.7, y + 43.3, z + 27.9),
+];
+
+/** Curl noise velocity in the 3D volume, see `flowField3d` in the shader. */
+export const flowField3d = (params: SimUniforms, x: number, y: number, z: number): Vec3 => {
+  const px = x * params.flowFrequency;
+  const py = y * params.flowFrequency;
+  const pz = z * params.flowFrequency + params.time * params.flowEvolution;
+  const e = 0.01;
+  const a = flowPotential(px, py, pz);
+  const dx = flowPotential(px + e, py, pz).map((v, i) => v - a[i]);
+  const dy = flowPotential(px, py + e, pz).map((v, i) => v - a[i]);
+  const dz = flowPotential(px, py, pz + e).map((v, i) => v - a[i]);
+  return [
+    (dy[2] - dz[1]) / e * 0.5,
+    (dz[0] - dx[2]) / e * 0.5,
+    (dx[1] - dy[0]) / e * 0.5,
+  ];
+};
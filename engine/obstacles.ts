@@ -0,0 +1,149 @@
+import { DistanceFieldGrid, ObstacleConfig, ObstacleShape } from '../types';
+
+export const MAX_OBSTACLES = 16;
+export const MAX_OBSTACLE_SEGMENTS = 128;
+
+// 32-bit words per `Obstacle` struct in COMPUTE_SHADER (32 bytes)
+export const OBSTACLE_STRIDE = 8;
+// `ObstacleList`: count and mask flag (padded to 16 bytes), the obstacles, then the polyline segments
+export const OBSTACLE_BUFFER_SIZE = 16 + MAX_OBSTACLES * OBSTACLE_STRIDE * 4 + MAX_OBSTACLE_SEGMENTS * 16;
+
+const SHAPE_IDS: Record<ObstacleShape, number> = {
+  circle: 0,
+  box: 1,
+  polyline: 2,
+};
+
+// An obstacle in shader units, as laid out in the obstacle uniform buffer
+export interface GpuObstacle {
+  center: [number, number];
+  size: [number, number];
+  rotation: number; // Radians
+  shape: number;
+  segmentStart: number;
+  segmentCount: number;
+}
+
+export interface ObstacleScene {
+  obstacles: GpuObstacle[];
+  segments: [number, number, number, number][]; // Clip space end points (ax, ay, bx, by)
+  mask: DistanceFieldGrid | null;
+}
+
+export const createObstacle = (shape: ObstacleShape): ObstacleConfig => ({
+  shape,
+  enabled: true,
+  position: [0, 0],
+  size: shape === 'box' ? [0.2, 0.1] : shape === 'polyline' ? [0.01, 0] : [0.15, 0],
+  rotation: 0,
+  points: shape === 'polyline' ? [[-0.4, 0.1], [-0.1, -0.1], [0.1, 0.1], [0.4, -0.1]] : [],
+});
+
+export const buildObstacleScene = (configs: ObstacleConfig[], mask: DistanceFieldGrid | null): ObstacleScene => {
+  const segments: ObstacleScene['segments'] = [];
+  const obstacles = configs
+    .filter((o) => o.enabled)
+    .slice(0, MAX_OBSTACLES)
+    .map((o): GpuObstacle => {
+      const segmentStart = segments.length;
+      if (o.shape === 'polyline') {
+        const [cx, cy] = o.position;
+        for (let i = 1; i < o.points.length && segments.length < MAX_OBSTACLE_SEGMENTS; i++) {
+          const [ax, ay] = o.points[i - 1];
+          const [bx, by] = o.points[i];
+          segments.push([cx + ax, cy + ay, cx + bx, cy + by]);
+        }
+      }
+      return {
+        center: o.position,
+        size: o.size,
+        rotation: (o.rotation * Math.PI) / 180,
+        shape: SHAPE_IDS[o.shape],
+        segmentStart,
+        segmentCount: segments.length - segmentStart,
+      };
+    });
+  return { obstacles, segments, mask };
+};
+
+export const packObstacles = (scene: ObstacleScene): ArrayBuffer => {
+  const buffer = new ArrayBuffer(OBSTACLE_BUFFER_SIZE);
+  const f32 = new Float32Array(buffer);
+  const u32 = new Uint32Array(buffer);
+  u32[0] = scene.obstacles.length; // 0-4
+  u32[1] = scene.mask ? 1 : 0;     // 4-8, 8-16 padding
+
+  scene.obstacles.forEach((o, i) => {
+    const base = 4 + i * OBSTACLE_STRIDE;
+    f32[base] = o.center[0];       // 0-8
+    f32[base + 1] = o.center[1];
+    f32[base + 2] = o.size[0];     // 8-16
+    f32[base + 3] = o.size[1];
+    f32[base + 4] = o.rotation;    // 16-20
+    u32[base + 5] = o.shape;       // 20-24
+    u32[base + 6] = o.segmentStart; // 24-28
+    u32[base + 7] = o.segmentCount; // 28-32
+  });
+
+  const segmentBase = 4 + MAX_OBSTACLES * OBSTACLE_STRIDE;
+  scene.segments.forEach((segment, i) => f32.set(segment, segmentBase + i * 4));
+  return buffer;
+};
+
+// --- CPU counterparts of the SDF functions in COMPUTE_SHADER, used by cpuSimulator.ts ---
+
+const segmentDistance = (px: number, py: number, ax: number, ay: number, bx: number, by: number): number => {
+  const abx = bx - ax;
+  const aby = by - ay;
+  const denom = Math.max(abx * abx + aby * aby, 1e-12);
+  const t = Math.min(Math.max(((px - ax) * abx + (py - ay) * aby) / denom, 0.0), 1.0);
+  return Math.hypot(px - ax - abx * t, py - ay - aby * t);
+};
+
+const obstacleDistance = (o: GpuObstacle, scene: ObstacleScene, qx: number, qy: number, aspect: number): number => {
+  const dx = qx - o.center[0] * aspect;
+  const dy = qy - o.center[1];
+  if (o.shape === 0) {
+    return Math.hypot(dx, dy) - o.size[0];
+  }
+  if (o.shape === 1) {
+    const c = Math.cos(o.rotation);
+    const s = Math.sin(o.rotation);
+    const lx = Math.abs(c * dx + s * dy) - o.size[0];
+    const ly = Math.abs(-s * dx + c * dy) - o.size[1];
+    return Math.hypot(Math.max(lx, 0.0), Math.max(ly, 0.0)) + Math.min(Math.max(lx, ly), 0.0);
+  }
+  let d = 1e9;
+  for (let i = o.segmentStart; i < o.segmentStart + o.segmentCount; i++) {
+    const [ax, ay, bx, by] = scene.segments[i];
+    d = Math.min(d, segmentDistance(qx, qy, ax * aspect, ay, bx * aspect, by));
+  }
+  return d - o.size[0];
+};
+
+const sampleMask = (grid: DistanceFieldGrid, x: number, y: number): number => {
+  const tx = ((x + 1.0) * 0.5) * grid.width - 0.5;
+  const ty = ((1.0 - y) * 0.5) * grid.height - 0.5;
+  const bx = Math.floor(tx);
+  const by = Math.floor(ty);
+  const fx = tx - bx;
+  const fy = ty - by;
+  const cx = (v: number) => Math.min(Math.max(v, 0), grid.width - 1);
+  const cy = (v: number) => Math.min(Math.max(v, 0), grid.height - 1);
+  const at = (px: number, py: number) => grid.data[cy(py) * grid.width + cx(px)];
+  const top = at(bx, by) + (at(bx + 1, by) - at(bx, by)) * fx;
+  const bottom = at(bx, by + 1) + (at(bx + 1, by + 1) - at(bx, by + 1)) * fx;
+  return top + (bottom - top) * fy;
+};
+
+/** Signed distance from a clip space position to the nearest obstacle, in aspect-corrected units. */
+export const sceneDistance = (scene: ObstacleScene, x: number, y: number, aspect: number): number => {
+  let d = 1e9;
+  for (const o of scene.obstacles) {
+    d = Math.min(d, obstacleDistance(o, scene, x * aspect, y, aspect));
+  }
+  if (scene.mask) {
+    d = Math.min(d, sampleMask(scene.mask, x, y));
+  }
+  return d;
+};
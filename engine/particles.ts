@@ -0,0 +1,39 @@
+import { createRandom } from './random';
+
+// Float fields of a particle in buffer order: pos (vec2f) + vel (vec2f) + age + lifetime + z + vz.
+// Depth is only simulated in 3D mode, but seeded always so the volume is filled on switching.
+export const PARTICLE_LAYOUT = ['x', 'y', 'vx', 'vy', 'age', 'lifetime', 'z', 'vz'] as const;
+export const PARTICLE_STRIDE = PARTICLE_LAYOUT.length;
+// Upper end of the particle slider, and the most a snapshot may hold
+export const MAX_PARTICLE_COUNT = 1000000;
+
+/**
+ * Random positions across clip space (and depth) with a small initial drift. Age
+ * and lifetime start at 0, i.e. the particles live until emitters are enabled.
+ * The data only depends on `seed` and the index of the first particle, so
+ * particles added by growing the count are reproducible too.
+ */
+export const createParticleData = (count: number, seed: number, first = 0): Float32Array => {
+  const data = new Float32Array(count * PARTICLE_STRIDE);
+  const random = createRandom((seed ^ Math.imul(first, 0x9E3779B9)) >>> 0);
+  for (let i = 0; i < count; i++) {
+    data[i * PARTICLE_STRIDE] = (random() * 2 - 1); // x
+    data[i * PARTICLE_STRIDE + 1] = (random() * 2 - 1); // y
+    data[i * PARTICLE_STRIDE + 2] = (random() - 0.5) * 0.05; // vx
+    data[i * PARTICLE_STRIDE + 3] = (random() - 0.5) * 0.05; // vy
+    data[i * PARTICLE_STRIDE + 6] = (random() * 2 - 1); // z
+    data[i * PARTICLE_STRIDE + 7] = (random() - 0.5) * 0.05; // vz
+  }
+  return data;
+};
+
+// Copies the first `count` particles of `data`, seeding any extra ones
+export const resizeParticleData = (data: Float32Array, count: number, seed: number): Float32Array => {
+  const resized = new Float32Array(count * PARTICLE_STRIDE);
+  const kept = Math.min(data.length, resized.length);
+  resized.set(data.subarray(0, kept));
+  if (resized.length > kept) {
+    resized.set(createParticleData(count - kept / PARTICLE_STRIDE, seed, kept / PARTICLE_STRIDE), kept);
+  }
+  return resized;
+};
@@ -0,0 +1,103 @@
+import { GestureTarget, SimulationParams } from '../types';
+import { PointerState } from './uniforms';
+
+// One pointer as reported by a Pointer Event, in clip space
+export interface PointerSample {
+  id: number;
+  type: string; // 'mouse' | 'pen' | 'touch'
+  x: number;
+  y: number;
+  pressed: boolean;
+  pressure: number; // As reported by the event, 0..1
+}
+
+// Change of a two-finger touch since the previous sample
+export interface GestureDelta {
+  scale: number; // Ratio of the finger distances
+  pan: [number, number]; // Movement of the midpoint, clip space
+}
+
+// Ranges gestures keep their targets in, matching the Controls sliders
+export const GESTURE_RANGES: Record<Exclude<GestureTarget, 'none'>, [number, number]> = {
+  interactionRadius: [0.05, 0.8],
+  forceStrength: [0.1, 5.0],
+  speed: [0.1, 3.0],
+  timeScale: [0.1, 3.0],
+  neighborRadius: [0.01, 0.1],
+};
+
+/**
+ * Tracks the active pointers and recognizes two-finger gestures. Mice and pens
+ * hover, so they stay tracked until they leave; touches only exist while down.
+ */
+export class PointerTracker {
+  private pointers = new Map<number, PointerSample>();
+  private gesture: { distance: number; center: [number, number] } | null = null;
+
+  /** Records a pointer sample and returns the gesture it continues, if any. */
+  update(sample: PointerSample): GestureDelta | null {
+    this.pointers.set(sample.id, sample);
+    return this.trackGesture();
+  }
+
+  remove(id: number): void {
+    this.pointers.delete(id);
+    this.gesture = null;
+  }
+
+  clear(): void {
+    this.pointers.clear();
+    this.gesture = null;
+  }
+
+  get states(): PointerState[] {
+    return Array.from(this.pointers.values(), (p) => ({
+      x: p.x,
+      y: p.y,
+      // Touches swirl like a hovering mouse; pressing a mouse or pen repels
+      isDown: p.pressed && p.type !== 'touch',
+      // Pens modulate their strength by pressure, with a floor so a light touch still registers
+      pressure: p.type === 'pen' && p.pressed ? Math.max(p.pressure, 0.05) : 1.0,
+    }));
+  }
+
+  private trackGesture(): GestureDelta | null {
+    const touches = Array.from(this.pointers.values()).filter((p) => p.type === 'touch');
+    if (touches.length !== 2) {
+      this.gesture = null;
+      return null;
+    }
+
+    const [a, b] = touches;
+    const distance = Math.hypot(a.x - b.x, a.y - b.y);
+    const center: [number, number] = [(a.x + b.x) / 2, (a.y + b.y) / 2];
+    const previous = this.gesture;
+    this.gesture = { distance, center };
+    if (!previous || previous.distance <= 0) return null;
+
+    return {
+      scale: distance / previous.distance,
+      pan: [center[0] - previous.center[0], center[1] - previous.center[1]],
+    };
+  }
+}
+
+const applyToTarget = (
+  params: SimulationParams,
+  target: GestureTarget,
+  update: (value: number, min: number, max: number) => number
+): SimulationParams => {
+  if (target === 'none') return params;
+  const [min, max] = GESTURE_RANGES[target];
+  const value = Math.min(Math.max(update(params[target], min, max), min), max);
+  return { ...params, [target]: value };
+};
+
+/** Applies a gesture to the parameters bound in `params.gestures`. */
+export const applyGesture = (params: SimulationParams, delta: GestureDelta): SimulationParams => {
+  const { pinch, twoFingerDrag } = params.gestures;
+  let next = applyToTarget(params, pinch, (value) => value * delta.scale);
+  // Dragging across the full screen height sweeps the whole range
+  next = applyToTarget(next, twoFingerDrag, (value, min, max) => value + (delta.pan[1] / 2) * (max - min));
+  return next;
+};
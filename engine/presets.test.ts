@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { decodePresetHash, DEFAULT_PARAMS, encodePresetHash, exportPresetJson, importPresetJson } from './presets';
+
+const CODE = 'fn customForce(particle : Particle, params : SimParams) -> vec2f { return vec2f(0.0, -1.0); }';
+const params = { ...DEFAULT_PARAMS, speed: 2, customForce: { enabled: true, code: CODE } };
+
+describe('shared presets', () => {
+  it('switch the custom force off in links but keep its code', () => {
+    const preset = decodePresetHash(`#${encodePresetHash(params)}`);
+    expect(preset?.params.speed).toBe(2);
+    expect(preset?.params.customForce).toEqual({ enabled: false, code: CODE });
+  });
+
+  it('switch the custom force off in imported files but keep its code', () => {
+    const preset = importPresetJson(exportPresetJson('Falling', params));
+    expect(preset.name).toBe('Falling');
+    expect(preset.params.customForce).toEqual({ enabled: false, code: CODE });
+  });
+});
@@ -0,0 +1,399 @@
+import {
+  BoundaryMode,
+  ColorScheme,
+  ColorSource,
+  Easing,
+  EmitterShape,
+  FlowFieldType,
+  ForceFalloff,
+  ForceFieldType,
+  GestureTarget,
+  ObstacleShape,
+  ParticleShape,
+  SimulationMode,
+  SimulationParams,
+  SpriteFrameMode,
+  TimelineParam,
+  TonemapMode,
+} from '../types';
+import { DEFAULT_CAMERA } from './camera';
+import { MAX_GRADIENT_STOPS } from './colorSchemes';
+import { DEFAULT_CUSTOM_FORCE } from './customForce';
+import { createEmitter, MAX_EMITTERS } from './emitters';
+import { createForceField, MAX_FORCE_FIELDS } from './forceFields';
+import { createObstacle, MAX_OBSTACLE_SEGMENTS, MAX_OBSTACLES } from './obstacles';
+import { MAX_PARTICLE_COUNT } from './particles';
+import { MAX_KEYFRAMES, MAX_TIMELINE_DURATION, TIMELINE_PARAMS } from './timeline';
+
+// Bump when the meaning of a saved field changes, and upgrade older files in `parsePreset`
+export const PRESET_VERSION = 1;
+
+const STORAGE_KEY = 'particleflow.presets';
+const HASH_KEY = 'preset';
+
+export const DEFAULT_PARAMS: SimulationParams = {
+  particleCount: 100000, // Reduced default for broader compatibility; adaptive quality lowers it further when needed
+  seed: 1,
+  speed: 1.0,
+  flowField: { type: 'classic', frequency: 3.0, octaves: 3, evolution: 0.2, texture: null },
+  interactionRadius: 0.35,
+  forceStrength: 1.5,
+  gestures: { pinch: 'interactionRadius', twoFingerDrag: 'speed' },
+  colorScheme: 'neon',
+  customGradient: [
+    { position: 0.0, color: '#1a0b3d' },
+    { position: 0.4, color: '#d1306b' },
+    { position: 0.75, color: '#ff9f1c' },
+    { position: 1.0, color: '#fff4d6' },
+  ],
+  colorSource: 'speed',
+  particleStyle: {
+    shape: 'disc',
+    size: 4.0,
+    sizeBySpeed: 0.0,
+    streakLength: 3.0,
+    atlas: null,
+    atlasColumns: 1,
+    atlasRows: 1,
+    frameMode: 'random',
+  },
+  postProcess: {
+    trails: false,
+    trailDecay: 0.9,
+    bloom: false,
+    bloomThreshold: 0.8,
+    bloomIntensity: 1.0,
+    tonemap: 'none',
+    exposure: 1.0,
+  },
+  mode3d: false,
+  camera: DEFAULT_CAMERA,
+  timeScale: 1.0,
+  substeps: 1,
+  paused: false,
+  emitters: [],
+  forceFields: [],
+  boundaryMode: 'wrap',
+  restitution: 0.5,
+  obstacles: [],
+  obstacleMask: null,
+  fadeByAge: true,
+  shrinkByAge: false,
+  neighborRadius: 0.03,
+  separation: 0,
+  cohesion: 0,
+  simulationMode: 'flow',
+  boids: { separation: 1.0, alignment: 0.5, cohesion: 0.5, maxSpeed: 0.006 },
+  fluid: { restDensity: 8.0, stiffness: 1.0, viscosity: 0.2, gravity: 1.0 },
+  adaptiveQuality: { enabled: true, targetFps: 60 },
+  customForce: { enabled: false, code: DEFAULT_CUSTOM_FORCE },
+  timeline: { enabled: false, duration: 30, loop: true, tracks: [], colorKeyframes: [] },
+};
+
+export interface Preset {
+  name: string;
+  params: SimulationParams;
+}
+
+// What JSON files, localStorage and the URL hash hold
+export interface PresetFile {
+  version: number;
+  name: string;
+  params: SimulationParams;
+}
+
+export const BUILT_IN_PRESETS: readonly Preset[] = [
+  { name: 'Default', params: DEFAULT_PARAMS },
+  {
+    name: 'Ember Trails',
+    params: {
+      ...DEFAULT_PARAMS,
+      flowField: { ...DEFAULT_PARAMS.flowField, type: 'curl', frequency: 1.5 },
+      colorScheme: 'fire',
+      particleStyle: { ...DEFAULT_PARAMS.particleStyle, shape: 'streak', size: 2.0 },
+      postProcess: { ...DEFAULT_PARAMS.postProcess, trails: true, trailDecay: 0.92, bloom: true, tonemap: 'aces' },
+    },
+  },
+  {
+    name: 'Starling Flock',
+    params: {
+      ...DEFAULT_PARAMS,
+      particleCount: 20000,
+      colorSource: 'direction',
+      particleStyle: { ...DEFAULT_PARAMS.particleStyle, shape: 'streak', size: 3.0 },
+      simulationMode: 'boids',
+    },
+  },
+  {
+    name: 'Fluid Tank',
+    params: {
+      ...DEFAULT_PARAMS,
+      particleCount: 20000,
+      colorScheme: 'ocean',
+      colorSource: 'density',
+      boundaryMode: 'bounce',
+      simulationMode: 'fluid',
+    },
+  },
+  {
+    name: 'Nebula',
+    params: {
+      ...DEFAULT_PARAMS,
+      flowField: { ...DEFAULT_PARAMS.flowField, frequency: 1.0 },
+      colorScheme: 'custom',
+      colorSource: 'position',
+      particleStyle: { ...DEFAULT_PARAMS.particleStyle, size: 3.0 },
+      postProcess: { ...DEFAULT_PARAMS.postProcess, bloom: true, bloomThreshold: 0.6, tonemap: 'reinhard' },
+      mode3d: true,
+    },
+  },
+  {
+    name: 'Tides',
+    params: {
+      ...DEFAULT_PARAMS,
+      colorScheme: 'ocean',
+      postProcess: { ...DEFAULT_PARAMS.postProcess, trails: true, trailDecay: 0.85 },
+      timeline: {
+        enabled: true,
+        duration: 24,
+        loop: true,
+        tracks: [
+          {
+            param: 'speed',
+            keyframes: [
+              { time: 0, value: 0.5, easing: 'easeInOut' },
+              { time: 12, value: 2.0, easing: 'easeInOut' },
+              { time: 24, value: 0.5, easing: 'linear' },
+            ],
+          },
+          {
+            param: 'flowField.frequency',
+            keyframes: [
+              { time: 0, value: 2.0, easing: 'easeInOut' },
+              { time: 18, value: 5.0, easing: 'easeInOut' },
+              { time: 24, value: 2.0, easing: 'linear' },
+            ],
+          },
+        ],
+        colorKeyframes: [
+          { time: 0, value: 'ocean', easing: 'easeInOut' },
+          { time: 8, value: 'neon', easing: 'easeInOut' },
+          { time: 16, value: 'fire', easing: 'easeInOut' },
+          { time: 24, value: 'ocean', easing: 'linear' },
+        ],
+      },
+    },
+  },
+];
+
+// --- Validation ---
+
+const FLOW_FIELD_TYPES: readonly FlowFieldType[] = ['classic', 'curl', 'simplex', 'texture'];
+const GESTURE_TARGETS: readonly GestureTarget[] = ['none', 'interactionRadius', 'forceStrength', 'speed', 'timeScale', 'neighborRadius'];
+const COLOR_SCHEMES: readonly ColorScheme[] = ['neon', 'fire', 'ocean', 'custom'];
+const COLOR_SOURCES: readonly ColorSource[] = ['speed', 'direction', 'age', 'position', 'density'];
+const PARTICLE_SHAPES: readonly ParticleShape[] = ['disc', 'streak', 'sprite'];
+const FRAME_MODES: readonly SpriteFrameMode[] = ['random', 'age'];
+const TONEMAPS: readonly TonemapMode[] = ['none', 'reinhard', 'aces'];
+const BOUNDARY_MODES: readonly BoundaryMode[] = ['wrap', 'bounce', 'kill', 'open'];
+const SIMULATION_MODES: readonly SimulationMode[] = ['flow', 'boids', 'fluid'];
+const EMITTER_SHAPES: readonly EmitterShape[] = ['point', 'line', 'circle', 'rectangle'];
+const FORCE_FIELD_TYPES: readonly ForceFieldType[] = ['attractor', 'repeller', 'vortex', 'wind', 'drag'];
+const FALLOFFS: readonly ForceFalloff[] = ['constant', 'linear', 'smooth'];
+const OBSTACLE_SHAPES: readonly ObstacleShape[] = ['circle', 'box', 'polyline'];
+const TIMELINE_PARAM_PATHS = Object.keys(TIMELINE_PARAMS) as TimelineParam[];
+const EASINGS: readonly Easing[] = ['linear', 'easeIn', 'easeOut', 'easeInOut', 'step'];
+
+// Fields are addressed by path, with `[]` standing for any item of a list
+
+// Accepted values of the string fields; unlisted strings take anything
+const STRINGS: Record<string, readonly string[] | RegExp> = {
+  'flowField.type': FLOW_FIELD_TYPES,
+  'gestures.pinch': GESTURE_TARGETS,
+  'gestures.twoFingerDrag': GESTURE_TARGETS,
+  'colorScheme': COLOR_SCHEMES,
+  'customGradient[].color': /^#[0-9a-f]{6}$/i,
+  'colorSource': COLOR_SOURCES,
+  'particleStyle.shape': PARTICLE_SHAPES,
+  'particleStyle.frameMode': FRAME_MODES,
+  'postProcess.tonemap': TONEMAPS,
+  'boundaryMode': BOUNDARY_MODES,
+  'simulationMode': SIMULATION_MODES,
+  'emitters[].shape': EMITTER_SHAPES,
+  'forceFields[].type': FORCE_FIELD_TYPES,
+  'forceFields[].falloff': FALLOFFS,
+  'obstacles[].shape': OBSTACLE_SHAPES,
+  'timeline.tracks[].param': TIMELINE_PARAM_PATHS,
+  'timeline.tracks[].keyframes[].easing': EASINGS,
+  'timeline.colorKeyframes[].value': COLOR_SCHEMES,
+  'timeline.colorKeyframes[].easing': EASINGS,
+};
+
+// Numbers that would stall or break the engine outside of their range
+const RANGES: Record<string, [number, number]> = {
+  'particleCount': [1000, MAX_PARTICLE_COUNT],
+  'seed': [0, 0xffffffff],
+  'substeps': [1, 8],
+  'adaptiveQuality.targetFps': [15, 240],
+  'particleStyle.atlasColumns': [1, 16],
+  'particleStyle.atlasRows': [1, 16],
+  'timeline.duration': [1, MAX_TIMELINE_DURATION],
+  'timeline.tracks[].keyframes[].time': [0, MAX_TIMELINE_DURATION],
+  'timeline.colorKeyframes[].time': [0, MAX_TIMELINE_DURATION],
+};
+
+// Variable-length lists, with a template for their items. Other arrays are fixed-size tuples.
+const LISTS: Record<string, { item: unknown; min: number; max: number }> = {
+  'customGradient': { item: { position: 0, color: '#000000' }, min: 2, max: MAX_GRADIENT_STOPS },
+  'emitters': { item: createEmitter('point'), min: 0, max: MAX_EMITTERS },
+  'forceFields': { item: createForceField('attractor'), min: 0, max: MAX_FORCE_FIELDS },
+  'obstacles': { item: createObstacle('circle'), min: 0, max: MAX_OBSTACLES },
+  'obstacles[].points': { item: [0, 0], min: 0, max: MAX_OBSTACLE_SEGMENTS + 1 },
+  'timeline.tracks': { item: { param: 'speed', keyframes: [] }, min: 0, max: TIMELINE_PARAM_PATHS.length },
+  'timeline.tracks[].keyframes': { item: { time: 0, value: 0, easing: 'linear' }, min: 0, max: MAX_KEYFRAMES },
+  'timeline.colorKeyframes': { item: { time: 0, value: 'neon', easing: 'linear' }, min: 0, max: MAX_KEYFRAMES },
+};
+
+// `value` shaped like `template`: fields that are missing, mistyped or out of range keep the template's value
+const sanitize = (template: unknown, value: unknown, path: string): unknown => {
+  if (template === null) {
+    // Loaded images, which presets don't carry
+    return null;
+  }
+  if (typeof template === 'number') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return template;
+    const range = RANGES[path];
+    return range ? Math.min(Math.max(value, range[0]), range[1]) : value;
+  }
+  if (typeof template === 'boolean') {
+    return typeof value === 'boolean' ? value : template;
+  }
+  if (typeof template === 'string') {
+    if (typeof value !== 'string') return template;
+    const accepted = STRINGS[path];
+    if (!accepted) return value;
+    return (accepted instanceof RegExp ? accepted.test(value) : accepted.includes(value)) ? value : template;
+  }
+  if (Array.isArray(template)) {
+    if (!Array.isArray(value)) return template;
+    const list = LISTS[path];
+    if (!list) return template.map((item, i) => sanitize(item, value[i], path));
+    if (value.length < list.min) return template;
+    return value.slice(0, list.max).map((item) => sanitize(list.item, item, `${path}[]`));
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return template;
+  const fields = value as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.entries(template).map(([key, field]) => [key, sanitize(field, fields[key], path ? `${path}.${key}` : key)])
+  );
+};
+
+/** Validates parsed preset JSON. Missing or invalid fields fall back to the defaults, so older files still load. */
+export const parsePreset = (data: unknown): Preset => {
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Not a preset file.');
+  }
+  const { version, name, params } = data as Partial<Record<keyof PresetFile, unknown>>;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('The preset has no version.');
+  }
+  if (version > PRESET_VERSION) {
+    throw new Error(`The preset needs a newer version of the app (format ${version}).`);
+  }
+  if (typeof params !== 'object' || params === null) {
+    throw new Error('The preset has no parameters.');
+  }
+  return {
+    name: typeof name === 'string' && name.trim() ? name.trim() : 'Imported',
+    params: sanitize(DEFAULT_PARAMS, params, '') as SimulationParams,
+  };
+};
+
+/** The serialized preset. Loaded images are left out; they would make files and links huge. */
+export const toPresetFile = (name: string, params: SimulationParams): PresetFile => ({
+  version: PRESET_VERSION,
+  name,
+  params: {
+    ...params,
+    flowField: { ...params.flowField, texture: null },
+    particleStyle: { ...params.particleStyle, atlas: null },
+    obstacleMask: null,
+  },
+});
+
+export const exportPresetJson = (name: string, params: SimulationParams): string =>
+  JSON.stringify(toPresetFile(name, params), null, 2);
+
+/**
+ * Parses a preset file or link from someone else. Its custom force code is
+ * kept but switched off, so nothing runs on the GPU before the user has read it.
+ */
+export const importPresetJson = (json: string): Preset => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const preset = parsePreset(data);
+  return { ...preset, params: { ...preset.params, customForce: { ...preset.params.customForce, enabled: false } } };
+};
+
+// --- URL Hash ---
+
+// URL-safe base64 of the UTF-8 bytes
+const encodeBase64Url = (text: string): string => {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodeBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+};
+
+/** URL hash (without `#`) reproducing `params`. */
+export const encodePresetHash = (params: SimulationParams): string =>
+  `${HASH_KEY}=${encodeBase64Url(JSON.stringify(toPresetFile('Shared', params)))}`;
+
+/** The preset in a URL hash, or null when it holds none. Throws when it holds a broken one. */
+export const decodePresetHash = (hash: string): Preset | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+  if (!encoded) return null;
+
+  let json: string;
+  try {
+    json = decodeBase64Url(encoded);
+  } catch {
+    throw new Error('The link is damaged.');
+  }
+  return importPresetJson(json);
+};
+
+// --- Saved Presets ---
+
+/** Presets saved in this browser. Entries that no longer validate are skipped. */
+export const loadSavedPresets = (): Preset[] => {
+  try {
+    const files: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(files)) return [];
+    return files.flatMap((file) => {
+      try {
+        return [parsePreset(file)];
+      } catch (error) {
+        console.warn('Skipping a saved preset:', error);
+        return [];
+      }
+    });
+  } catch (error) {
+    console.warn('Could not read the saved presets:', error);
+    return [];
+  }
+};
+
+/** Replaces the saved presets. Throws when the storage is full or unavailable. */
+export const storeSavedPresets = (presets: Preset[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.map((p) => toPresetFile(p.name, p.params))));
+};
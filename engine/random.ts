@@ -0,0 +1,17 @@
+// Seeded pseudo-random numbers for everything that must replay exactly,
+// unlike Math.random(). Mulberry32: small, fast and good enough for visuals.
+
+/** Generator of uniform numbers in [0, 1), fully determined by `seed`. */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** A fresh seed for the "randomize" buttons. */
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { createParticleData, PARTICLE_LAYOUT, PARTICLE_STRIDE } from './particles';
+import { decodeSnapshot, encodeSnapshot, ParticleSnapshot, SNAPSHOT_VERSION } from './snapshot';
+
+const snapshot = (count: number): ParticleSnapshot => ({
+  count,
+  data: createParticleData(count, 7),
+  seed: 7,
+  frame: 42,
+  time: 12.5,
+});
+
+// A snapshot file written with another particle layout, one row of values per particle
+const encodeWithLayout = (fields: string[], rows: number[][]): ArrayBuffer => {
+  const layout = new TextEncoder().encode(fields.join(','));
+  const dataOffset = Math.ceil((36 + layout.length) / 4) * 4;
+  const buffer = new ArrayBuffer(dataOffset + rows.length * fields.length * 4);
+  const view = new DataView(buffer);
+  new Uint8Array(buffer, 0, 4).set(new TextEncoder().encode('PFSN'));
+  view.setUint32(4, SNAPSHOT_VERSION, true);
+  view.setUint32(8, rows.length, true);
+  view.setUint32(12, fields.length, true);
+  view.setUint32(32, layout.length, true);
+  new Uint8Array(buffer, 36, layout.length).set(layout);
+  rows.flat().forEach((value, i) => view.setFloat32(dataOffset + i * 4, value, true));
+  return buffer;
+};
+
+describe('snapshots', () => {
+  it('round-trips the particles and the simulation state', () => {
+    const original = snapshot(300);
+    expect(decodeSnapshot(encodeSnapshot(original))).toEqual(original);
+  });
+
+  it('maps fields by name from files written with another layout', () => {
+    // Reordered, without z and vz, and with a field this version doesn't know
+    const fields = ['vx', 'vy', 'x', 'y', 'lifetime', 'age', 'mass'];
+    const decoded = decodeSnapshot(encodeWithLayout(fields, [
+      [1, 2, 3, 4, 5, 6, 7],
+      [8, 9, 10, 11, 12, 13, 14],
+    ]));
+
+    const particle = (i: number) => Object.fromEntries(
+      PARTICLE_LAYOUT.map((field, f) => [field, decoded.data[i * PARTICLE_STRIDE + f]])
+    );
+    expect(decoded.count).toBe(2);
+    expect(particle(0)).toEqual({ x: 3, y: 4, vx: 1, vy: 2, age: 6, lifetime: 5, z: 0, vz: 0 });
+    expect(particle(1)).toEqual({ x: 10, y: 11, vx: 8, vy: 9, age: 13, lifetime: 12, z: 0, vz: 0 });
+  });
+
+  it('rejects a truncated file', () => {
+    const buffer = encodeSnapshot(snapshot(10));
+    expect(() => decodeSnapshot(buffer.slice(0, buffer.byteLength - 4))).toThrow('truncated');
+    expect(() => decodeSnapshot(buffer.slice(0, 20))).toThrow('too short');
+  });
+
+  it('rejects a file without the snapshot magic', () => {
+    const buffer = encodeSnapshot(snapshot(10));
+    new Uint8Array(buffer).set(new TextEncoder().encode('PNG\n'));
+    expect(() => decodeSnapshot(buffer)).toThrow('Not a particle snapshot');
+  });
+
+  it('rejects a snapshot without particles', () => {
+    expect(() => decodeSnapshot(encodeSnapshot(snapshot(0)))).toThrow('no particles');
+  });
+});
@@ -0,0 +1,113 @@
+import { MAX_PARTICLE_COUNT, PARTICLE_LAYOUT, PARTICLE_STRIDE } from './particles';
+
+/*
+ * Particle snapshot files (.pfsnap), all values little-endian:
+ *
+ *   offset  type      field
+ *   0       u8[4]     magic "PFSN"
+ *   4       u32       format version, SNAPSHOT_VERSION
+ *   8       u32       particle count
+ *   12      u32       floats per particle
+ *   16      u32       seed the particles were created from
+ *   20      u32       emitter frame counter, which seeds the spawns
+ *   24      f64       simulated time in seconds, which drives the flow field
+ *   32      u32       layout length n, in bytes
+ *   36      u8[n]     layout: comma separated ASCII field names, see PARTICLE_LAYOUT
+ *   36 + n  u8[]      zero padding to a multiple of 4
+ *   ...     f32[]     count * floats per particle values, particle by particle
+ *
+ * Fields are matched by name on load, so files written with another particle
+ * layout still load; fields missing from the file start at 0.
+ */
+
+export const SNAPSHOT_VERSION = 1;
+export const SNAPSHOT_EXTENSION = '.pfsnap';
+
+const MAGIC = 'PFSN';
+const HEADER_SIZE = 36;
+
+// Everything needed to resume a simulation exactly, given the same params
+export interface ParticleSnapshot {
+  count: number;
+  data: Float32Array; // PARTICLE_STRIDE floats per particle
+  seed: number;
+  frame: number;
+  time: number;
+}
+
+export const encodeSnapshot = (snapshot: ParticleSnapshot): ArrayBuffer => {
+  const layout = new TextEncoder().encode(PARTICLE_LAYOUT.join(','));
+  const dataOffset = Math.ceil((HEADER_SIZE + layout.length) / 4) * 4;
+  const values = snapshot.count * PARTICLE_STRIDE;
+  const buffer = new ArrayBuffer(dataOffset + values * 4);
+  const view = new DataView(buffer);
+
+  for (let i = 0; i < MAGIC.length; i++) view.setUint8(i, MAGIC.charCodeAt(i));
+  view.setUint32(4, SNAPSHOT_VERSION, true);
+  view.setUint32(8, snapshot.count, true);
+  view.setUint32(12, PARTICLE_STRIDE, true);
+  view.setUint32(16, snapshot.seed >>> 0, true);
+  view.setUint32(20, snapshot.frame >>> 0, true);
+  view.setFloat64(24, snapshot.time, true);
+  view.setUint32(32, layout.length, true);
+  new Uint8Array(buffer, HEADER_SIZE, layout.length).set(layout);
+  for (let i = 0; i < values; i++) {
+    view.setFloat32(dataOffset + i * 4, snapshot.data[i], true);
+  }
+  return buffer;
+};
+
+/** Parses a snapshot file into the current particle layout. Throws on anything malformed. */
+export const decodeSnapshot = (buffer: ArrayBuffer): ParticleSnapshot => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < HEADER_SIZE) {
+    throw new Error('The file is too short to be a snapshot.');
+  }
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, 4));
+  if (magic !== MAGIC) {
+    throw new Error('Not a particle snapshot.');
+  }
+  const version = view.getUint32(4, true);
+  if (version === 0 || version > SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${version}.`);
+  }
+
+  const count = view.getUint32(8, true);
+  const stride = view.getUint32(12, true);
+  const layoutLength = view.getUint32(32, true);
+  if (count < 1) {
+    throw new Error('The snapshot holds no particles.');
+  }
+  if (count > MAX_PARTICLE_COUNT) {
+    throw new Error(`The snapshot holds ${count} particles, more than the ${MAX_PARTICLE_COUNT} supported.`);
+  }
+  if (HEADER_SIZE + layoutLength > buffer.byteLength) {
+    throw new Error('The snapshot header is damaged.');
+  }
+  const fields = new TextDecoder().decode(new Uint8Array(buffer, HEADER_SIZE, layoutLength)).split(',');
+  if (fields.length !== stride) {
+    throw new Error('The snapshot layout does not match its particle size.');
+  }
+  const dataOffset = Math.ceil((HEADER_SIZE + layoutLength) / 4) * 4;
+  if (dataOffset + count * stride * 4 > buffer.byteLength) {
+    throw new Error('The snapshot is truncated.');
+  }
+
+  // Source float of each field in the current layout, -1 when the file lacks it
+  const sources = PARTICLE_LAYOUT.map((field) => fields.indexOf(field));
+  const data = new Float32Array(count * PARTICLE_STRIDE);
+  for (let i = 0; i < count; i++) {
+    for (let f = 0; f < PARTICLE_STRIDE; f++) {
+      if (sources[f] < 0) continue;
+      data[i * PARTICLE_STRIDE + f] = view.getFloat32(dataOffset + (i * stride + sources[f]) * 4, true);
+    }
+  }
+
+  return {
+    count,
+    data,
+    seed: view.getUint32(16, true),
+    frame: view.getUint32(20, true),
+    time: view.getFloat64(24, true),
+  };
+};
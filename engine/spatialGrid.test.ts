@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PARAMS } from './presets';
+import { buildNeighborParams, NEIGHBOR_PARAMS, NEIGHBOR_PARAMS_SIZE, packNeighborParams, SpatialGrid } from './spatialGrid';
+
+describe('NEIGHBOR_PARAMS', () => {
+  it('keeps the layout the compute shader was written against', () => {
+    expect(NEIGHBOR_PARAMS.members.map((m) => [m.name, m.offset])).toEqual([
+      ['dims', 0],
+      ['cellSize', 8],
+      ['cellCount', 16],
+      ['enabled', 20],
+      ['radius', 24],
+      ['separation', 28],
+      ['cohesion', 32],
+      ['maxNeighbors', 36],
+      ['mode', 40],
+      ['alignment', 44],
+      ['maxSpeed', 48],
+      ['restDensity', 52],
+      ['stiffness', 56],
+      ['viscosity', 60],
+      ['gravity', 64],
+    ]);
+    expect(NEIGHBOR_PARAMS_SIZE).toBe(80);
+  });
+
+  it('packs integers as u32 and weights as f32', () => {
+    const n = buildNeighborParams({ ...DEFAULT_PARAMS, simulationMode: 'fluid' }, 1.5);
+    const buffer = packNeighborParams(n);
+    const f32 = new Float32Array(buffer);
+    const u32 = new Uint32Array(buffer);
+    expect(buffer.byteLength).toBe(NEIGHBOR_PARAMS_SIZE);
+    expect([...u32.slice(0, 2)]).toEqual(n.dims);
+    expect(f32[2]).toBeCloseTo(n.cellSize[0]);
+    expect(u32[4]).toBe(n.cellCount);
+    expect(u32[5]).toBe(1);
+    expect(f32[6]).toBeCloseTo(n.radius);
+    expect(u32[9]).toBe(n.maxNeighbors);
+    expect(u32[10]).toBe(2);
+    expect(f32[16]).toBeCloseTo(n.gravity);
+  });
+});
+
+describe('buildNeighborParams', () => {
+  it('keeps particles within the neighbor radius in adjacent cells', () => {
+    for (const aspect of [1, 16 / 9, 9 / 16]) {
+      for (const neighborRadius of [0.01, 0.03, 0.07, 0.1]) {
+        const grid = new SpatialGrid(buildNeighborParams({ ...DEFAULT_PARAMS, neighborRadius }, aspect));
+        const [width, height] = grid.params.cellSize;
+        // Just below the boundary between the third and fourth cell, and a radius away from it
+        const distance = neighborRadius * 0.999;
+        const x = -1 + 3 * width - 1e-5;
+        const y = -1 + 3 * height - 1e-5;
+
+        const [ax] = grid.cellCoord(x, 0);
+        const [bx] = grid.cellCoord(x + distance / aspect, 0);
+        expect(bx - ax).toBeLessThanOrEqual(1);
+
+        const [, ay] = grid.cellCoord(0, y);
+        const [, by] = grid.cellCoord(0, y + distance);
+        expect(by - ay).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+});
@@ -0,0 +1,150 @@
+import { SimulationMode, SimulationParams } from '../types';
+import { PARTICLE_STRIDE } from './particles';
+import { defineUniformStruct } from './uniformLayout';
+
+// Upper bound of grid cells; with tiny radii the cells grow instead
+export const MAX_GRID_CELLS = 256 * 256;
+// Neighbors considered per particle, bounding the cost in dense clumps
+export const MAX_NEIGHBORS = 64;
+
+// The `NeighborParams` uniform struct: a uniform grid over clip space, rebuilt
+// from the particles every step, plus the weights of the neighbor-based modes
+export const NEIGHBOR_PARAMS = defineUniformStruct('NeighborParams', [
+  { name: 'dims', type: 'vec2u' },
+  { name: 'cellSize', type: 'vec2f' },
+  { name: 'cellCount', type: 'u32' },
+  { name: 'enabled', type: 'u32' },
+  { name: 'radius', type: 'f32', comment: 'Aspect-corrected, like the mouse radius' },
+  { name: 'separation', type: 'f32' },
+  { name: 'cohesion', type: 'f32' },
+  { name: 'maxNeighbors', type: 'u32' },
+  { name: 'mode', type: 'u32', comment: '0 flow field, 1 boids, 2 fluid' },
+  { name: 'alignment', type: 'f32' },
+  { name: 'maxSpeed', type: 'f32' },
+  { name: 'restDensity', type: 'f32' },
+  { name: 'stiffness', type: 'f32' },
+  { name: 'viscosity', type: 'f32' },
+  { name: 'gravity', type: 'f32' },
+]);
+
+export const NEIGHBOR_PARAMS_SIZE = NEIGHBOR_PARAMS.size;
+
+const MODE_IDS: Record<SimulationMode, number> = {
+  flow: 0,
+  boids: 1,
+  fluid: 2,
+};
+
+// What NEIGHBOR_PARAMS uploads, plus CPU-side flags
+export interface NeighborParams {
+  dims: [number, number];
+  cellSize: [number, number];
+  cellCount: number;
+  enabled: boolean;
+  radius: number;
+  separation: number;
+  cohesion: number;
+  maxNeighbors: number;
+  mode: number;
+  alignment: number;
+  maxSpeed: number;
+  restDensity: number;
+  stiffness: number;
+  viscosity: number;
+  gravity: number;
+  needsDensity: boolean; // Not uploaded: runs the density pass, for fluid or density colors
+}
+
+/**
+ * Sizes the grid so that a cell spans the (aspect-corrected) interaction
+ * radius, which keeps every neighbor within the surrounding 3x3 cells.
+ */
+export const buildNeighborParams = (params: SimulationParams, aspect: number): NeighborParams => {
+  const radius = Math.max(params.neighborRadius, 1e-3);
+  let cellsX = Math.max(1, Math.floor((2 * aspect) / radius));
+  let cellsY = Math.max(1, Math.floor(2 / radius));
+
+  const scale = Math.sqrt((cellsX * cellsY) / MAX_GRID_CELLS);
+  if (scale > 1) {
+    cellsX = Math.floor(cellsX / scale);
+    cellsY = Math.floor(cellsY / scale);
+  }
+  cellsX = Math.max(cellsX, 1);
+  cellsY = Math.max(cellsY, 1);
+
+  // Boids and fluid always need their neighbors, the flow field only for its optional forces or density colors.
+  // The grid is planar, so the 3D mode runs without neighbors.
+  const mode = params.simulationMode;
+  const weights = mode === 'boids' ? params.boids : params;
+  const needsDensity = !params.mode3d && (mode === 'fluid' || params.colorSource === 'density');
+
+  return {
+    dims: [cellsX, cellsY],
+    cellSize: [2 / cellsX, 2 / cellsY],
+    cellCount: cellsX * cellsY,
+    enabled: !params.mode3d && (mode !== 'flow' || params.separation > 0 || params.cohesion > 0 || needsDensity),
+    radius,
+    separation: weights.separation,
+    cohesion: weights.cohesion,
+    maxNeighbors: MAX_NEIGHBORS,
+    mode: MODE_IDS[mode],
+    alignment: params.boids.alignment,
+    maxSpeed: params.boids.maxSpeed,
+    restDensity: params.fluid.restDensity,
+    stiffness: params.fluid.stiffness,
+    viscosity: params.fluid.viscosity,
+    gravity: params.fluid.gravity,
+    needsDensity,
+  };
+};
+
+export const packNeighborParams = (n: NeighborParams): ArrayBuffer =>
+  NEIGHBOR_PARAMS.pack({ ...n, enabled: n.enabled ? 1 : 0 });
+
+const cellCoord = (n: NeighborParams, x: number, y: number): [number, number] => [
+  Math.min(Math.max(Math.floor((x + 1) / n.cellSize[0]), 0), n.dims[0] - 1),
+  Math.min(Math.max(Math.floor((y + 1) / n.cellSize[1]), 0), n.dims[1] - 1),
+];
+
+/** CPU counterpart of the clearCells / countCells / prefixSum / scatterParticles passes. */
+export class SpatialGrid {
+  cellCounts = new Uint32Array(0);
+  cellStart = new Uint32Array(0);
+  sortedIndices = new Uint32Array(0);
+
+  constructor(readonly params: NeighborParams) {}
+
+  build(particles: Float32Array): void {
+    const n = this.params;
+    const count = particles.length / PARTICLE_STRIDE;
+    const cells = new Uint32Array(count);
+    this.cellCounts = new Uint32Array(n.cellCount);
+    this.cellStart = new Uint32Array(n.cellCount);
+    this.sortedIndices = new Uint32Array(count);
+
+    for (let i = 0; i < count; i++) {
+      const base = i * PARTICLE_STRIDE;
+      cells[i] = this.cellIndex(cellCoord(n, particles[base], particles[base + 1]));
+      this.cellCounts[cells[i]]++;
+    }
+
+    let running = 0;
+    for (let c = 0; c < n.cellCount; c++) {
+      this.cellStart[c] = running;
+      running += this.cellCounts[c];
+    }
+
+    const fill = new Uint32Array(n.cellCount);
+    for (let i = 0; i < count; i++) {
+      this.sortedIndices[this.cellStart[cells[i]] + fill[cells[i]]++] = i;
+    }
+  }
+
+  cellCoord(x: number, y: number): [number, number] {
+    return cellCoord(this.params, x, y);
+  }
+
+  cellIndex([cx, cy]: [number, number]): number {
+    return cy * this.params.dims[0] + cx;
+  }
+}
@@ -0,0 +1,11 @@
+import { SpriteImage } from '../types';
+import { loadImagePixels } from './imagePixels';
+
+// Larger atlases are downsampled before upload
+export const MAX_SPRITE_ATLAS_SIZE = 1024;
+
+/** Reads a sprite atlas image; frames are laid out in a grid, row by row from the top left. */
+export const spriteAtlasFromImage = async (file: Blob): Promise<SpriteImage> => {
+  const { data, width, height } = await loadImagePixels(file, MAX_SPRITE_ATLAS_SIZE);
+  return { width, height, data };
+};
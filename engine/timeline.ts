@@ -0,0 +1,195 @@
+import { ColorScheme, Easing, GradientStop, Keyframe, SimulationParams, TimelineParam, TimelineParams } from '../types';
+import { MAX_CAMERA_DISTANCE, MAX_CAMERA_PITCH, MIN_CAMERA_DISTANCE } from './camera';
+import { blendGradients, resolveGradient } from './colorSchemes';
+
+export const MAX_TIMELINE_DURATION = 3600;
+export const MAX_KEYFRAMES = 64;
+
+// Range of each animatable parameter, as its slider; sampled values are clamped to it
+export const TIMELINE_PARAMS: Record<TimelineParam, { label: string; min: number; max: number }> = {
+  'speed': { label: 'Fluidity', min: 0.1, max: 3 },
+  'interactionRadius': { label: 'Vortex Radius', min: 0.05, max: 0.8 },
+  'forceStrength': { label: 'Force Strength', min: 0.1, max: 5 },
+  'timeScale': { label: 'Time Scale', min: 0.1, max: 3 },
+  'flowField.frequency': { label: 'Flow Frequency', min: 0.5, max: 10 },
+  'flowField.evolution': { label: 'Flow Evolution', min: 0, max: 2 },
+  'particleStyle.size': { label: 'Particle Size', min: 0.5, max: 32 },
+  'particleStyle.streakLength': { label: 'Streak Length', min: 0.5, max: 20 },
+  'postProcess.trailDecay': { label: 'Trail Decay', min: 0.5, max: 0.99 },
+  'postProcess.bloomIntensity': { label: 'Bloom Intensity', min: 0, max: 3 },
+  'postProcess.exposure': { label: 'Exposure', min: 0.1, max: 4 },
+  'camera.yaw': { label: 'Camera Yaw', min: -360, max: 360 }, // Whole turns orbit the scene
+  'camera.pitch': { label: 'Camera Pitch', min: -MAX_CAMERA_PITCH, max: MAX_CAMERA_PITCH },
+  'camera.distance': { label: 'Camera Distance', min: MIN_CAMERA_DISTANCE, max: MAX_CAMERA_DISTANCE },
+  'camera.fov': { label: 'Field of View', min: 20, max: 100 },
+  'neighborRadius': { label: 'Neighbor Radius', min: 0.01, max: 0.1 },
+  'separation': { label: 'Separation', min: 0, max: 2 },
+  'cohesion': { label: 'Cohesion', min: 0, max: 2 },
+  'restitution': { label: 'Restitution', min: 0, max: 1 },
+};
+
+// Progress through a segment, 0..1 in and out
+export const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t * t,
+  easeOut: (t) => 1 - (1 - t) ** 3,
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+  step: () => 0,
+};
+
+// Crossfades are quantized to this many steps, so consecutive frames share their gradient
+const BLEND_STEPS = 64;
+// Shortest interval between listener updates during playback, ms
+const REPORT_INTERVAL = 100;
+
+export interface TimelineState {
+  time: number; // Seconds
+  playing: boolean;
+}
+
+type ParamGroups = Record<string, Record<string, number>>;
+
+/** Current value of `param` in `params`. */
+export const readParam = (params: SimulationParams, param: TimelineParam): number => {
+  const [key, field] = param.split('.');
+  const value = (params as unknown as Record<string, number | Record<string, number>>)[key];
+  return typeof value === 'number' ? value : value[field];
+};
+
+const writeParam = (params: SimulationParams, param: TimelineParam, value: number): SimulationParams => {
+  const [key, field] = param.split('.');
+  if (field === undefined) return { ...params, [key]: value };
+  const group = (params as unknown as ParamGroups)[key];
+  return { ...params, [key]: { ...group, [field]: value } };
+};
+
+// The keyframes around `time` and the eased progress between them; null without keyframes
+const locate = <T>(keyframes: Keyframe<T>[], time: number): { from: T; to: T; t: number } | null => {
+  if (keyframes.length === 0) return null;
+  const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+  if (time <= sorted[0].time) return { from: sorted[0].value, to: sorted[0].value, t: 0 };
+
+  for (let i = 1; i < sorted.length; i++) {
+    const a = sorted[i - 1];
+    const b = sorted[i];
+    if (time < b.time) {
+      return { from: a.value, to: b.value, t: EASINGS[a.easing]((time - a.time) / (b.time - a.time)) };
+    }
+  }
+  const last = sorted[sorted.length - 1].value;
+  return { from: last, to: last, t: 0 };
+};
+
+/**
+ * Plays a timeline: keeps the playhead, moved on by the engine with the real
+ * time each frame covers, and applies the keyframes at the playhead on top of
+ * the params the host set. Offline renders step it like the live loop.
+ */
+export class TimelinePlayer {
+  private timeline: TimelineParams | null = null;
+  private time = 0;
+  private playing = false;
+  private lastReport = 0;
+  private listener: ((state: TimelineState) => void) | null = null;
+  private blend: { key: string; custom: GradientStop[]; gradient: GradientStop[] } | null = null;
+
+  get isPlaying(): boolean {
+    return this.playing && this.timeline?.enabled === true;
+  }
+
+  setListener(listener: ((state: TimelineState) => void) | null): void {
+    this.listener = listener;
+    this.report(true);
+  }
+
+  /** Follows edits of the timeline; switching it on plays it from the start. */
+  load(timeline: TimelineParams): void {
+    const starting = timeline.enabled && !this.timeline?.enabled;
+    this.timeline = timeline;
+    if (starting) {
+      this.time = 0;
+      this.playing = true;
+    } else {
+      this.time = Math.min(this.time, timeline.duration);
+    }
+    this.report(starting);
+  }
+
+  /** Playing from the end starts over. */
+  setPlaying(playing: boolean): void {
+    if (playing && this.timeline && this.time >= this.timeline.duration) this.time = 0;
+    this.playing = playing;
+    this.report(true);
+  }
+
+  seek(time: number): void {
+    this.time = Math.min(Math.max(time, 0), this.timeline?.duration ?? 0);
+    this.report(true);
+  }
+
+  /** Moves the playhead by `seconds`; returns true when the sampled params may have changed. */
+  advance(seconds: number): boolean {
+    const { timeline } = this;
+    if (!timeline || !this.isPlaying || seconds <= 0) return false;
+
+    this.time += seconds;
+    if (this.time >= timeline.duration) {
+      if (timeline.loop) {
+        this.time %= timeline.duration;
+      } else {
+        this.time = timeline.duration;
+        this.playing = false;
+      }
+    }
+    this.report(!this.playing);
+    return true;
+  }
+
+  /** `params` with the tracks at the playhead applied; unchanged while the timeline is off. */
+  sample(params: SimulationParams): SimulationParams {
+    const { timeline } = params;
+    if (!timeline.enabled) return params;
+
+    let sampled = params;
+    for (const track of timeline.tracks) {
+      const range = TIMELINE_PARAMS[track.param];
+      const segment = locate(track.keyframes, this.time);
+      if (!range || !segment) continue;
+      const value = segment.from + (segment.to - segment.from) * segment.t;
+      sampled = writeParam(sampled, track.param, Math.min(Math.max(value, range.min), range.max));
+    }
+
+    const colors = locate(timeline.colorKeyframes, this.time);
+    if (colors) {
+      const steps = Math.round(colors.t * BLEND_STEPS);
+      if (steps === 0 || colors.from === colors.to) {
+        sampled = { ...sampled, colorScheme: colors.from };
+      } else {
+        sampled = { ...sampled, colorScheme: 'custom', customGradient: this.blendSchemes(params, colors.from, colors.to, steps) };
+      }
+    }
+    return sampled;
+  }
+
+  // Kept while the frames stay on the same blend step, so the engines don't re-upload it
+  private blendSchemes(params: SimulationParams, from: ColorScheme, to: ColorScheme, steps: number): GradientStop[] {
+    const key = `${from}:${to}:${steps}`;
+    if (this.blend?.key === key && this.blend.custom === params.customGradient) return this.blend.gradient;
+    const gradient = blendGradients(
+      resolveGradient({ ...params, colorScheme: from }),
+      resolveGradient({ ...params, colorScheme: to }),
+      steps / BLEND_STEPS
+    );
+    this.blend = { key, custom: params.customGradient, gradient };
+    return gradient;
+  }
+
+  // Playback updates are throttled; `force` sends play, pause and seek changes right away
+  private report(force: boolean): void {
+    if (!this.listener) return;
+    const now = performance.now();
+    if (!force && now - this.lastReport < REPORT_INTERVAL) return;
+    this.lastReport = now;
+    this.listener({ time: this.time, playing: this.isPlaying });
+  }
+}
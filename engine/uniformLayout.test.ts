@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { defineUniformStruct } from './uniformLayout';
+
+describe('defineUniformStruct', () => {
+  it('aligns each member to its type', () => {
+    const struct = defineUniformStruct('Test', [
+      { name: 'a', type: 'f32' },
+      { name: 'b', type: 'vec2f' },
+      { name: 'c', type: 'f32' },
+      { name: 'd', type: 'vec3f' },
+      { name: 'e', type: 'f32' },
+      { name: 'f', type: 'vec4u' },
+    ]);
+    expect(struct.members.map((m) => [m.name, m.offset, m.size])).toEqual([
+      ['a', 0, 4],
+      ['b', 8, 8],
+      ['c', 16, 4],
+      ['d', 32, 12],
+      ['e', 44, 4],
+      ['f', 48, 16],
+    ]);
+    expect(struct.size).toBe(64);
+  });
+
+  it('honors an explicit @align', () => {
+    const struct = defineUniformStruct('Test', [
+      { name: 'a', type: 'f32' },
+      { name: 'b', type: 'f32', align: 16 },
+    ]);
+    expect(struct.members[1].offset).toBe(16);
+    expect(struct.wgsl).toContain('@align(16) b : f32,');
+  });
+
+  it('rounds the struct size up to 16 bytes', () => {
+    expect(defineUniformStruct('Test', [{ name: 'a', type: 'f32' }]).size).toBe(16);
+    expect(defineUniformStruct('Test', [{ name: 'a', type: 'vec4f' }, { name: 'b', type: 'u32' }]).size).toBe(32);
+  });
+
+  it('lays out arrays with 16-byte aligned elements', () => {
+    const struct = defineUniformStruct('Test', [
+      { name: 'a', type: 'f32' },
+      { name: 'list', type: 'vec4f', count: 3 },
+    ]);
+    expect(struct.members[1]).toMatchObject({ offset: 16, size: 48, stride: 16, count: 3 });
+    expect(struct.size).toBe(64);
+    expect(struct.wgsl).toContain('list : array<vec4f, 3>,');
+  });
+
+  it('rejects arrays of elements that are not 16 bytes', () => {
+    expect(() => defineUniformStruct('Test', [{ name: 'list', type: 'f32', count: 4 }])).toThrow(
+      'Test.list: uniform arrays need 16-byte elements, f32 has 4.'
+    );
+    expect(() => defineUniformStruct('Test', [{ name: 'list', type: 'vec2f', count: 4 }])).toThrow(/vec2f has 8/);
+  });
+
+  it('packs float, unsigned and signed lanes at their offsets', () => {
+    const struct = defineUniformStruct('Test', [
+      { name: 'scale', type: 'f32' },
+      { name: 'count', type: 'u32' },
+      { name: 'offset', type: 'i32' },
+      { name: 'dims', type: 'vec2u' },
+      { name: 'color', type: 'vec3f' },
+      { name: 'points', type: 'vec4f', count: 2 },
+    ]);
+    const buffer = struct.pack({
+      scale: 1.5,
+      count: 0xffffffff,
+      offset: -3,
+      dims: [7, 9],
+      color: [0.25, 0.5, 0.75],
+      points: [[1, 2, 3, 4]], // The missing second element stays zero
+    });
+    expect(buffer.byteLength).toBe(struct.size);
+
+    const f32 = new Float32Array(buffer);
+    const u32 = new Uint32Array(buffer);
+    const i32 = new Int32Array(buffer);
+    const at = (name: string) => struct.members.find((m) => m.name === name)!.offset / 4;
+    expect(f32[at('scale')]).toBe(1.5);
+    expect(u32[at('count')]).toBe(0xffffffff);
+    expect(i32[at('offset')]).toBe(-3);
+    expect([...u32.slice(at('dims'), at('dims') + 2)]).toEqual([7, 9]);
+    expect([...f32.slice(at('color'), at('color') + 3)]).toEqual([0.25, 0.5, 0.75]);
+    expect([...f32.slice(at('points'), at('points') + 8)]).toEqual([1, 2, 3, 4, 0, 0, 0, 0]);
+  });
+});
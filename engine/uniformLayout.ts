@@ -0,0 +1,109 @@
+// WGSL host-shareable types usable in uniform structs
+export type WgslType = 'f32' | 'u32' | 'i32' | 'vec2f' | 'vec3f' | 'vec4f' | 'vec2u' | 'vec4u';
+
+const TYPES: Record<WgslType, { align: number; size: number; components: number; kind: 'f' | 'u' | 'i' }> = {
+  'f32': { align: 4, size: 4, components: 1, kind: 'f' },
+  'u32': { align: 4, size: 4, components: 1, kind: 'u' },
+  'i32': { align: 4, size: 4, components: 1, kind: 'i' },
+  'vec2f': { align: 8, size: 8, components: 2, kind: 'f' },
+  'vec3f': { align: 16, size: 12, components: 3, kind: 'f' },
+  'vec4f': { align: 16, size: 16, components: 4, kind: 'f' },
+  'vec2u': { align: 8, size: 8, components: 2, kind: 'u' },
+  'vec4u': { align: 16, size: 16, components: 4, kind: 'u' },
+};
+
+// Uniform buffers need 16-byte aligned arrays and structs
+const UNIFORM_ALIGN = 16;
+
+export interface UniformField {
+  name: string;
+  type: WgslType;
+  count?: number; // Makes the field an array<type, count>
+  align?: number; // Explicit @align, on top of the type's own alignment
+  comment?: string; // Copied into the WGSL declaration
+}
+
+// Where a field ended up, by the WGSL layout rules
+export interface UniformMember {
+  name: string;
+  type: WgslType;
+  count: number | null;
+  offset: number; // Bytes
+  size: number;
+  stride: number; // Bytes between array elements; the size for single values
+}
+
+type ElementValue<T extends WgslType> = T extends 'f32' | 'u32' | 'i32' ? number : readonly number[];
+type FieldValue<F extends UniformField> = F extends { count: number }
+  ? readonly ElementValue<F['type']>[] // Missing trailing elements are zeroed
+  : ElementValue<F['type']>;
+
+/** The values `pack` takes: numbers for scalars, component lists for vectors, lists of those for arrays. */
+export type UniformValues<F extends readonly UniformField[]> = {
+  [K in F[number] as K['name']]: FieldValue<K>;
+};
+
+export interface UniformStruct<F extends readonly UniformField[]> {
+  name: string;
+  members: UniformMember[];
+  size: number; // Bytes, padded to the struct alignment
+  wgsl: string; // The struct declaration, for interpolation into shader code
+  pack(values: UniformValues<F>): ArrayBuffer;
+}
+
+const roundUp = (align: number, value: number) => Math.ceil(value / align) * align;
+
+/**
+ * Lays out a uniform struct by the WGSL alignment and size rules, so the
+ * shader declaration and the TypeScript writer come from one definition.
+ */
+export const defineUniformStruct = <const F extends readonly UniformField[]>(name: string, fields: F): UniformStruct<F> => {
+  let offset = 0;
+  let structAlign = UNIFORM_ALIGN;
+  const members = fields.map((field): UniformMember => {
+    const type = TYPES[field.type];
+    let align = Math.max(type.align, field.align ?? 0);
+    let size = type.size;
+    let stride = type.size;
+    if (field.count !== undefined) {
+      stride = roundUp(type.align, type.size);
+      if (stride % UNIFORM_ALIGN !== 0) {
+        throw new Error(`${name}.${field.name}: uniform arrays need 16-byte elements, ${field.type} has ${stride}.`);
+      }
+      align = roundUp(UNIFORM_ALIGN, align);
+      size = stride * field.count;
+    }
+    structAlign = Math.max(structAlign, align);
+    offset = roundUp(align, offset);
+    const member = { name: field.name, type: field.type, count: field.count ?? null, offset, size, stride };
+    offset += size;
+    return member;
+  });
+  const size = roundUp(structAlign, offset);
+
+  const declarations = fields.map((field) => {
+    const align = field.align !== undefined ? `@align(${field.align}) ` : '';
+    const type = field.count !== undefined ? `array<${field.type}, ${field.count}>` : field.type;
+    const comment = field.comment ? ` // ${field.comment}` : '';
+    return `  ${align}${field.name} : ${type},${comment}`;
+  });
+  const wgsl = `struct ${name} {\n${declarations.join('\n')}\n};`;
+
+  const pack = (values: UniformValues<F>): ArrayBuffer => {
+    const buffer = new ArrayBuffer(size);
+    const views = { f: new Float32Array(buffer), u: new Uint32Array(buffer), i: new Int32Array(buffer) };
+    const fieldValues = values as Record<string, number | readonly number[] | readonly (number | readonly number[])[]>;
+    members.forEach((member) => {
+      const type = TYPES[member.type];
+      const value = fieldValues[member.name];
+      const elements = member.count !== null ? (value as readonly (number | readonly number[])[]).slice(0, member.count) : [value];
+      elements.forEach((element, i) => {
+        const components = typeof element === 'number' ? [element] : (element as readonly number[]).slice(0, type.components);
+        views[type.kind].set(components, (member.offset + i * member.stride) / 4);
+      });
+    });
+    return buffer;
+  };
+
+  return { name, members, size, wgsl, pack };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PARAMS } from './presets';
+import { buildSimUniforms, MAX_POINTERS, packSimUniforms, SIM_PARAMS, UNIFORM_BUFFER_SIZE } from './uniforms';
+
+describe('SIM_PARAMS', () => {
+  it('keeps the layout the shaders were written against', () => {
+    const scalars = [
+      'deltaTime', 'speed', 'radius', 'force', 'colorSource', 'fadeByAge', 'shrinkByAge', 'time',
+      'flowType', 'flowFrequency', 'flowOctaves', 'flowEvolution', 'boundaryMode', 'restitution',
+      'pointerCount', 'densityScale', 'particleSize', 'sizeBySpeed', 'streakLength', 'particleShape',
+      'atlasColumns', 'atlasRows', 'frameMode', 'mode3d',
+    ];
+    const expected = [
+      ['resolution', 0, 8],
+      ...scalars.map((name, i) => [name, 8 + i * 4, 4]),
+      ['pointers', 112, MAX_POINTERS * 16],
+      ['eye', 240, 16],
+      ['right', 256, 16],
+      ['up', 272, 16],
+      ['forward', 288, 16],
+    ];
+    expect(SIM_PARAMS.members.map((m) => [m.name, m.offset, m.size])).toEqual(expected);
+    expect(UNIFORM_BUFFER_SIZE).toBe(304);
+  });
+
+  it('packs the uniforms into their lanes', () => {
+    const uniforms = buildSimUniforms(
+      DEFAULT_PARAMS,
+      [{ x: 0.5, y: -0.25, isDown: true, pressure: 0.75 }],
+      800,
+      600,
+      1 / 60,
+      2
+    );
+    const f32 = new Float32Array(packSimUniforms(uniforms));
+    expect(f32.length).toBe(UNIFORM_BUFFER_SIZE / 4);
+    expect([...f32.slice(0, 2)]).toEqual([800, 600]);
+    expect(f32[2]).toBeCloseTo(1 / 60);
+    expect(f32[9]).toBe(2); // time
+    expect(f32[16]).toBe(1); // pointerCount
+    expect([...f32.slice(28, 32)]).toEqual([0.5, -0.25, 1, 0.75]);
+    expect([...f32.slice(32, 36)]).toEqual([0, 0, 0, 0]);
+    expect(f32[63]).toBeCloseTo(uniforms.camera.tanHalfFov); // eye.w
+    expect(f32[75]).toBeCloseTo(uniforms.camera.distance); // forward.w
+  });
+});
@@ -0,0 +1,159 @@
+import { BoundaryMode, ColorSource, FlowFieldType, ParticleShape, SimulationParams } from '../types';
+import { buildCameraBasis, CameraBasis } from './camera';
+import { defineUniformStruct } from './uniformLayout';
+
+// Simultaneous pointers (mouse, touches, pen) that each push particles around
+export const MAX_POINTERS = 8;
+
+export interface PointerState {
+  x: number; // Clip space, -1..1
+  y: number;
+  isDown: boolean; // Repels instead of swirling
+  pressure: number; // Strength multiplier, 0..1
+}
+
+// The `SimParams` uniform struct; COMPUTE_SHADER and RENDER_SHADER interpolate its `wgsl`
+export const SIM_PARAMS = defineUniformStruct('SimParams', [
+  { name: 'resolution', type: 'vec2f' },
+  { name: 'deltaTime', type: 'f32' },
+  { name: 'speed', type: 'f32' },
+  { name: 'radius', type: 'f32' },
+  { name: 'force', type: 'f32' },
+  { name: 'colorSource', type: 'f32', comment: '0 speed, 1 direction, 2 age, 3 position, 4 density' },
+  { name: 'fadeByAge', type: 'f32' },
+  { name: 'shrinkByAge', type: 'f32' },
+  { name: 'time', type: 'f32' },
+  { name: 'flowType', type: 'f32', comment: '0 classic, 1 curl, 2 simplex, 3 texture' },
+  { name: 'flowFrequency', type: 'f32' },
+  { name: 'flowOctaves', type: 'f32' },
+  { name: 'flowEvolution', type: 'f32' },
+  { name: 'boundaryMode', type: 'f32', comment: '0 wrap, 1 bounce, 2 kill, 3 open' },
+  { name: 'restitution', type: 'f32' },
+  { name: 'pointerCount', type: 'f32' },
+  { name: 'densityScale', type: 'f32' },
+  { name: 'particleSize', type: 'f32', comment: 'Radius in pixels' },
+  { name: 'sizeBySpeed', type: 'f32' },
+  { name: 'streakLength', type: 'f32' },
+  { name: 'particleShape', type: 'f32', comment: '0 disc, 1 streak, 2 sprite' },
+  { name: 'atlasColumns', type: 'f32' },
+  { name: 'atlasRows', type: 'f32' },
+  { name: 'frameMode', type: 'f32', comment: '0 random, 1 age' },
+  { name: 'mode3d', type: 'f32' },
+  { name: 'pointers', type: 'vec4f', count: MAX_POINTERS, comment: 'x, y, isDown, pressure' },
+  { name: 'eye', type: 'vec4f', comment: '3D camera position, w = tan(fov / 2)' },
+  { name: 'right', type: 'vec4f' },
+  { name: 'up', type: 'vec4f' },
+  { name: 'forward', type: 'vec4f', comment: 'w = orbit distance' },
+]);
+
+export const UNIFORM_BUFFER_SIZE = SIM_PARAMS.size;
+
+export interface SimUniforms {
+  resolution: [number, number];
+  deltaTime: number;
+  speed: number;
+  radius: number;
+  force: number;
+  colorSource: number;
+  fadeByAge: number;
+  shrinkByAge: number;
+  time: number; // Simulated seconds since start
+  flowType: number;
+  flowFrequency: number;
+  flowOctaves: number;
+  flowEvolution: number;
+  boundaryMode: number;
+  restitution: number;
+  densityScale: number; // Maps neighbor density to the gradient, for the 'density' color source
+  particleSize: number;
+  sizeBySpeed: number;
+  streakLength: number;
+  particleShape: number;
+  atlasColumns: number;
+  atlasRows: number;
+  frameMode: number;
+  mode3d: number;
+  pointers: PointerState[];
+  camera: CameraBasis;
+}
+
+const FLOW_TYPE_IDS: Record<FlowFieldType, number> = {
+  classic: 0,
+  curl: 1,
+  simplex: 2,
+  texture: 3,
+};
+
+const BOUNDARY_MODE_IDS: Record<BoundaryMode, number> = {
+  wrap: 0,
+  bounce: 1,
+  kill: 2,
+  open: 3,
+};
+
+const PARTICLE_SHAPE_IDS: Record<ParticleShape, number> = {
+  disc: 0,
+  streak: 1,
+  sprite: 2,
+};
+
+const COLOR_SOURCE_IDS: Record<ColorSource, number> = {
+  speed: 0,
+  direction: 1,
+  age: 2,
+  position: 3,
+  density: 4,
+};
+
+export const buildSimUniforms = (
+  params: SimulationParams,
+  pointers: PointerState[],
+  width: number,
+  height: number,
+  deltaTime: number,
+  time: number
+): SimUniforms => ({
+  resolution: [width, height],
+  deltaTime,
+  speed: params.speed,
+  radius: params.interactionRadius,
+  force: params.forceStrength,
+  colorSource: COLOR_SOURCE_IDS[params.colorSource],
+  fadeByAge: params.fadeByAge ? 1.0 : 0.0,
+  shrinkByAge: params.shrinkByAge ? 1.0 : 0.0,
+  time,
+  // Without a loaded field the texture generator falls back to the classic one
+  flowType: params.flowField.type === 'texture' && !params.flowField.texture ? 0 : FLOW_TYPE_IDS[params.flowField.type],
+  flowFrequency: params.flowField.frequency,
+  flowOctaves: params.flowField.octaves,
+  flowEvolution: params.flowField.evolution,
+  boundaryMode: BOUNDARY_MODE_IDS[params.boundaryMode],
+  restitution: params.restitution,
+  // Twice the fluid rest density reaches the end of the gradient
+  densityScale: 1.0 / Math.max(params.fluid.restDensity * 2.0, 1e-3),
+  particleSize: params.particleStyle.size,
+  sizeBySpeed: params.particleStyle.sizeBySpeed,
+  streakLength: params.particleStyle.streakLength,
+  // Without a loaded atlas sprites fall back to discs
+  particleShape: params.particleStyle.shape === 'sprite' && !params.particleStyle.atlas ? 0 : PARTICLE_SHAPE_IDS[params.particleStyle.shape],
+  atlasColumns: params.particleStyle.atlasColumns,
+  atlasRows: params.particleStyle.atlasRows,
+  frameMode: params.particleStyle.frameMode === 'age' ? 1.0 : 0.0,
+  mode3d: params.mode3d ? 1.0 : 0.0,
+  pointers: pointers.slice(0, MAX_POINTERS),
+  camera: buildCameraBasis(params.camera),
+});
+
+export const packSimUniforms = (u: SimUniforms): ArrayBuffer => {
+  const { eye, right, up, forward, tanHalfFov, distance } = u.camera;
+  return SIM_PARAMS.pack({
+    ...u,
+    pointerCount: u.pointers.length,
+    pointers: u.pointers.map((p) => [p.x, p.y, p.isDown ? 1.0 : 0.0, p.pressure]),
+    // The lens and orbit distance ride in the spare lanes of the camera vectors
+    eye: [...eye, tanHalfFov],
+    right: [...right, 0.0],
+    up: [...up, 0.0],
+    forward: [...forward, distance],
+  });
+};
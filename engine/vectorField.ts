@@ -0,0 +1,54 @@
+import { VectorFieldGrid } from '../types';
+import { loadImagePixels } from './imagePixels';
+
+// Larger sources are downsampled; the field is smooth after bilinear sampling anyway
+export const MAX_VECTOR_FIELD_SIZE = 256;
+
+/**
+ * Parses a vector field from JSON: `{ "width": W, "height": H, "data": [...] }`
+ * with rows from the top of the screen down, and `data` either interleaved
+ * `x, y` numbers or `[x, y]` pairs. Throws on malformed input.
+ */
+export const parseVectorFieldJson = (text: string): VectorFieldGrid => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Vector field is not valid JSON.');
+  }
+
+  const { width, height, data } = (json ?? {}) as Record<string, unknown>;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || (width as number) < 1 || (height as number) < 1) {
+    throw new Error('Vector field needs positive integer "width" and "height".');
+  }
+  if ((width as number) > MAX_VECTOR_FIELD_SIZE || (height as number) > MAX_VECTOR_FIELD_SIZE) {
+    throw new Error(`Vector field grids are limited to ${MAX_VECTOR_FIELD_SIZE}x${MAX_VECTOR_FIELD_SIZE}.`);
+  }
+  if (!Array.isArray(data)) {
+    throw new Error('Vector field needs a "data" array.');
+  }
+
+  const flat = data.flat();
+  if (flat.length !== (width as number) * (height as number) * 2) {
+    throw new Error(`Vector field "data" should hold ${width}x${height} vectors.`);
+  }
+  if (!flat.every((v) => typeof v === 'number' && Number.isFinite(v))) {
+    throw new Error('Vector field "data" may only contain finite numbers.');
+  }
+
+  return { width: width as number, height: height as number, data: flat as number[] };
+};
+
+/**
+ * Reads a vector field from a flow map image: red is x, green is y (up),
+ * with mid-gray meaning no flow.
+ */
+export const vectorFieldFromImage = async (file: Blob): Promise<VectorFieldGrid> => {
+  const { data: pixels, width, height } = await loadImagePixels(file, MAX_VECTOR_FIELD_SIZE);
+  const data = new Array<number>(width * height * 2);
+  for (let i = 0; i < width * height; i++) {
+    data[i * 2] = (pixels[i * 4] / 255) * 2 - 1;
+    data[i * 2 + 1] = (pixels[i * 4 + 1] / 255) * 2 - 1;
+  }
+  return { width, height, data };
+};
@@ -0,0 +1,82 @@
+// Minimal ZIP writer for the frame sequence export. Entries are stored
+// uncompressed: PNG data is already deflated, so compressing again gains nothing.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/** A ZIP archive of `entries`, without compression. Limited to 4 GB and 65535 entries (no ZIP64). */
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed: 2.0
+    local.setUint16(6, 0x0800, true); // Flags: UTF-8 names
+    local.setUint16(8, 0, true); // Method: stored
+    local.setUint32(10, 0, true); // Modification time and date
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true); // Compressed size
+    local.setUint32(22, size, true); // Uncompressed size
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // Extra field length
+    parts.push(local.buffer, name, entry.data);
+
+    const central = new DataView(new ArrayBuffer(46 + name.length));
+    central.setUint32(0, 0x02014B50, true); // Central directory header signature
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true); // Version needed
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint32(12, 0, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    // 30-42: extra and comment lengths, disk number, attributes, all zero
+    central.setUint32(42, offset, true); // Offset of the local header
+    new Uint8Array(central.buffer).set(name, 46);
+    directory.push(new Uint8Array(central.buffer));
+
+    offset += 30 + name.length + size;
+  }
+
+  const directorySize = directory.reduce((sum, d) => sum + d.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true); // End of central directory signature
+  end.setUint16(8, entries.length, true); // Entries on this disk
+  end.setUint16(10, entries.length, true); // Entries in total
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true); // Offset of the central directory
+
+  return new Blob([...parts, ...directory, end.buffer], { type: 'application/zip' });
+};
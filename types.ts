@@ -1,14 +1,242 @@
+export type EmitterShape = 'point' | 'line' | 'circle' | 'rectangle';
+
+export interface EmitterConfig {
+  shape: EmitterShape;
+  enabled: boolean;
+  position: [number, number]; // Clip space center
+  size: [number, number]; // Line / rectangle half extents, circle radius in x
+  rate: number; // Particles per simulated second
+  direction: number; // Degrees, 0 = right, counter-clockwise
+  spread: number; // Half-angle of the velocity cone, degrees
+  speed: [number, number]; // Initial speed range
+  lifetime: number; // Seconds
+  lifetimeVariance: number; // 0..1, fraction of lifetime
+}
+
+export type ForceFieldType = 'attractor' | 'repeller' | 'vortex' | 'wind' | 'drag';
+export type ForceFalloff = 'constant' | 'linear' | 'smooth';
+
+export interface ForceFieldConfig {
+  type: ForceFieldType;
+  enabled: boolean;
+  position: [number, number]; // Clip space center
+  radius: number; // Aspect-corrected, like the mouse radius
+  strength: number;
+  falloff: ForceFalloff; // Strength from the center to the edge
+  direction: number; // Wind only, degrees, 0 = right, counter-clockwise
+}
+
+export type BoundaryMode = 'wrap' | 'bounce' | 'kill' | 'open';
+export type ObstacleShape = 'circle' | 'box' | 'polyline';
+
+export interface ObstacleConfig {
+  shape: ObstacleShape;
+  enabled: boolean;
+  position: [number, number]; // Clip space center
+  size: [number, number]; // Box half extents, circle radius / polyline thickness in x; aspect-corrected
+  rotation: number; // Box only, degrees
+  points: [number, number][]; // Polyline only, clip space offsets from the position
+}
+
+// Signed distances on a regular grid, rows from the top of the screen down
+export interface DistanceFieldGrid {
+  width: number;
+  height: number;
+  data: number[]; // Clip space units, negative inside
+}
+
+export type FlowFieldType = 'classic' | 'curl' | 'simplex' | 'texture';
+
+// A vector field on a regular grid, rows from the top of the screen down
+export interface VectorFieldGrid {
+  width: number;
+  height: number;
+  data: number[]; // Interleaved x, y per cell, y pointing up
+}
+
+export interface FlowFieldParams {
+  type: FlowFieldType;
+  frequency: number; // Pattern repeats per clip space unit
+  octaves: number; // FBM layers of the noise generators
+  evolution: number; // Rate the pattern changes over simulated time
+  texture: VectorFieldGrid | null; // Sampled by the 'texture' generator
+}
+
+// Parameters that touch gestures can drive
+export type GestureTarget = 'none' | 'interactionRadius' | 'forceStrength' | 'speed' | 'timeScale' | 'neighborRadius';
+
+export interface GestureBindings {
+  pinch: GestureTarget; // Scales the target by the change in finger distance
+  twoFingerDrag: GestureTarget; // Vertical drag moves the target through its range
+}
+
+export type SimulationMode = 'flow' | 'boids' | 'fluid';
+
+export interface BoidsParams {
+  separation: number;
+  alignment: number;
+  cohesion: number;
+  maxSpeed: number; // Clip space units per 60 Hz frame
+}
+
+export interface FluidParams {
+  restDensity: number; // Kernel-weighted neighbor count the fluid settles at
+  stiffness: number; // Pressure per unit of density above rest
+  viscosity: number;
+  gravity: number;
+}
+
+export type ColorScheme = 'neon' | 'fire' | 'ocean' | 'custom';
+
+// What picks a particle's color: a position along the gradient, or its direction as a hue
+export type ColorSource = 'speed' | 'direction' | 'age' | 'position' | 'density';
+
+export interface GradientStop {
+  position: number; // 0..1 along the gradient
+  color: string; // #rrggbb
+}
+
+// Disc: soft round glow. Streak: disc stretched along the motion. Sprite: frame of an image atlas
+export type ParticleShape = 'disc' | 'streak' | 'sprite';
+
+// Random: a fixed frame per particle. Age: plays the atlas over the particle's lifetime
+export type SpriteFrameMode = 'random' | 'age';
+
+export interface SpriteImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA8, rows from the top down
+}
+
+export interface ParticleStyle {
+  shape: ParticleShape;
+  size: number; // Radius in pixels
+  sizeBySpeed: number; // 0..1: how far still particles shrink, down to a quarter of `size`
+  streakLength: number; // Frames of motion a streak spans
+  atlas: SpriteImage | null;
+  atlasColumns: number;
+  atlasRows: number;
+  frameMode: SpriteFrameMode;
+}
+
+export type TonemapMode = 'none' | 'reinhard' | 'aces';
+
+export interface PostProcessParams {
+  trails: boolean;
+  trailDecay: number; // Brightness kept per 60 Hz frame
+  bloom: boolean;
+  bloomThreshold: number; // Luminance where the glow starts
+  bloomIntensity: number;
+  tonemap: TonemapMode; // 'none' clips at white
+  exposure: number;
+}
+
+// Orbit camera of the 3D mode, looking at the center of the volume
+export interface CameraParams {
+  yaw: number; // Degrees around the vertical axis
+  pitch: number; // Degrees above the horizon
+  distance: number; // From the center
+  fov: number; // Vertical field of view, degrees
+}
+
+// User-written WGSL force, spliced into the compute shader (engine/customForce.ts)
+export interface CustomForceParams {
+  enabled: boolean;
+  code: string; // fn customForce(particle : Particle, params : SimParams) -> vec2f
+}
+
+// Frame-time budget held by trading particles, resolution and bloom for speed
+export interface AdaptiveQualityParams {
+  enabled: boolean;
+  targetFps: number;
+}
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+// Numeric parameters a timeline track can drive, by path (engine/timeline.ts)
+export type TimelineParam =
+  | 'speed'
+  | 'interactionRadius'
+  | 'forceStrength'
+  | 'timeScale'
+  | 'flowField.frequency'
+  | 'flowField.evolution'
+  | 'particleStyle.size'
+  | 'particleStyle.streakLength'
+  | 'postProcess.trailDecay'
+  | 'postProcess.bloomIntensity'
+  | 'postProcess.exposure'
+  | 'camera.yaw'
+  | 'camera.pitch'
+  | 'camera.distance'
+  | 'camera.fov'
+  | 'neighborRadius'
+  | 'separation'
+  | 'cohesion'
+  | 'restitution';
+
+export interface Keyframe<T> {
+  time: number; // Seconds from the start of the timeline
+  value: T;
+  easing: Easing; // Of the segment towards the next keyframe
+}
+
+export interface TimelineTrack {
+  param: TimelineParam;
+  keyframes: Keyframe<number>[]; // Any order
+}
+
+// Keyframed parameters, played by the engine on top of the rest of the params
+export interface TimelineParams {
+  enabled: boolean; // Switching it on plays the timeline from the start
+  duration: number; // Seconds
+  loop: boolean;
+  tracks: TimelineTrack[]; // One per parameter
+  colorKeyframes: Keyframe<ColorScheme>[]; // Crossfaded between schemes
+}
+
 export interface SimulationParams {
   particleCount: number;
+  seed: number; // Initial particle state; changing it resets the particles
   speed: number;
+  flowField: FlowFieldParams;
   interactionRadius: number;
   forceStrength: number;
-  colorScheme: 'neon' | 'fire' | 'ocean';
+  gestures: GestureBindings;
+  colorScheme: ColorScheme;
+  customGradient: GradientStop[]; // Used by the 'custom' scheme
+  colorSource: ColorSource;
+  particleStyle: ParticleStyle;
+  postProcess: PostProcessParams; // Bloom and tonemapping need WebGPU
+  mode3d: boolean; // Flow field and pointers in a cube; the other forces stay 2D-only
+  camera: CameraParams;
+  timeScale: number; // Simulated seconds per real second
+  substeps: number; // Compute dispatches per 60 Hz frame
+  paused: boolean;
+  emitters: EmitterConfig[]; // Particles live forever while none are enabled
+  forceFields: ForceFieldConfig[];
+  boundaryMode: BoundaryMode; // Fluid bounces instead of wrapping
+  restitution: number; // Velocity kept by bounces, at the edges and on obstacles
+  obstacles: ObstacleConfig[];
+  obstacleMask: DistanceFieldGrid | null; // Baked from an uploaded image
+  fadeByAge: boolean;
+  shrinkByAge: boolean;
+  neighborRadius: number; // Range of particle-particle interactions
+  separation: number; // 0 disables
+  cohesion: number; // 0 disables
+  simulationMode: SimulationMode;
+  boids: BoidsParams;
+  fluid: FluidParams;
+  adaptiveQuality: AdaptiveQualityParams;
+  customForce: CustomForceParams; // WebGPU and 2D only
+  timeline: TimelineParams;
 }
 
 export enum WebGPUStatus {
   Loading = 'loading',
   Supported = 'supported',
+  Fallback = 'fallback', // Running on the CPU / Canvas2D backend
+  Recovering = 'recovering', // The GPU device was lost and is being recreated
   Unsupported = 'unsupported',
   Error = 'error'
 }